@@ -8,9 +8,56 @@ import SettingsPanel from './components/SettingsPanel';
 import Footer from './components/Footer';
 import AssetListModal from './components/AssetListModal';
 import ThemeModal from './components/ThemeModal';
-import { DEFAULT_SYMBOLS, TIMEFRAMES, LIGHT_THEME_SETTINGS, DARK_THEME_SETTINGS } from './constants';
-import type { Settings, SymbolData, Timeframe, Theme, Notification, SortOrder, ViewMode } from './types';
-import { fetchRsiForSymbol } from './services/binanceService';
+import RequestStatus from './components/RequestStatus';
+import IndicatorModal from './components/IndicatorModal';
+import FilterBar from './components/FilterBar';
+import Matrix from './components/Matrix';
+import ConfluenceModal from './components/ConfluenceModal';
+import AlertRulesModal from './components/AlertRulesModal';
+import AlertDeliveryModal from './components/AlertDeliveryModal';
+import WebhooksModal from './components/WebhooksModal';
+import NotificationHistoryModal from './components/NotificationHistoryModal';
+import AlertMutesModal from './components/AlertMutesModal';
+import SnoozeMenu from './components/SnoozeMenu';
+import { DEFAULT_SYMBOLS, TIMEFRAMES, LIGHT_THEME_SETTINGS, DARK_THEME_SETTINGS, DEFAULT_INDICATOR_SETTINGS, DEFAULT_MATRIX_TIMEFRAMES, DEFAULT_CONFLUENCE_SETTINGS, DEFAULT_ALERT_RULES, DEFAULT_ALERT_DELIVERY_SETTINGS, DEFAULT_CHART_LOOKBACK, ALERT_SEVERITY_COLORS, DIVERGENCE_LABELS, getIndicatorLabel } from './constants';
+import type { Settings, SymbolData, Timeframe, Theme, Notification, SortOrder, ViewMode, Kline, ProviderId, IndicatorSettings, SavedScreen, ConfluenceSettings, AlertRule, AlertDeliverySettings, WebhookTarget, AlertMute, SnoozeOption, DrawingAlert } from './types';
+import { fetchKlinesIncremental, fetchKlinesBefore, mergeKline, toFailedSymbolData, isRetryableError } from './services/marketData';
+import { createIndicatorComputer } from './services/indicatorClient';
+import { readCachedKlines, writeCachedKlines, evictKlineCache } from './services/klineCache';
+import { DEFAULT_PROVIDER_ID, getProvider } from './services/providers';
+import { openKlineStream, type StreamStatus } from './services/klineStream';
+import { getRecentDivergence, isBullishDivergence } from './services/divergence';
+import { compileScreener } from './services/screener';
+import { createAlertRuleEngine, describeAlertCondition } from './services/alertRules';
+import { getAlertSound, needsAcknowledgement, isWithinQuietHours, getDesktopPermission, requestDesktopPermission, showDesktopNotification, type DesktopPermission } from './services/alertDelivery';
+import { playAlertSound } from './services/alertSounds';
+import { createWebhookDispatcher } from './services/webhooks';
+import { addToHistory, clearHistory, pruneHistory } from './services/notificationHistory';
+import { getMuteUntil, isMuteActive, pruneExpiredMutes, getNextMuteExpiry } from './services/alertMutes';
+import { loadAllChartDrawings, loadDrawings, saveDrawings, subscribeToDrawings, type ChartDrawings } from './services/drawings';
+import { createDrawingAlertEngine, describeDrawingAlertMatch, getDrawingAlertName } from './services/drawingAlerts';
+import { loadTimeframeData } from './services/matrixData';
+import { startTimeframeMonitor, getRefreshInterval } from './services/timeframeMonitor';
+import { getConfluenceScores, getConfluenceBias, formatConfluenceScore, type ConfluenceBias } from './services/confluence';
+
+// Failed symbols are retried after 5s, 10s, 20s... up to 5 minutes
+const RETRY_BASE_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Data that hasn't been refreshed for this long is marked stale
+const STALE_AFTER = 3 * 60 * 1000;
+
+// Added to the fetch priority of timeframes that are only watched for alerts
+const BACKGROUND_PRIORITY = 1e6;
+
+const getRetryDelay = (attempt: number) => Math.min(MAX_RETRY_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+
+type KlinesResult = { klines: Kline[] } | { error: unknown };
+
+// Shared for the lifetime of the page; falls back to the main thread where workers aren't available
+const indicatorComputer = createIndicatorComputer();
+const alertRuleEngine = createAlertRuleEngine();
+const drawingAlertEngine = createDrawingAlertEngine();
+const webhookDispatcher = createWebhookDispatcher();
 
 // === Splash Screen Component ===
 const SplashScreen: React.FC = () => {
@@ -30,9 +77,14 @@ const SplashScreen: React.FC = () => {
 interface ToastNotificationProps {
   toast: Notification;
   onRemove: (id: number) => void;
+  /** Stays on screen until closed, for critical alerts awaiting acknowledgement. */
+  isPersistent: boolean;
+  mute?: AlertMute;
+  onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+  onUnmute: (symbol: string) => void;
 }
 
-const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove }) => {
+const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove, isPersistent, mute, onSnooze, onUnmute }) => {
     const [isVisible, setIsVisible] = useState(false);
     const onRemoveRef = useRef(onRemove);
 
@@ -48,7 +100,7 @@ const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove }
         });
 
         // Set timer to automatically dismiss the toast
-        const timer = setTimeout(() => {
+        const timer = isPersistent ? undefined : setTimeout(() => {
             setIsVisible(false); // Trigger exit animation
             // Use the ref to ensure the latest onRemove function is called
             setTimeout(() => onRemoveRef.current(toast.id), 500); 
@@ -58,19 +110,43 @@ const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove }
             cancelAnimationFrame(enter);
             clearTimeout(timer);
         };
-    }, [toast.id]); // Dependency only on toast.id to prevent timer reset
+    }, [toast.id, isPersistent]); // Not on onRemove, to prevent timer reset
 
     const handleClose = () => {
         setIsVisible(false); // Trigger exit animation
         // Use the ref to ensure the latest onRemove function is called
         setTimeout(() => onRemoveRef.current(toast.id), 500);
     };
+
+    // Snoozing from a toast also dismisses it
+    const handleSnooze = (symbol: string, timeframe: Timeframe, option: SnoozeOption) => {
+        onSnooze(symbol, timeframe, option);
+        handleClose();
+    };
   
   const isOverbought = toast.type === 'overbought';
-  const accentColor = isOverbought ? 'bg-red-500' : 'bg-green-500';
-  const icon = isOverbought ? 'fa-arrow-trend-up' : 'fa-arrow-trend-down';
+  const divergence = toast.type === 'divergence' ? toast.divergence : undefined;
+  const confluenceScore = toast.type === 'confluence' ? toast.score ?? 0 : undefined;
+  // Red for overbought and bearish signals, green for oversold and bullish ones
+  const isBearish = divergence ? !isBullishDivergence(divergence) : confluenceScore !== undefined ? confluenceScore < 0 : isOverbought;
+  // Rule alerts are coloured by severity instead
+  const isRule = toast.type === 'rule';
+  const severityColors = ALERT_SEVERITY_COLORS[toast.severity ?? 'warning'];
+  const accentColor = isRule ? severityColors.bg : isBearish ? 'bg-red-500' : 'bg-green-500';
+  const iconColor = isRule ? severityColors.text : isBearish ? 'text-red-500' : 'text-green-500';
+  const icon = isRule
+    ? 'fa-bell'
+    : confluenceScore !== undefined
+    ? 'fa-layer-group'
+    : (divergence ? !isBearish : isOverbought) ? 'fa-arrow-trend-up' : 'fa-arrow-trend-down';
   const title = `${toast.symbol} (${toast.timeframe})`;
-  const body = `is now ${isOverbought ? 'Overbought' : 'Oversold'} at ${toast.rsi.toFixed(2)}`;
+  const body = isRule
+    ? `${toast.ruleName}: ${toast.ruleCondition} at ${toast.rsi.toFixed(2)}`
+    : divergence
+    ? `${DIVERGENCE_LABELS[divergence].label} on ${getIndicatorLabel(toast.indicator)} at ${toast.rsi.toFixed(2)}`
+    : confluenceScore !== undefined
+    ? `${isBearish ? 'Bearish' : 'Bullish'} ${getIndicatorLabel(toast.indicator)} confluence, score ${formatConfluenceScore(confluenceScore)}`
+    : `${getIndicatorLabel(toast.indicator)} is now ${isOverbought ? 'Overbought' : 'Oversold'} at ${toast.rsi.toFixed(2)}`;
 
   return (
     <div
@@ -81,13 +157,21 @@ const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove }
       <div className={`absolute left-0 top-0 bottom-0 w-1.5 ${accentColor}`}></div>
       <div className="flex items-start pl-3">
         <div className="flex-shrink-0 pt-0.5">
-          <i className={`fa-solid ${icon} text-xl ${isOverbought ? 'text-red-500' : 'text-green-500'}`}></i>
+          <i className={`fa-solid ${icon} text-xl ${iconColor}`}></i>
         </div>
         <div className="ml-4 flex-1">
           <p className="text-sm font-bold">{title}</p>
           <p className="mt-1 text-sm">{body}</p>
         </div>
-        <div className="ml-4 flex-shrink-0 flex">
+        <div className="ml-4 flex-shrink-0 flex items-start gap-3">
+          <SnoozeMenu
+            symbol={toast.symbol}
+            timeframe={toast.timeframe}
+            mute={mute}
+            onSnooze={handleSnooze}
+            onUnmute={onUnmute}
+            className="text-medium-text-light dark:text-medium-text hover:text-amber-500"
+          />
           <button onClick={handleClose} className="inline-flex text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text focus:outline-none" aria-label="Close">
             <i className="fa-solid fa-xmark"></i>
           </button>
@@ -100,11 +184,25 @@ const ToastNotification: React.FC<ToastNotificationProps> = ({ toast, onRemove }
 interface ToastContainerProps {
   toasts: Notification[];
   onRemove: (id: number) => void;
+  persistentIds: number[];
+  mutes: Record<string, AlertMute>;
+  onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+  onUnmute: (symbol: string) => void;
 }
 
-const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onRemove }) => (
+const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onRemove, persistentIds, mutes, onSnooze, onUnmute }) => (
   <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[100] w-full max-w-xs space-y-3">
-    {toasts.map(toast => <ToastNotification key={toast.id} toast={toast} onRemove={onRemove} />)}
+    {toasts.map(toast => (
+      <ToastNotification
+        key={toast.id}
+        toast={toast}
+        onRemove={onRemove}
+        isPersistent={persistentIds.includes(toast.id)}
+        mute={mutes[toast.symbol]}
+        onSnooze={onSnooze}
+        onUnmute={onUnmute}
+      />
+    ))}
   </div>
 );
 
@@ -127,12 +225,79 @@ const App: React.FC = () => {
     }, [isInitializing]);
     
     const [theme, setTheme] = useState<Theme>('dark');
-    const [settings, setSettings] = useState<Settings>(DARK_THEME_SETTINGS);
+    const [settings, setSettings] = useState<Settings>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-indicator-settings');
+            return { ...DARK_THEME_SETTINGS, ...DEFAULT_INDICATOR_SETTINGS, ...(saved ? JSON.parse(saved) : {}) };
+        } catch (error) {
+            console.error("Failed to parse indicator settings from localStorage", error);
+            return { ...DARK_THEME_SETTINGS, ...DEFAULT_INDICATOR_SETTINGS };
+        }
+    });
+    const indicatorSettings = useMemo<IndicatorSettings>(() => ({
+        mode: settings.mode,
+        rsiLength: settings.rsiLength,
+        smaLength: settings.smaLength,
+        priceSource: settings.priceSource,
+        rsiSmoothing: settings.rsiSmoothing,
+        signalType: settings.signalType,
+        bbMultiplier: settings.bbMultiplier,
+        stochLength: settings.stochLength,
+        stochKSmoothing: settings.stochKSmoothing,
+        stochDSmoothing: settings.stochDSmoothing,
+    }), [
+        settings.mode, settings.rsiLength, settings.smaLength, settings.priceSource, settings.rsiSmoothing,
+        settings.signalType, settings.bbMultiplier, settings.stochLength, settings.stochKSmoothing, settings.stochDSmoothing,
+    ]);
+    // Read by the live stream so a parameter change doesn't reopen the sockets
+    const indicatorSettingsRef = useRef(indicatorSettings);
     const [timeframe, setTimeframe] = useState<Timeframe>('15m');
     const [symbolsData, setSymbolsData] = useState<Record<string, SymbolData>>({});
     const [loading, setLoading] = useState(true);
+    const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+
+    // Raw kline windows backing `symbolsData`, updated in place by the live stream.
+    // `source` is the provider and timeframe they were fetched for.
+    const klinesRef = useRef<{ source: string | null; bySymbol: Record<string, Kline[]> }>({ source: null, bySymbol: {} });
+    const dirtySymbolsRef = useRef<Set<string>>(new Set());
+    const sourceRef = useRef<string | null>(null);
+    const retryTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+    const wasStreamDownRef = useRef(false);
+    // Ranks symbols for the request queue; lower values are fetched first
+    const fetchPriorityRef = useRef<(symbol: string) => number>(() => 0);
+    // Aborted when a newer fetch supersedes the one in flight, e.g. after a timeframe switch
+    const fetchAbortRef = useRef<AbortController | null>(null);
+
     const [searchTerm, setSearchTerm] = useState('');
     const [viewMode, setViewMode] = useState<ViewMode>('chart');
+
+    // Matrix view columns, persisted; their data lives in `timeframeData` below
+    const [matrixTimeframes, setMatrixTimeframes] = useState<Timeframe[]>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-matrix-timeframes');
+            return saved ? JSON.parse(saved) : DEFAULT_MATRIX_TIMEFRAMES;
+        } catch (error) {
+            console.error("Failed to parse matrix timeframes from localStorage", error);
+            return DEFAULT_MATRIX_TIMEFRAMES;
+        }
+    });
+
+    const [confluenceSettings, setConfluenceSettings] = useState<ConfluenceSettings>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-confluence-settings');
+            return { ...DEFAULT_CONFLUENCE_SETTINGS, ...(saved ? JSON.parse(saved) : {}) };
+        } catch (error) {
+            console.error("Failed to parse confluence settings from localStorage", error);
+            return DEFAULT_CONFLUENCE_SETTINGS;
+        }
+    });
+
+    // SymbolData for timeframes other than the main one, loaded on demand for the matrix, confluence score and alert rules
+    const [timeframeData, setTimeframeData] = useState<Partial<Record<Timeframe, Record<string, SymbolData>>>>({});
+    const timeframeDataRef = useRef(timeframeData);
+    // Same for charts with drawing alerts whose symbol isn't in the symbol list, which nothing else loads
+    const [drawingAlertData, setDrawingAlertData] = useState<Partial<Record<Timeframe, Record<string, SymbolData>>>>({});
+    const drawingAlertDataRef = useRef(drawingAlertData);
     
     const [allSymbols, setAllSymbols] = useState<string[]>(() => {
         try {
@@ -154,6 +319,12 @@ const App: React.FC = () => {
         }
     });
 
+    const [providerId, setProviderId] = useState<ProviderId>(() => {
+        return (localStorage.getItem('crypto-provider') as ProviderId | null) ?? DEFAULT_PROVIDER_ID;
+    });
+    const provider = useMemo(() => getProvider(providerId), [providerId]);
+    const [providerSymbols, setProviderSymbols] = useState<string[] | null>(null);
+
     const [favorites, setFavorites] = useState<string[]>(() => {
         try {
             const saved = localStorage.getItem('crypto-favorites');
@@ -166,10 +337,53 @@ const App: React.FC = () => {
     const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
     const [sortOrder, setSortOrder] = useState<SortOrder>('default');
 
+    // Screener
+    const [screenerExpression, setScreenerExpression] = useState<string>(() => localStorage.getItem('crypto-screener-expression') ?? '');
+    const [savedScreens, setSavedScreens] = useState<SavedScreen[]>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-saved-screens');
+            return saved ? JSON.parse(saved) : [];
+        } catch (error) {
+            console.error("Failed to parse saved screens from localStorage", error);
+            return [];
+        }
+    });
+    const screener = useMemo(() => {
+        if (screenerExpression.trim() === '') return { predicate: null, error: null };
+        try {
+            return { predicate: compileScreener(screenerExpression), error: null };
+        } catch (error) {
+            return { predicate: null, error: error instanceof Error ? error.message : 'Invalid expression' };
+        }
+    }, [screenerExpression]);
+
     const [activeSymbol, setActiveSymbol] = useState<string | null>(null);
+    // Set when the modal was opened from a matrix cell at a timeframe other than the main one
+    const [activeTimeframe, setActiveTimeframe] = useState<Timeframe | null>(null);
+    // Alert time the chart loads its history back to and opens centred on, when opened from an alert
+    const [chartFocusTime, setChartFocusTime] = useState<number | null>(null);
+    // Data for a chart whose symbol or timeframe isn't otherwise loaded, e.g. one opened from the alert history
+    const [chartFallback, setChartFallback] = useState<{ key: string; data: SymbolData } | null>(null);
+    // Candles the detail chart starts out with
+    const [chartLookback, setChartLookback] = useState<number>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-chart-lookback');
+            return saved ? JSON.parse(saved) : DEFAULT_CHART_LOOKBACK;
+        } catch (error) {
+            console.error("Failed to parse chart lookback from localStorage", error);
+            return DEFAULT_CHART_LOOKBACK;
+        }
+    });
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [isAssetModalOpen, setIsAssetModalOpen] = useState(false);
     const [isThemeModalOpen, setIsThemeModalOpen] = useState(false);
+    const [isIndicatorModalOpen, setIsIndicatorModalOpen] = useState(false);
+    const [isConfluenceModalOpen, setIsConfluenceModalOpen] = useState(false);
+    const [isAlertRulesModalOpen, setIsAlertRulesModalOpen] = useState(false);
+    const [isAlertDeliveryModalOpen, setIsAlertDeliveryModalOpen] = useState(false);
+    const [isWebhooksModalOpen, setIsWebhooksModalOpen] = useState(false);
+    const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+    const [isMutesModalOpen, setIsMutesModalOpen] = useState(false);
 
     // RSI Alert State
     const [areAlertsEnabled, setAreAlertsEnabled] = useState<boolean>(() => {
@@ -191,14 +405,76 @@ const App: React.FC = () => {
         }
     });
 
-    const [lastAlertedRsiStatus, setLastAlertedRsiStatus] = useState<Record<string, 'overbought' | 'oversold' | 'neutral'>>({});
+    const [alertRules, setAlertRules] = useState<AlertRule[]>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-alert-rules');
+            return saved ? JSON.parse(saved) : DEFAULT_ALERT_RULES;
+        } catch (error) {
+            console.error("Failed to parse alert rules from localStorage", error);
+            return DEFAULT_ALERT_RULES;
+        }
+    });
+    // Second-pivot time of the last divergence alerted per symbol and timeframe, so each one fires once
+    const lastAlertedDivergenceRef = useRef<Record<string, number>>({});
+    // Confluence direction last alerted per symbol; an alert fires when a symbol enters confluence
+    const lastAlertedConfluenceRef = useRef<Record<string, ConfluenceBias | null>>({});
     const [liveToasts, setLiveToasts] = useState<Notification[]>([]);
+
+    const [alertDelivery, setAlertDelivery] = useState<AlertDeliverySettings>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-alert-delivery');
+            const parsed: Partial<AlertDeliverySettings> = saved ? JSON.parse(saved) : {};
+            return {
+                ...DEFAULT_ALERT_DELIVERY_SETTINGS,
+                ...parsed,
+                typeSounds: { ...DEFAULT_ALERT_DELIVERY_SETTINGS.typeSounds, ...parsed.typeSounds },
+                severitySounds: { ...DEFAULT_ALERT_DELIVERY_SETTINGS.severitySounds, ...parsed.severitySounds },
+                quietHours: { ...DEFAULT_ALERT_DELIVERY_SETTINGS.quietHours, ...parsed.quietHours },
+            };
+        } catch (error) {
+            console.error("Failed to parse alert delivery settings from localStorage", error);
+            return DEFAULT_ALERT_DELIVERY_SETTINGS;
+        }
+    });
+    // Read by addNotification, which stays stable across settings changes
+    const alertDeliveryRef = useRef(alertDelivery);
+    const [desktopPermission, setDesktopPermission] = useState<DesktopPermission>(getDesktopPermission);
+    // Critical alerts that keep sounding until dismissed
+    const [unacknowledgedIds, setUnacknowledgedIds] = useState<number[]>([]);
+
+    // Muted and snoozed symbols; their alerts are dropped before they reach any channel
+    const [alertMutes, setAlertMutes] = useState<Record<string, AlertMute>>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-alert-mutes');
+            return pruneExpiredMutes(saved ? JSON.parse(saved) : {});
+        } catch (error) {
+            console.error("Failed to parse alert mutes from localStorage", error);
+            return {};
+        }
+    });
+    // Read by addNotification, which stays stable across mute changes
+    const alertMutesRef = useRef(alertMutes);
+
+    // Saved chart drawings, so alerts on drawn lines keep firing while the chart is closed
+    const [chartDrawings, setChartDrawings] = useState<ChartDrawings[]>(() => loadAllChartDrawings());
+
+    const [webhookTargets, setWebhookTargets] = useState<WebhookTarget[]>(() => {
+        try {
+            const saved = localStorage.getItem('crypto-webhooks');
+            return saved ? JSON.parse(saved) : [];
+        } catch (error) {
+            console.error("Failed to parse webhooks from localStorage", error);
+            return [];
+        }
+    });
     
     // Persistent notifications for the panel
     const [notifications, setNotifications] = useState<Notification[]>(() => {
         try {
             const saved = localStorage.getItem('crypto-notifications');
-            return saved ? JSON.parse(saved) : [];
+            const parsed: Notification[] = saved ? JSON.parse(saved) : [];
+            // Notifications saved before timestamps were recorded carry the time in their id
+            return parsed.map(n => ({ ...n, timestamp: n.timestamp ?? Math.floor(n.id) }));
         } catch (error) {
             console.error("Failed to parse notifications from localStorage", error);
             return [];
@@ -227,6 +503,74 @@ const App: React.FC = () => {
         localStorage.setItem('crypto-favorites', JSON.stringify(favorites));
     }, [favorites]);
 
+    useEffect(() => {
+        localStorage.setItem('crypto-provider', providerId);
+    }, [providerId]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-screener-expression', screenerExpression);
+    }, [screenerExpression]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-saved-screens', JSON.stringify(savedScreens));
+    }, [savedScreens]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-matrix-timeframes', JSON.stringify(matrixTimeframes));
+    }, [matrixTimeframes]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-confluence-settings', JSON.stringify(confluenceSettings));
+    }, [confluenceSettings]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-chart-lookback', JSON.stringify(chartLookback));
+    }, [chartLookback]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-alert-rules', JSON.stringify(alertRules));
+    }, [alertRules]);
+
+    useEffect(() => {
+        alertDeliveryRef.current = alertDelivery;
+        localStorage.setItem('crypto-alert-delivery', JSON.stringify(alertDelivery));
+    }, [alertDelivery]);
+
+    useEffect(() => {
+        alertMutesRef.current = alertMutes;
+        localStorage.setItem('crypto-alert-mutes', JSON.stringify(alertMutes));
+    }, [alertMutes]);
+
+    // Drop each snooze when it ends, so cells lose their muted mark on time
+    useEffect(() => {
+        const nextExpiry = getNextMuteExpiry(alertMutes);
+        if (nextExpiry === null) return;
+        const timer = setTimeout(() => setAlertMutes(prev => pruneExpiredMutes(prev)), Math.max(0, nextExpiry - Date.now()));
+        return () => clearTimeout(timer);
+    }, [alertMutes]);
+
+    // The chart modal saves drawings itself; pick up its changes
+    useEffect(() => subscribeToDrawings(() => setChartDrawings(loadAllChartDrawings())), []);
+
+    useEffect(() => {
+        webhookDispatcher.setTargets(webhookTargets);
+        localStorage.setItem('crypto-webhooks', JSON.stringify(webhookTargets));
+    }, [webhookTargets]);
+
+    useEffect(() => {
+        localStorage.setItem('crypto-indicator-settings', JSON.stringify(indicatorSettings));
+    }, [indicatorSettings]);
+
+    // Load the provider's listed symbols so the asset list can flag pairs it doesn't trade
+    useEffect(() => {
+        if (!isAssetModalOpen || providerSymbols) return;
+        let cancelled = false;
+        provider.fetchSymbols()
+            .then(symbols => { if (!cancelled) setProviderSymbols(symbols); })
+            .catch(error => console.error(`Failed to load symbols from ${provider.label}`, error));
+        return () => { cancelled = true; };
+    }, [isAssetModalOpen, provider, providerSymbols]);
+
     useEffect(() => {
         localStorage.setItem('crypto-alerts-enabled', JSON.stringify(areAlertsEnabled));
     }, [areAlertsEnabled]);
@@ -242,102 +586,473 @@ const App: React.FC = () => {
     const handleThemeToggle = useCallback(() => {
         const newTheme = theme === 'dark' ? 'light' : 'dark';
         setTheme(newTheme);
-        setSettings(newTheme === 'light' ? LIGHT_THEME_SETTINGS : DARK_THEME_SETTINGS);
+        setSettings(prev => ({ ...prev, ...(newTheme === 'light' ? LIGHT_THEME_SETTINGS : DARK_THEME_SETTINGS) }));
     }, [theme]);
     
+    const clearRetries = useCallback(() => {
+        Object.values(retryTimersRef.current).forEach(clearTimeout);
+        retryTimersRef.current = {};
+    }, []);
+
+    const scheduleRetry = useCallback((symbol: string, selectedTimeframe: Timeframe, attempt: number) => {
+        const source = `${provider.id}:${selectedTimeframe}`;
+        clearTimeout(retryTimersRef.current[symbol]);
+        retryTimersRef.current[symbol] = setTimeout(async () => {
+            delete retryTimersRef.current[symbol];
+            try {
+                const previous = klinesRef.current.source === source ? klinesRef.current.bySymbol[symbol] : undefined;
+                const params = indicatorSettingsRef.current;
+                const klines = await fetchKlinesIncremental(provider, symbol, selectedTimeframe, previous, params, undefined, { priority: fetchPriorityRef.current(symbol) });
+                if (klinesRef.current.source !== source) return;
+                klinesRef.current.bySymbol[symbol] = klines;
+                writeCachedKlines(provider.id, selectedTimeframe, { [symbol]: klines });
+                const computed = await indicatorComputer.compute({ [symbol]: klines }, params);
+                if (!computed || klinesRef.current.source !== source) return;
+                setSymbolsData(prev => symbol in prev ? { ...prev, [symbol]: computed[symbol] } : prev);
+            } catch (error) {
+                if (sourceRef.current !== source) return;
+                setSymbolsData(prev => symbol in prev ? { ...prev, [symbol]: toFailedSymbolData(prev[symbol], error) } : prev);
+                if (isRetryableError(error)) {
+                    scheduleRetry(symbol, selectedTimeframe, attempt + 1);
+                }
+            }
+        }, getRetryDelay(attempt));
+    }, [provider]);
+
     const fetchData = useCallback(async (selectedTimeframe: Timeframe) => {
+        const source = `${provider.id}:${selectedTimeframe}`;
+        clearRetries();
+        fetchAbortRef.current?.abort();
+        const controller = new AbortController();
+        fetchAbortRef.current = controller;
         if (userSymbols.length === 0) {
+            klinesRef.current = { source, bySymbol: {} };
             setSymbolsData({});
             setLoading(false);
             return;
         }
-        setLoading(true);
+        // Refreshing the same source keeps the current series on screen. A new source starts from the
+        // cache, so only symbols without cached candles show skeletons.
+        const isRefresh = klinesRef.current.source === source;
+        let baseKlines: Record<string, Kline[]> = isRefresh ? klinesRef.current.bySymbol : {};
+        if (!isRefresh) {
+            setSymbolsData({});
+            setLoading(true);
+            const cached = await readCachedKlines(provider.id, selectedTimeframe, userSymbols);
+            if (sourceRef.current !== source) return;
+            baseKlines = {};
+            Object.entries(cached).forEach(([symbol, { klines }]) => { baseKlines[symbol] = klines; });
+            const computed = await indicatorComputer.compute(baseKlines, indicatorSettings, controller.signal);
+            if (!computed || sourceRef.current !== source) return;
+            const staleCutoff = Date.now() - STALE_AFTER;
+            const hydrated: Record<string, SymbolData> = {};
+            Object.entries(cached).forEach(([symbol, { updatedAt }]) => {
+                hydrated[symbol] = {
+                    ...computed[symbol],
+                    lastUpdated: updatedAt,
+                    ...(updatedAt < staleCutoff ? { status: 'stale', error: 'Cached data' } : {}),
+                };
+            });
+            setSymbolsData(hydrated);
+        }
         try {
-            const promises = userSymbols.map(symbol => fetchRsiForSymbol(symbol, selectedTimeframe));
+            const getPriority = fetchPriorityRef.current;
+            const promises = userSymbols.map(symbol =>
+                fetchKlinesIncremental(provider, symbol, selectedTimeframe, baseKlines[symbol], indicatorSettings, undefined, { priority: getPriority(symbol), signal: controller.signal })
+                    .then((klines): KlinesResult => ({ klines }), (error: unknown): KlinesResult => ({ error }))
+            );
             const results = await Promise.all(promises);
-            const newData: Record<string, SymbolData> = {};
-            results.forEach((data, index) => {
-                newData[userSymbols[index]] = data;
+            // Drop the results if the user switched timeframe or provider while they were in flight, or a newer
+            // fetch replaced this one; its aborted requests would otherwise read as failures
+            if (controller.signal.aborted || sourceRef.current !== source) return;
+
+            const bySymbol: Record<string, Kline[]> = {};
+            const fetched: Record<string, Kline[]> = {};
+            const errors: Record<string, unknown> = {};
+            results.forEach((result, index) => {
+                const symbol = userSymbols[index];
+                if ('klines' in result) {
+                    bySymbol[symbol] = result.klines;
+                    fetched[symbol] = result.klines;
+                } else {
+                    bySymbol[symbol] = baseKlines[symbol] ?? [];
+                    errors[symbol] = result.error;
+                }
             });
-            setSymbolsData(newData);
+            const updates = await indicatorComputer.compute(fetched, indicatorSettings, controller.signal);
+            if (!updates || sourceRef.current !== source) return;
+            klinesRef.current = { source, bySymbol };
+            dirtySymbolsRef.current.clear();
+            setSymbolsData(prev => {
+                const newData: Record<string, SymbolData> = {};
+                userSymbols.forEach(symbol => {
+                    newData[symbol] = updates[symbol] ?? toFailedSymbolData(prev[symbol], errors[symbol]);
+                });
+                return newData;
+            });
+            Object.keys(errors).forEach(symbol => {
+                if (isRetryableError(errors[symbol])) {
+                    scheduleRetry(symbol, selectedTimeframe, 0);
+                }
+            });
+            writeCachedKlines(provider.id, selectedTimeframe, fetched);
         } catch (error) {
             console.error("Failed to fetch all symbol data:", error);
         } finally {
-            setLoading(false);
+            // A superseded fetch leaves the loading state to the one that replaced it
+            if (fetchAbortRef.current === controller) {
+                setLoading(false);
+            }
         }
-    }, [userSymbols]);
+    }, [userSymbols, provider, indicatorSettings, clearRetries, scheduleRetry]);
 
     useEffect(() => {
+        sourceRef.current = `${provider.id}:${timeframe}`;
         fetchData(timeframe);
+    }, [timeframe, provider, fetchData]);
+
+    // Recompute everything from the klines in memory as soon as the indicator parameters change;
+    // the refetch triggered above then tops up the windows if the new lengths need more candles.
+    useEffect(() => {
+        indicatorSettingsRef.current = indicatorSettings;
+        const { source, bySymbol } = klinesRef.current;
+        if (source === null) return;
+        const controller = new AbortController();
+        const withKlines: Record<string, Kline[]> = {};
+        Object.keys(bySymbol).forEach(symbol => {
+            const klines: Kline[] = bySymbol[symbol];
+            if (klines.length > 0) withKlines[symbol] = klines;
+        });
+        indicatorComputer.compute(withKlines, indicatorSettings, controller.signal).then(computed => {
+            if (!computed || klinesRef.current.source !== source) return;
+            setSymbolsData(prev => {
+                const next = { ...prev };
+                Object.keys(prev).forEach(symbol => {
+                    if (computed[symbol]) {
+                        const { status, error, lastUpdated } = prev[symbol];
+                        next[symbol] = { ...computed[symbol], status, error, lastUpdated };
+                    }
+                });
+                return next;
+            });
+        });
+        return () => controller.abort();
+    }, [indicatorSettings]);
+
+    useEffect(() => clearRetries, [clearRetries]);
+
+    useEffect(() => {
+        timeframeDataRef.current = timeframeData;
+    }, [timeframeData]);
+
+    useEffect(() => {
+        drawingAlertDataRef.current = drawingAlertData;
+    }, [drawingAlertData]);
+
+    // Data loaded for another provider or other indicator parameters no longer applies
+    useEffect(() => {
+        setTimeframeData({});
+        setDrawingAlertData({});
+    }, [provider, indicatorSettings]);
+
+    // Timeframes other than the main one that something needs: the matrix and confluence score show
+    // theirs, and alert rules are watched in the background. Joined into a key so that edits which
+    // don't change the set, like renaming a rule, don't restart the monitor.
+    const extraTimeframesKey = useMemo(() => {
+        const visible = new Set<Timeframe>();
+        if (viewMode === 'matrix') matrixTimeframes.forEach(tf => visible.add(tf));
+        if (confluenceSettings.enabled) confluenceSettings.timeframes.forEach(tf => visible.add(tf));
+        const background = new Set<Timeframe>();
+        if (areAlertsEnabled) {
+            alertRules.forEach(rule => {
+                if (rule.enabled) rule.timeframes.forEach(tf => background.add(tf));
+            });
+            chartDrawings.forEach(chart => {
+                if (chart.drawings.some(drawing => drawing.alert?.enabled)) background.add(chart.timeframe);
+            });
+        }
+        const pick = (set: Set<Timeframe>) => TIMEFRAMES.map(tf => tf.value).filter(tf => tf !== timeframe && set.has(tf));
+        return `${pick(visible).join(',')}|${pick(background).filter(tf => !visible.has(tf)).join(',')}`;
+    }, [viewMode, matrixTimeframes, confluenceSettings, areAlertsEnabled, alertRules, chartDrawings, timeframe]);
+
+    useEffect(() => {
+        const [visible, background] = extraTimeframesKey.split('|').map(list => (list ? list.split(',') as Timeframe[] : []));
+        if (visible.length === 0 && background.length === 0) return;
+
+        const monitor = startTimeframeMonitor({
+            timeframes: [...visible, ...background],
+            // Shown timeframes refresh every minute like the main one used to; background ones at their own pace
+            getRefreshInterval: tf => (visible.includes(tf) ? 60000 : getRefreshInterval(tf)),
+            canLoad: () => {
+                const { backoffUntil } = provider.scheduler.getStats();
+                return backoffUntil === null || backoffUntil <= Date.now();
+            },
+            load: async (tf, signal) => {
+                const getPriority = fetchPriorityRef.current;
+                const result = await loadTimeframeData(provider, tf, userSymbols, indicatorSettings, indicatorComputer, {
+                    previous: timeframeDataRef.current[tf],
+                    // Background requests queue behind everything the user is looking at
+                    getPriority: visible.includes(tf) ? getPriority : symbol => BACKGROUND_PRIORITY + getPriority(symbol),
+                    signal,
+                });
+                if (result) setTimeframeData(prev => ({ ...prev, [tf]: result }));
+            },
+        });
+        return monitor.stop;
+    }, [extraTimeframesKey, provider, userSymbols, indicatorSettings]);
+
+    // Charts with enabled drawing alerts whose symbol isn't in the list, as `symbol:timeframe`. Joined into a
+    // key for the same reason as `extraTimeframesKey`.
+    const unlistedDrawingAlertsKey = useMemo(() => {
+        if (!areAlertsEnabled) return '';
+        const listed = new Set(userSymbols);
+        return chartDrawings
+            .filter(chart => !listed.has(chart.symbol) && chart.drawings.some(drawing => drawing.alert?.enabled))
+            .map(chart => `${chart.symbol}:${chart.timeframe}`)
+            .sort()
+            .join(',');
+    }, [areAlertsEnabled, userSymbols, chartDrawings]);
+
+    // Watches those charts in the background so their alerts fire like the others
+    useEffect(() => {
+        if (!unlistedDrawingAlertsKey) return;
+        const symbolsByTimeframe: Partial<Record<Timeframe, string[]>> = {};
+        unlistedDrawingAlertsKey.split(',').forEach(chart => {
+            const separator = chart.lastIndexOf(':');
+            (symbolsByTimeframe[chart.slice(separator + 1) as Timeframe] ??= []).push(chart.slice(0, separator));
+        });
+
+        const monitor = startTimeframeMonitor({
+            timeframes: Object.keys(symbolsByTimeframe) as Timeframe[],
+            getRefreshInterval,
+            canLoad: () => {
+                const { backoffUntil } = provider.scheduler.getStats();
+                return backoffUntil === null || backoffUntil <= Date.now();
+            },
+            load: async (tf, signal) => {
+                const result = await loadTimeframeData(provider, tf, symbolsByTimeframe[tf] ?? [], indicatorSettings, indicatorComputer, {
+                    previous: drawingAlertDataRef.current[tf],
+                    getPriority: () => BACKGROUND_PRIORITY,
+                    signal,
+                });
+                if (result) setDrawingAlertData(prev => ({ ...prev, [tf]: result }));
+            },
+        });
+        return monitor.stop;
+    }, [unlistedDrawingAlertsKey, provider, indicatorSettings]);
+
+    // Trim the kline cache and alert history once per session, after the first load has settled
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            evictKlineCache();
+            pruneHistory();
+        }, 30000);
+        return () => clearTimeout(timer);
+    }, []);
+
+    // Mark symbols whose data has stopped updating as stale
+    useEffect(() => {
+        const interval = setInterval(() => {
+            const cutoff = Date.now() - STALE_AFTER;
+            setSymbolsData(prev => {
+                let changed = false;
+                const next = { ...prev };
+                Object.keys(prev).forEach(symbol => {
+                    const data = prev[symbol];
+                    if (data.status === 'ok' && data.lastUpdated !== null && data.lastUpdated < cutoff) {
+                        next[symbol] = { ...data, status: 'stale', error: 'No recent updates' };
+                        changed = true;
+                    }
+                });
+                return changed ? next : prev;
+            });
+        }, 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Live kline stream: updates the kline windows in place and recomputes the changed symbols once a second
+    useEffect(() => {
+        if (userSymbols.length === 0) return;
+
+        const source = `${provider.id}:${timeframe}`;
+        // Symbols updated by the stream since they were last written to the cache
+        const unsaved = new Set<string>();
+        const persistUnsaved = () => {
+            if (unsaved.size === 0 || klinesRef.current.source !== source) return;
+            const entries: Record<string, Kline[]> = {};
+            unsaved.forEach(symbol => { entries[symbol] = klinesRef.current.bySymbol[symbol]; });
+            unsaved.clear();
+            writeCachedKlines(provider.id, timeframe, entries);
+        };
+
+        const stream = openKlineStream({
+            spec: provider.stream,
+            symbols: userSymbols,
+            timeframe,
+            onKline: (symbol, kline) => {
+                const store = klinesRef.current;
+                const klines = store.bySymbol[symbol];
+                if (store.source !== source || !klines || klines.length === 0) return;
+                if (mergeKline(klines, kline)) {
+                    dirtySymbolsRef.current.add(symbol);
+                }
+            },
+            onStatusChange: setStreamStatus,
+        });
+
+        const flushController = new AbortController();
+        let isFlushing = false;
+        const flushInterval = setInterval(async () => {
+            const dirty = dirtySymbolsRef.current;
+            // Skip a tick rather than queue up behind a slow batch; the symbols stay dirty until then
+            if (dirty.size === 0 || isFlushing) return;
+            const changed: Record<string, Kline[]> = {};
+            dirty.forEach(symbol => {
+                changed[symbol] = klinesRef.current.bySymbol[symbol];
+                unsaved.add(symbol);
+            });
+            dirty.clear();
+            isFlushing = true;
+            try {
+                const updates = await indicatorComputer.compute(changed, indicatorSettingsRef.current, flushController.signal);
+                if (!updates || klinesRef.current.source !== source) return;
+                setSymbolsData(prev => ({ ...prev, ...updates }));
+            } finally {
+                isFlushing = false;
+            }
+        }, 1000);
+        const persistInterval = setInterval(persistUnsaved, 60000);
+
+        return () => {
+            stream.close();
+            flushController.abort();
+            clearInterval(flushInterval);
+            clearInterval(persistInterval);
+            persistUnsaved();
+            dirtySymbolsRef.current.clear();
+            setStreamStatus('connecting');
+        };
+    }, [userSymbols, timeframe, provider]);
+
+    useEffect(() => {
+        if (streamStatus === 'closed') wasStreamDownRef.current = true;
+    }, [streamStatus]);
+
+    // Fall back to REST polling while the stream is down, and resync once it reconnects. Reconnect attempts
+    // switch the status between 'closed' and 'connecting', so the interval only depends on whether it is open.
+    const isStreamOpen = streamStatus === 'open';
+    useEffect(() => {
+        if (isStreamOpen) {
+            if (wasStreamDownRef.current) {
+                wasStreamDownRef.current = false;
+                fetchData(timeframe);
+            }
+            return;
+        }
+
         const interval = setInterval(() => fetchData(timeframe), 60000);
         return () => clearInterval(interval);
-    }, [timeframe, fetchData]);
+    }, [isStreamOpen, timeframe, fetchData]);
 
-    const addNotification = useCallback((notification: Omit<Notification, 'id' | 'read'>) => {
-        const newNotification = { ...notification, id: Date.now() + Math.random(), read: false };
+    const addNotification = useCallback((notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
+        if (isMuteActive(alertMutesRef.current[notification.symbol])) return;
+        const now = Date.now();
+        const newNotification: Notification = { ...notification, id: now + Math.random(), timestamp: now, read: false };
+        addToHistory(newNotification);
 
         // Add to persistent list for the panel (newest first)
         setNotifications(prev => [newNotification, ...prev].slice(0, 25)); // Limit history to 25
 
         // Add to live toasts for the pop-up (newest first)
         setLiveToasts(prev => [newNotification, ...prev].slice(0, 5)); // Limit on-screen toasts
+
+        // Webhooks feed bots and journals, so they go out during quiet hours too
+        webhookDispatcher.dispatch(newNotification);
+
+        const delivery = alertDeliveryRef.current;
+        const requiresAck = needsAcknowledgement(newNotification, delivery);
+        if (requiresAck) {
+            setUnacknowledgedIds(prev => [...prev, newNotification.id]);
+        }
+        if (isWithinQuietHours(delivery.quietHours)) return;
+        playAlertSound(getAlertSound(newNotification, delivery), delivery.volume);
+        // The toast covers the visible tab; desktop notifications are for when the user is elsewhere
+        if (delivery.desktopEnabled && document.visibilityState !== 'visible') {
+            showDesktopNotification(newNotification, {
+                requireInteraction: requiresAck,
+                onClick: () => setUnacknowledgedIds(prev => prev.filter(id => id !== newNotification.id)),
+            });
+        }
     }, []);
 
     const removeLiveToast = useCallback((id: number) => {
         setLiveToasts(prev => prev.filter(toast => toast.id !== id));
+        setUnacknowledgedIds(prev => prev.filter(pendingId => pendingId !== id));
     }, []);
 
     const markNotificationsAsRead = useCallback(() => {
         setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+        setUnacknowledgedIds([]);
+    }, []);
+
+    // Keep sounding critical alerts until every one has been acknowledged
+    useEffect(() => {
+        if (!alertDelivery.repeatCritical || unacknowledgedIds.length === 0) return;
+        const interval = setInterval(() => {
+            if (isWithinQuietHours(alertDelivery.quietHours)) return;
+            playAlertSound(alertDelivery.severitySounds.critical, alertDelivery.volume);
+        }, alertDelivery.repeatIntervalSeconds * 1000);
+        return () => clearInterval(interval);
+    }, [alertDelivery, unacknowledgedIds.length]);
+
+    const handleDesktopNotificationsToggle = useCallback(async () => {
+        if (alertDelivery.desktopEnabled) {
+            setAlertDelivery(prev => ({ ...prev, desktopEnabled: false }));
+            return;
+        }
+        // Browsers only show the permission prompt in response to a user gesture like this one
+        const permission = getDesktopPermission() === 'default' ? await requestDesktopPermission() : getDesktopPermission();
+        setDesktopPermission(permission);
+        if (permission === 'granted') {
+            setAlertDelivery(prev => ({ ...prev, desktopEnabled: true }));
+        }
+    }, [alertDelivery.desktopEnabled]);
+
+    const handleSnoozeSymbol = useCallback((symbol: string, snoozeTimeframe: Timeframe, option: SnoozeOption) => {
+        setAlertMutes(prev => ({ ...prev, [symbol]: { until: getMuteUntil(option, snoozeTimeframe), mutedAt: Date.now() } }));
+    }, []);
+
+    const handleUnmuteSymbol = useCallback((symbol: string) => {
+        setAlertMutes(prev => {
+            const next = { ...prev };
+            delete next[symbol];
+            return next;
+        });
     }, []);
 
     const clearNotifications = useCallback(() => {
         setNotifications([]);
     }, []);
 
-    // This effect handles sending notifications when data changes
+    // Divergence alerts for the main timeframe; threshold alerts come from the alert rules
     useEffect(() => {
-        const ALLOWED_TIMEFRAMES_FOR_ALERTS: Timeframe[] = ['5m', '15m', '30m', '1h', '2h', '4h', '8h', '1d', '3d', '1w'];
-        
-        if (!areAlertsEnabled || !ALLOWED_TIMEFRAMES_FOR_ALERTS.includes(timeframe) || Object.keys(symbolsData).length === 0) {
+        const DIVERGENCE_ALERT_TIMEFRAMES: Timeframe[] = ['5m', '15m', '30m', '1h', '2h', '4h', '8h', '1d', '3d', '1w'];
+
+        if (!areAlertsEnabled || !DIVERGENCE_ALERT_TIMEFRAMES.includes(timeframe)) {
             return;
         }
 
-        const newAlertStatus = { ...lastAlertedRsiStatus };
-        const overboughtThreshold = 70;
-        const oversoldThreshold = 30;
-        
+        const indicator = indicatorSettings.mode;
         Object.keys(symbolsData).forEach(symbol => {
             const symbolData = symbolsData[symbol];
-            if (!symbolData || symbolData.rsi.length === 0) return;
-
-            const lastRsi = symbolData.rsi[symbolData.rsi.length - 1].value;
             const alertKey = `${symbol}-${timeframe}`;
-            const previousStatus = lastAlertedRsiStatus[alertKey] || 'neutral';
-            let currentStatus: 'overbought' | 'oversold' | 'neutral' = 'neutral';
-            
-            if (lastRsi >= overboughtThreshold) {
-                currentStatus = 'overbought';
-                if (previousStatus !== 'overbought') {
-                    addNotification({ symbol, timeframe, rsi: lastRsi, type: 'overbought' });
-                }
-            } else if (lastRsi <= oversoldThreshold) {
-                currentStatus = 'oversold';
-                if (previousStatus !== 'oversold') {
-                    addNotification({ symbol, timeframe, rsi: lastRsi, type: 'oversold' });
-                }
-            } else {
-                currentStatus = 'neutral';
+            const divergence = getRecentDivergence(symbolData);
+            if (divergence && lastAlertedDivergenceRef.current[alertKey] !== divergence.end.time) {
+                lastAlertedDivergenceRef.current[alertKey] = divergence.end.time;
+                addNotification({ symbol, timeframe, rsi: divergence.end.rsi, indicator, type: 'divergence', divergence: divergence.type });
             }
-            
-            newAlertStatus[alertKey] = currentStatus;
         });
-        
-        if (JSON.stringify(newAlertStatus) !== JSON.stringify(lastAlertedRsiStatus)) {
-            setLastAlertedRsiStatus(newAlertStatus);
-        }
-        
-    }, [symbolsData, areAlertsEnabled, timeframe, lastAlertedRsiStatus, addNotification]);
+    }, [symbolsData, areAlertsEnabled, timeframe, indicatorSettings.mode, addNotification]);
     
     const handleResetSettings = useCallback(() => {
         localStorage.removeItem('crypto-all-symbols');
@@ -346,18 +1061,49 @@ const App: React.FC = () => {
         localStorage.removeItem('crypto-alerts-enabled');
         localStorage.removeItem('crypto-colored-borders-enabled');
         localStorage.removeItem('crypto-notifications');
+        localStorage.removeItem('crypto-provider');
+        localStorage.removeItem('crypto-indicator-settings');
+        localStorage.removeItem('crypto-screener-expression');
+        localStorage.removeItem('crypto-saved-screens');
+        localStorage.removeItem('crypto-matrix-timeframes');
+        localStorage.removeItem('crypto-confluence-settings');
+        localStorage.removeItem('crypto-alert-rules');
+        localStorage.removeItem('crypto-alert-delivery');
+        localStorage.removeItem('crypto-webhooks');
+        localStorage.removeItem('crypto-alert-mutes');
+        localStorage.removeItem('crypto-drawings');
+        localStorage.removeItem('crypto-chart-lookback');
+        clearHistory();
         
         setTheme('dark');
-        setSettings(DARK_THEME_SETTINGS);
+        setSettings({ ...DARK_THEME_SETTINGS, ...DEFAULT_INDICATOR_SETTINGS });
         setAllSymbols(DEFAULT_SYMBOLS);
         setUserSymbols(DEFAULT_SYMBOLS);
         setFavorites([]);
         setAreAlertsEnabled(true);
         setShowColoredBorders(false);
         setNotifications([]);
+        setProviderId(DEFAULT_PROVIDER_ID);
+        setScreenerExpression('');
+        setSavedScreens([]);
+        setMatrixTimeframes(DEFAULT_MATRIX_TIMEFRAMES);
+        setConfluenceSettings(DEFAULT_CONFLUENCE_SETTINGS);
+        setAlertRules(DEFAULT_ALERT_RULES);
+        setAlertDelivery(DEFAULT_ALERT_DELIVERY_SETTINGS);
+        setWebhookTargets([]);
+        setAlertMutes({});
+        setChartDrawings([]);
+        setChartLookback(DEFAULT_CHART_LOOKBACK);
+        setUnacknowledgedIds([]);
+        setSortOrder('default');
         setIsSettingsOpen(false);
     }, []);
 
+    const handleProviderChange = useCallback((id: ProviderId) => {
+        setProviderId(id);
+        setProviderSymbols(null);
+    }, []);
+
     const handleTimeframeChange = useCallback((newTimeframe: Timeframe) => {
         setTimeframe(newTimeframe);
     }, []);
@@ -371,15 +1117,70 @@ const App: React.FC = () => {
 
     const handleSelectSymbol = useCallback((symbol: string) => {
         setActiveSymbol(symbol);
+        setActiveTimeframe(null);
+        setChartFocusTime(null);
     }, []);
 
+    const handleSelectMatrixCell = useCallback((symbol: string, cellTimeframe: Timeframe) => {
+        setActiveSymbol(symbol);
+        setActiveTimeframe(cellTimeframe);
+        setChartFocusTime(null);
+    }, []);
+
+    const handleOpenNotificationChart = useCallback((notification: Notification) => {
+        setActiveSymbol(notification.symbol);
+        setActiveTimeframe(notification.timeframe);
+        setChartFocusTime(notification.timestamp);
+        setIsHistoryModalOpen(false);
+    }, []);
+
+    const handleOpenDrawingChart = useCallback((symbol: string, chartTimeframe: Timeframe) => {
+        setActiveSymbol(symbol);
+        setActiveTimeframe(chartTimeframe);
+        setChartFocusTime(null);
+        setIsAlertRulesModalOpen(false);
+    }, []);
+
+    // Changes a drawing's alert from the alert rules list; without `alert` the drawing is a plain line again
+    const handleDrawingAlertChange = useCallback((symbol: string, chartTimeframe: Timeframe, drawingId: string, alert?: DrawingAlert) => {
+        const drawings = loadDrawings(symbol, chartTimeframe).map(drawing => (drawing.id === drawingId ? { ...drawing, alert } : drawing));
+        saveDrawings(symbol, chartTimeframe, drawings);
+    }, []);
+
+    // Older candles for the detail chart; the chart the user is looking at goes ahead of the background refreshes
+    const handleLoadChartHistory = useCallback((symbol: string, chartTimeframe: Timeframe, before: number, count: number) =>
+        fetchKlinesBefore(provider, symbol, chartTimeframe, before, count, { priority: -1 }), [provider]);
+
+    // The detail chart's history goes through the worker too, every candle of it rather than the grid's window
+    const handleComputeChartHistory = useCallback(async (klines: Kline[], signal: AbortSignal) => {
+        const computed = await indicatorComputer.compute({ history: klines }, indicatorSettings, signal, klines.length);
+        return computed?.history ?? null;
+    }, [indicatorSettings]);
+
     const handleCloseModal = useCallback(() => {
         setActiveSymbol(null);
+        setActiveTimeframe(null);
+        setChartFocusTime(null);
     }, []);
 
     const handleSearchChange = useCallback((term: string) => {
         setSearchTerm(term);
     }, []);
+
+    const handleSaveScreen = useCallback((name: string) => {
+        setSavedScreens(prev => [
+            ...prev.filter(screen => screen.name !== name),
+            { id: `${Date.now()}`, name, expression: screenerExpression.trim() },
+        ]);
+    }, [screenerExpression]);
+
+    const handleSelectScreen = useCallback((screen: SavedScreen) => {
+        setScreenerExpression(screen.expression);
+    }, []);
+
+    const handleDeleteScreen = useCallback((id: string) => {
+        setSavedScreens(prev => prev.filter(screen => screen.id !== id));
+    }, []);
     
     const toggleFavorite = useCallback((symbol: string) => {
         setFavorites(prev =>
@@ -411,12 +1212,101 @@ const App: React.FC = () => {
                 return 'rsi-asc';
             } else if (currentOrder === 'rsi-asc') {
                 return 'rsi-desc';
+            } else if (currentOrder === 'rsi-desc' && confluenceSettings.enabled) {
+                return 'confluence-desc';
+            } else if (currentOrder === 'confluence-desc') {
+                return 'confluence-asc';
             } else {
                 return 'default';
             }
         });
+    }, [confluenceSettings.enabled]);
+
+    const handleConfluenceSettingsChange = useCallback((newSettings: ConfluenceSettings) => {
+        setConfluenceSettings(newSettings);
+        if (!newSettings.enabled) {
+            setSortOrder(prev => (prev === 'confluence-desc' || prev === 'confluence-asc' ? 'default' : prev));
+        }
     }, []);
 
+    // Every loaded timeframe, with the main one served by the live pipeline
+    const dataByTimeframe = useMemo(() => ({ ...timeframeData, [timeframe]: symbolsData }), [timeframeData, timeframe, symbolsData]);
+
+    const confluenceScores = useMemo(() => {
+        if (!confluenceSettings.enabled) return {};
+        return getConfluenceScores(userSymbols, dataByTimeframe, confluenceSettings, indicatorSettings.mode);
+    }, [confluenceSettings, userSymbols, dataByTimeframe, indicatorSettings.mode]);
+
+    useEffect(() => {
+        if (!areAlertsEnabled || !confluenceSettings.enabled) return;
+        const indicator = indicatorSettings.mode;
+
+        Object.keys(confluenceScores).forEach(symbol => {
+            const score = confluenceScores[symbol];
+            const bias = getConfluenceBias(score, confluenceSettings.alertThreshold);
+            const previousBias = lastAlertedConfluenceRef.current[symbol] ?? null;
+            lastAlertedConfluenceRef.current[symbol] = bias;
+            if (!bias || bias === previousBias) return;
+
+            const mainData = symbolsData[symbol];
+            const lastRsi = mainData?.rsi?.[mainData.rsi.length - 1]?.value;
+            if (lastRsi === undefined) return;
+            addNotification({ symbol, timeframe, rsi: lastRsi, indicator, type: 'confluence', score });
+        });
+    }, [confluenceScores, confluenceSettings, areAlertsEnabled, symbolsData, timeframe, indicatorSettings.mode, addNotification]);
+
+    // Values from the other indicator don't compare, so rules start over when the mode changes
+    useEffect(() => {
+        alertRuleEngine.reset();
+        drawingAlertEngine.reset();
+    }, [indicatorSettings.mode]);
+
+    // Evaluated on every loaded timeframe, including the ones watched in the background. The engine keeps
+    // its state per symbol and timeframe, so switching the main timeframe doesn't re-trigger alerts.
+    useEffect(() => {
+        if (!areAlertsEnabled) return;
+        const indicator = indicatorSettings.mode;
+        alertRuleEngine.evaluate(alertRules, dataByTimeframe, { favorites, mode: indicator }).forEach(({ rule, symbol, timeframe: matchTimeframe, value }) => {
+            addNotification({
+                symbol,
+                timeframe: matchTimeframe,
+                rsi: value,
+                indicator,
+                type: 'rule',
+                ruleName: rule.name,
+                ruleCondition: describeAlertCondition(rule, indicator),
+                severity: rule.severity,
+            });
+        });
+    }, [dataByTimeframe, alertRules, favorites, areAlertsEnabled, indicatorSettings.mode, addNotification]);
+
+    // Drawing alerts also see the charts loaded only for them; the main pipelines win where both have a symbol
+    const drawingAlertDataByTimeframe = useMemo(() => {
+        const merged = { ...dataByTimeframe };
+        (Object.keys(drawingAlertData) as Timeframe[]).forEach(tf => {
+            merged[tf] = { ...drawingAlertData[tf], ...dataByTimeframe[tf] };
+        });
+        return merged;
+    }, [dataByTimeframe, drawingAlertData]);
+
+    // Alerts on drawn trendlines, rays and levels, for every chart whose timeframe is loaded
+    useEffect(() => {
+        if (!areAlertsEnabled) return;
+        const indicator = indicatorSettings.mode;
+        drawingAlertEngine.evaluate(chartDrawings, drawingAlertDataByTimeframe).forEach(match => {
+            addNotification({
+                symbol: match.symbol,
+                timeframe: match.timeframe,
+                rsi: match.value,
+                indicator,
+                type: 'rule',
+                ruleName: getDrawingAlertName(match.drawing),
+                ruleCondition: describeDrawingAlertMatch(match, indicator),
+                severity: 'warning',
+            });
+        });
+    }, [drawingAlertDataByTimeframe, chartDrawings, areAlertsEnabled, indicatorSettings.mode, addNotification]);
+
     const displayedSymbols = useMemo(() => {
         let symbols = userSymbols
             .filter(symbol => symbol.toLowerCase().includes(searchTerm.toLowerCase()));
@@ -425,7 +1315,21 @@ const App: React.FC = () => {
             symbols = symbols.filter(s => favorites.includes(s));
         }
 
-        if (sortOrder !== 'default' && Object.keys(symbolsData).length > 0) {
+        const { predicate } = screener;
+        if (predicate) {
+            symbols = symbols.filter(symbol => predicate({ symbol, data: symbolsData[symbol] }));
+        }
+
+        if (sortOrder === 'confluence-desc' || sortOrder === 'confluence-asc') {
+            // Unscored symbols go last either way
+            const missing = sortOrder === 'confluence-desc' ? -Infinity : Infinity;
+            symbols.sort((a, b) => {
+                const scoreA = confluenceScores[a] ?? missing;
+                const scoreB = confluenceScores[b] ?? missing;
+                if (scoreA === scoreB) return 0;
+                return sortOrder === 'confluence-desc' ? scoreB - scoreA : scoreA - scoreB;
+            });
+        } else if (sortOrder !== 'default' && Object.keys(symbolsData).length > 0) {
             symbols.sort((a, b) => {
                 const dataA = symbolsData[a];
                 const dataB = symbolsData[b];
@@ -436,27 +1340,70 @@ const App: React.FC = () => {
         }
         
         return symbols;
-    }, [searchTerm, showFavoritesOnly, favorites, sortOrder, symbolsData, userSymbols]);
+    }, [searchTerm, showFavoritesOnly, favorites, screener, sortOrder, symbolsData, confluenceScores, userSymbols]);
+
+    // Favorites first, then the cells on screen in display order, then everything else
+    useEffect(() => {
+        const favoriteSet = new Set(favorites);
+        const displayedIndex = new Map<string, number>(displayedSymbols.map((symbol, index) => [symbol, index]));
+        const tierSize = userSymbols.length + 1;
+        fetchPriorityRef.current = (symbol: string) => {
+            const index = displayedIndex.get(symbol) ?? tierSize - 1;
+            const tier = favoriteSet.has(symbol) ? 0 : displayedIndex.has(symbol) ? 1 : 2;
+            return tier * tierSize + index;
+        };
+    }, [favorites, displayedSymbols, userSymbols.length]);
     
+    const modalTimeframe = activeTimeframe ?? timeframe;
+    const fallbackKey = activeSymbol ? `${activeSymbol}:${modalTimeframe}` : null;
+    const loadedModalData = activeSymbol ? dataByTimeframe[modalTimeframe]?.[activeSymbol] : undefined;
+    const modalData = loadedModalData ?? (chartFallback && chartFallback.key === fallbackKey ? chartFallback.data : undefined);
+    const needsFallback = fallbackKey !== null && !loadedModalData;
+
+    // Load a chart on demand when its symbol or timeframe isn't part of any running pipeline
+    useEffect(() => {
+        if (!needsFallback || !fallbackKey || !activeSymbol) return;
+        const controller = new AbortController();
+        loadTimeframeData(provider, modalTimeframe, [activeSymbol], indicatorSettings, indicatorComputer, { signal: controller.signal })
+            .then(result => {
+                const data = result?.[activeSymbol];
+                if (data) setChartFallback({ key: fallbackKey, data });
+            })
+            .catch(error => console.error(`Failed to load ${fallbackKey}`, error));
+        return () => controller.abort();
+    }, [needsFallback, fallbackKey, activeSymbol, modalTimeframe, provider, indicatorSettings]);
+
     if (isInitializing) {
         return <SplashScreen />;
     }
 
+    const indicatorLabel = getIndicatorLabel(indicatorSettings.mode);
     const getSortButtonContent = () => {
         switch (sortOrder) {
             case 'rsi-asc':
-                return <>RSI <i className="fa-solid fa-arrow-up text-xs"></i></>;
+                return <>{indicatorLabel} <i className="fa-solid fa-arrow-up text-xs"></i></>;
             case 'rsi-desc':
-                return <>RSI <i className="fa-solid fa-arrow-down text-xs"></i></>;
+                return <>{indicatorLabel} <i className="fa-solid fa-arrow-down text-xs"></i></>;
+            case 'confluence-asc':
+                return <>Confluence <i className="fa-solid fa-arrow-up text-xs"></i></>;
+            case 'confluence-desc':
+                return <>Confluence <i className="fa-solid fa-arrow-down text-xs"></i></>;
             default:
-                return <>Sort by RSI</>;
+                return <>Sort by {indicatorLabel}</>;
         }
     };
     const isSortActive = sortOrder !== 'default';
 
     return (
         <div className="min-h-screen bg-light-bg dark:bg-dark-bg text-dark-text dark:text-light-text font-sans flex flex-col">
-            <ToastContainer toasts={liveToasts} onRemove={removeLiveToast} />
+            <ToastContainer
+                toasts={liveToasts}
+                onRemove={removeLiveToast}
+                persistentIds={unacknowledgedIds}
+                mutes={alertMutes}
+                onSnooze={handleSnoozeSymbol}
+                onUnmute={handleUnmuteSymbol}
+            />
             <div className="container mx-auto p-4 flex-grow">
                 <CryptoHeader
                     theme={theme}
@@ -470,10 +1417,27 @@ const App: React.FC = () => {
                     notifications={notifications}
                     onClearNotifications={clearNotifications}
                     onMarkNotificationsRead={markNotificationsAsRead}
+                    onOpenNotificationHistory={() => setIsHistoryModalOpen(true)}
+                    alertMutes={alertMutes}
+                    onSnoozeSymbol={handleSnoozeSymbol}
+                    onUnmuteSymbol={handleUnmuteSymbol}
+                    savedScreens={savedScreens}
+                    screenerExpression={screenerExpression}
+                    onSelectScreen={handleSelectScreen}
+                    onDeleteScreen={handleDeleteScreen}
                 />
                 <main className="pt-40 md:pt-24">
+                    <FilterBar
+                        expression={screenerExpression}
+                        onExpressionChange={setScreenerExpression}
+                        error={screener.error}
+                        matchCount={displayedSymbols.length}
+                        totalCount={userSymbols.length}
+                        onSaveScreen={handleSaveScreen}
+                    />
                      {/* Filters and Sorting */}
                     <div className="flex flex-wrap justify-end items-center gap-4 mb-4">
+                        <RequestStatus scheduler={provider.scheduler} streamStatus={streamStatus} />
                         <div className="flex items-center gap-1 bg-light-card dark:bg-dark-card p-1 rounded-lg border border-light-border dark:border-dark-border">
                             <button onClick={() => setViewMode('chart')} className={`px-3 py-2 text-sm rounded-md transition ${viewMode === 'chart' ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg' : 'text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border'}`} aria-label="Chart View" title="Chart View">
                                 <i className="fa-solid fa-chart-line"></i>
@@ -481,6 +1445,9 @@ const App: React.FC = () => {
                             <button onClick={() => setViewMode('heatmap')} className={`px-3 py-2 text-sm rounded-md transition ${viewMode === 'heatmap' ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg' : 'text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border'}`} aria-label="Heatmap View" title="Heatmap View">
                                 <i className="fa-solid fa-table-cells"></i>
                             </button>
+                            <button onClick={() => setViewMode('matrix')} className={`px-3 py-2 text-sm rounded-md transition ${viewMode === 'matrix' ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg' : 'text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border'}`} aria-label="Matrix View" title="Matrix View">
+                                <i className="fa-solid fa-border-all"></i>
+                            </button>
                         </div>
                         <button
                             onClick={handleShowFavoritesToggle}
@@ -502,7 +1469,7 @@ const App: React.FC = () => {
                                 ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg border-transparent' 
                                 : 'bg-light-card dark:bg-dark-card text-medium-text-light dark:text-medium-text border-light-border dark:border-dark-border hover:bg-light-border dark:hover:bg-dark-border'
                             }`}
-                            aria-label="Cycle RSI sort order"
+                            aria-label={`Cycle ${indicatorLabel} sort order`}
                         >
                             {getSortButtonContent()}
                         </button>
@@ -517,8 +1484,14 @@ const App: React.FC = () => {
                             favorites={favorites}
                             onToggleFavorite={toggleFavorite}
                             showColoredBorders={showColoredBorders}
+                            confluenceScores={confluenceScores}
+                            confluenceThreshold={confluenceSettings.alertThreshold}
+                            timeframe={timeframe}
+                            mutes={alertMutes}
+                            onSnooze={handleSnoozeSymbol}
+                            onUnmute={handleUnmuteSymbol}
                         />
-                    ) : (
+                    ) : viewMode === 'heatmap' ? (
                         <Heatmap
                             loading={loading}
                             symbols={displayedSymbols}
@@ -526,17 +1499,38 @@ const App: React.FC = () => {
                             onSelectSymbol={handleSelectSymbol}
                             favorites={favorites}
                             onToggleFavorite={toggleFavorite}
+                            indicatorMode={indicatorSettings.mode}
+                            confluenceScores={confluenceScores}
+                            confluenceThreshold={confluenceSettings.alertThreshold}
+                            timeframe={timeframe}
+                            mutes={alertMutes}
+                            onSnooze={handleSnoozeSymbol}
+                            onUnmute={handleUnmuteSymbol}
+                        />
+                    ) : (
+                        <Matrix
+                            symbols={displayedSymbols}
+                            timeframes={matrixTimeframes}
+                            onTimeframesChange={setMatrixTimeframes}
+                            dataByTimeframe={dataByTimeframe}
+                            onSelectCell={handleSelectMatrixCell}
+                            indicatorMode={indicatorSettings.mode}
                         />
                     )}
                 </main>
             </div>
-            {activeSymbol && symbolsData[activeSymbol] && (
+            {activeSymbol && modalData && (
                 <Modal
                     symbol={activeSymbol}
-                    data={symbolsData[activeSymbol]}
+                    data={modalData}
                     onClose={handleCloseModal}
                     settings={settings}
-                    timeframe={timeframe}
+                    timeframe={modalTimeframe}
+                    focusTime={chartFocusTime}
+                    lookback={chartLookback}
+                    onLookbackChange={setChartLookback}
+                    onLoadHistory={handleLoadChartHistory}
+                    onComputeHistory={handleComputeChartHistory}
                 />
             )}
             <SettingsPanel
@@ -544,11 +1538,23 @@ const App: React.FC = () => {
                 onClose={() => setIsSettingsOpen(false)}
                 onOpenAssetModal={() => setIsAssetModalOpen(true)}
                 onOpenThemeModal={() => setIsThemeModalOpen(true)}
+                onOpenIndicatorModal={() => setIsIndicatorModalOpen(true)}
+                onOpenConfluenceModal={() => setIsConfluenceModalOpen(true)}
+                onOpenAlertRulesModal={() => setIsAlertRulesModalOpen(true)}
+                onOpenAlertDeliveryModal={() => setIsAlertDeliveryModalOpen(true)}
+                onOpenWebhooksModal={() => setIsWebhooksModalOpen(true)}
+                onOpenMutesModal={() => setIsMutesModalOpen(true)}
+                mutedCount={Object.keys(alertMutes).length}
+                desktopNotificationsEnabled={alertDelivery.desktopEnabled}
+                desktopPermission={desktopPermission}
+                onDesktopNotificationsToggle={handleDesktopNotificationsToggle}
                 areAlertsEnabled={areAlertsEnabled}
                 onAlertsToggle={handleAlertsToggle}
                 onReset={handleResetSettings}
                 showColoredBorders={showColoredBorders}
                 onColoredBordersToggle={handleColoredBordersToggle}
+                providerId={providerId}
+                onProviderChange={handleProviderChange}
             />
             <AssetListModal
                 isOpen={isAssetModalOpen}
@@ -556,6 +1562,8 @@ const App: React.FC = () => {
                 onSave={handleSaveAssetList}
                 allSymbols={allSymbols}
                 currentSymbols={userSymbols}
+                listedSymbols={providerSymbols}
+                providerLabel={provider.label}
             />
             <ThemeModal 
                 isOpen={isThemeModalOpen}
@@ -563,6 +1571,57 @@ const App: React.FC = () => {
                 settings={settings}
                 onSettingsChange={setSettings}
             />
+            <IndicatorModal
+                isOpen={isIndicatorModalOpen}
+                onClose={() => setIsIndicatorModalOpen(false)}
+                settings={settings}
+                onSettingsChange={setSettings}
+            />
+            <ConfluenceModal
+                isOpen={isConfluenceModalOpen}
+                onClose={() => setIsConfluenceModalOpen(false)}
+                settings={confluenceSettings}
+                onSettingsChange={handleConfluenceSettingsChange}
+            />
+            <AlertRulesModal
+                isOpen={isAlertRulesModalOpen}
+                onClose={() => setIsAlertRulesModalOpen(false)}
+                rules={alertRules}
+                onRulesChange={setAlertRules}
+                indicatorMode={indicatorSettings.mode}
+                allSymbols={allSymbols}
+                chartDrawings={chartDrawings}
+                onDrawingAlertChange={handleDrawingAlertChange}
+                onOpenChart={handleOpenDrawingChart}
+            />
+            <AlertDeliveryModal
+                isOpen={isAlertDeliveryModalOpen}
+                onClose={() => setIsAlertDeliveryModalOpen(false)}
+                settings={alertDelivery}
+                onSettingsChange={setAlertDelivery}
+            />
+            <WebhooksModal
+                isOpen={isWebhooksModalOpen}
+                onClose={() => setIsWebhooksModalOpen(false)}
+                targets={webhookTargets}
+                onTargetsChange={setWebhookTargets}
+                dispatcher={webhookDispatcher}
+            />
+            <AlertMutesModal
+                isOpen={isMutesModalOpen}
+                onClose={() => setIsMutesModalOpen(false)}
+                mutes={alertMutes}
+                onUnmute={handleUnmuteSymbol}
+                onUnmuteAll={() => setAlertMutes({})}
+            />
+            <NotificationHistoryModal
+                isOpen={isHistoryModalOpen}
+                onClose={() => setIsHistoryModalOpen(false)}
+                latestNotificationId={notifications[0]?.id ?? null}
+                ruleNames={alertRules.map(rule => rule.name)}
+                allSymbols={allSymbols}
+                onOpenChart={handleOpenNotificationChart}
+            />
             <Footer />
         </div>
     );
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import type { AlertDeliverySettings, AlertSound } from '../types';
+import { ALERT_SOUNDS, ALERT_SEVERITIES, DEFAULT_ALERT_DELIVERY_SETTINGS } from '../constants';
+import { playAlertSound } from '../services/alertSounds';
+
+interface AlertDeliveryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: AlertDeliverySettings;
+    onSettingsChange: (settings: AlertDeliverySettings) => void;
+}
+
+const TYPE_LABELS: { value: keyof AlertDeliverySettings['typeSounds']; label: string }[] = [
+    { value: 'overbought', label: 'Overbought' },
+    { value: 'oversold', label: 'Oversold' },
+    { value: 'divergence', label: 'Divergence' },
+    { value: 'confluence', label: 'Confluence' },
+];
+
+const MIN_REPEAT_SECONDS = 5;
+const MAX_REPEAT_SECONDS = 600;
+
+const clampRepeat = (value: number) => Math.min(MAX_REPEAT_SECONDS, Math.max(MIN_REPEAT_SECONDS, Math.round(value) || DEFAULT_ALERT_DELIVERY_SETTINGS.repeatIntervalSeconds));
+
+const selectClassName = 'h-9 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 px-2 text-sm text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+const inputClassName = 'h-9 px-2 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-sm text-dark-text dark:text-light-text font-mono outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary disabled:opacity-40';
+
+const AlertDeliveryModal: React.FC<AlertDeliveryModalProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+    const [draft, setDraft] = useState<AlertDeliverySettings>(DEFAULT_ALERT_DELIVERY_SETTINGS);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(settings);
+        }
+    }, [isOpen, settings]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleApply = () => {
+        onSettingsChange({
+            ...draft,
+            volume: Math.min(1, Math.max(0, draft.volume)),
+            repeatIntervalSeconds: clampRepeat(draft.repeatIntervalSeconds),
+        });
+        onClose();
+    };
+
+    const updateQuietHours = (changes: Partial<AlertDeliverySettings['quietHours']>) => {
+        setDraft(prev => ({ ...prev, quietHours: { ...prev.quietHours, ...changes } }));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">Sounds & Quiet Hours</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close sound settings">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    <section className="space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                            <label htmlFor="alert-volume" className="font-semibold text-dark-text dark:text-light-text">Volume</label>
+                            <input
+                                id="alert-volume"
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={draft.volume}
+                                onChange={(e) => setDraft(prev => ({ ...prev, volume: Number(e.target.value) }))}
+                                className="w-40 accent-primary-light dark:accent-primary"
+                            />
+                        </div>
+                        <h3 className="text-sm font-semibold uppercase tracking-wider text-medium-text-light dark:text-medium-text">Alert types</h3>
+                        {TYPE_LABELS.map(type => (
+                            <SoundSelect
+                                key={type.value}
+                                label={type.label}
+                                value={draft.typeSounds[type.value]}
+                                volume={draft.volume}
+                                onChange={(sound) => setDraft(prev => ({ ...prev, typeSounds: { ...prev.typeSounds, [type.value]: sound } }))}
+                            />
+                        ))}
+                        <h3 className="text-sm font-semibold uppercase tracking-wider text-medium-text-light dark:text-medium-text">Rule severities</h3>
+                        {ALERT_SEVERITIES.map(severity => (
+                            <SoundSelect
+                                key={severity.value}
+                                label={severity.label}
+                                value={draft.severitySounds[severity.value]}
+                                volume={draft.volume}
+                                onChange={(sound) => setDraft(prev => ({ ...prev, severitySounds: { ...prev.severitySounds, [severity.value]: sound } }))}
+                            />
+                        ))}
+                    </section>
+
+                    <section className="space-y-3">
+                        <label className="flex items-center justify-between gap-4 cursor-pointer">
+                            <span className="font-semibold text-dark-text dark:text-light-text">
+                                Quiet Hours
+                                <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">No sounds or desktop notifications; alerts still land in the panel.</span>
+                            </span>
+                            <input
+                                type="checkbox"
+                                checked={draft.quietHours.enabled}
+                                onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+                                className="w-5 h-5 accent-primary-light dark:accent-primary"
+                            />
+                        </label>
+                        <div className="flex items-center justify-end gap-2 text-sm text-medium-text-light dark:text-medium-text">
+                            <input
+                                type="time"
+                                value={draft.quietHours.start}
+                                disabled={!draft.quietHours.enabled}
+                                onChange={(e) => updateQuietHours({ start: e.target.value })}
+                                className={inputClassName}
+                                aria-label="Quiet hours start"
+                            />
+                            <span>to</span>
+                            <input
+                                type="time"
+                                value={draft.quietHours.end}
+                                disabled={!draft.quietHours.enabled}
+                                onChange={(e) => updateQuietHours({ end: e.target.value })}
+                                className={inputClassName}
+                                aria-label="Quiet hours end"
+                            />
+                        </div>
+                    </section>
+
+                    <section className="space-y-3">
+                        <label className="flex items-center justify-between gap-4 cursor-pointer">
+                            <span className="font-semibold text-dark-text dark:text-light-text">
+                                Repeat Critical Alerts
+                                <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">Until the toast is dismissed or the notification panel is opened.</span>
+                            </span>
+                            <input
+                                type="checkbox"
+                                checked={draft.repeatCritical}
+                                onChange={(e) => setDraft(prev => ({ ...prev, repeatCritical: e.target.checked }))}
+                                className="w-5 h-5 accent-primary-light dark:accent-primary"
+                            />
+                        </label>
+                        <div className="flex items-center justify-between gap-4">
+                            <label htmlFor="repeat-interval" className="text-sm text-dark-text dark:text-light-text">Every (seconds)</label>
+                            <input
+                                id="repeat-interval"
+                                type="number"
+                                min={MIN_REPEAT_SECONDS}
+                                max={MAX_REPEAT_SECONDS}
+                                value={draft.repeatIntervalSeconds}
+                                disabled={!draft.repeatCritical}
+                                onChange={(e) => setDraft(prev => ({ ...prev, repeatIntervalSeconds: Number(e.target.value) }))}
+                                className={`${inputClassName} w-24`}
+                            />
+                        </div>
+                    </section>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between items-center p-4 border-t border-light-border dark:border-dark-border">
+                    <button
+                        onClick={() => setDraft(prev => ({ ...DEFAULT_ALERT_DELIVERY_SETTINGS, desktopEnabled: prev.desktopEnabled }))}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition"
+                    >
+                        Defaults
+                    </button>
+                    <button onClick={handleApply} className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity">
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface SoundSelectProps {
+    label: string;
+    value: AlertSound;
+    volume: number;
+    onChange: (sound: AlertSound) => void;
+}
+
+const SoundSelect: React.FC<SoundSelectProps> = ({ label, value, volume, onChange }) => (
+    <div className="flex items-center justify-between gap-4">
+        <span className="text-sm text-dark-text dark:text-light-text">{label}</span>
+        <div className="flex items-center gap-2">
+            <select
+                value={value}
+                onChange={(e) => onChange(e.target.value as AlertSound)}
+                className={selectClassName}
+                aria-label={`${label} sound`}
+            >
+                {ALERT_SOUNDS.map(sound => (
+                    <option key={sound.value} value={sound.value}>{sound.label}</option>
+                ))}
+            </select>
+            <button
+                type="button"
+                onClick={() => playAlertSound(value, volume)}
+                disabled={value === 'none'}
+                className="w-9 h-9 rounded-lg text-primary-light dark:text-primary hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-30"
+                aria-label={`Preview ${label} sound`}
+            >
+                <i className="fa-solid fa-play"></i>
+            </button>
+        </div>
+    </div>
+);
+
+export default AlertDeliveryModal;
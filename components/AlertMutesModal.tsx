@@ -0,0 +1,73 @@
+import React from 'react';
+import type { AlertMute } from '../types';
+import { describeMute } from '../services/alertMutes';
+
+interface AlertMutesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    mutes: Record<string, AlertMute>;
+    onUnmute: (symbol: string) => void;
+    onUnmuteAll: () => void;
+}
+
+const AlertMutesModal: React.FC<AlertMutesModalProps> = ({ isOpen, onClose, mutes, onUnmute, onUnmuteAll }) => {
+    if (!isOpen) {
+        return null;
+    }
+
+    // Indefinite mutes first, then snoozes by the time they end
+    const entries = (Object.entries(mutes) as [string, AlertMute][]).sort(([aSymbol, a], [bSymbol, b]) =>
+        (a.until ?? 0) - (b.until ?? 0) || aSymbol.localeCompare(bSymbol));
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">Muted Symbols</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close muted symbols">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Mute list */}
+                <div className="p-4 space-y-2 overflow-y-auto">
+                    {entries.length === 0 && (
+                        <p className="p-2 text-sm text-medium-text-light dark:text-medium-text">
+                            No muted or snoozed symbols. Use the bell on a cell, toast or notification to silence one.
+                        </p>
+                    )}
+                    {entries.map(([symbol, mute]) => (
+                        <div key={symbol} className="flex items-center gap-3 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80">
+                            <i className={`fa-solid ${mute.until === null ? 'fa-bell-slash' : 'fa-clock'} text-amber-500`}></i>
+                            <div className="flex-grow min-w-0">
+                                <p className="font-semibold text-sm text-dark-text dark:text-light-text">{symbol}</p>
+                                <p className="text-xs text-medium-text-light dark:text-medium-text">{describeMute(mute)}</p>
+                            </div>
+                            <button
+                                onClick={() => onUnmute(symbol)}
+                                className="p-2 text-medium-text-light dark:text-medium-text hover:text-red-500 transition-colors"
+                                aria-label={`Remove the mute on ${symbol}`}
+                            >
+                                <i className="fa-solid fa-trash-can text-sm"></i>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end items-center p-4 border-t border-light-border dark:border-dark-border">
+                    <button
+                        onClick={onUnmuteAll}
+                        disabled={entries.length === 0}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                    >
+                        Remove All
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AlertMutesModal;
@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import type { AlertRule, AlertConditionType, AlertRuleScope, AlertSeverity, AlertZone, CrossDirection, DrawingAlert, IndicatorMode, Timeframe } from '../types';
+import { TIMEFRAMES, ALERT_CONDITIONS, ALERT_SCOPES, ALERT_SEVERITIES, ALERT_SEVERITY_COLORS, NEW_ALERT_RULE } from '../constants';
+import { describeAlertCondition } from '../services/alertRules';
+import { describeDrawingAlert, getDrawingAlertName } from '../services/drawingAlerts';
+import type { ChartDrawings } from '../services/drawings';
+
+interface AlertRulesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rules: AlertRule[];
+    onRulesChange: (rules: AlertRule[]) => void;
+    indicatorMode: IndicatorMode;
+    /** Suggestions for the symbol list of a rule scoped to specific symbols. */
+    allSymbols: string[];
+    /** Saved chart drawings; those with an alert are listed below the rules. */
+    chartDrawings: ChartDrawings[];
+    onDrawingAlertChange: (symbol: string, timeframe: Timeframe, drawingId: string, alert?: DrawingAlert) => void;
+    onOpenChart: (symbol: string, timeframe: Timeframe) => void;
+}
+
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+
+const selectClassName = 'h-10 max-w-[60%] rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 px-3 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+const inputClassName = 'h-10 px-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+
+const parseSymbols = (text: string) => [...new Set(text.toUpperCase().split(/[\s,]+/).filter(Boolean))];
+
+const describeScope = (rule: AlertRule) => {
+    if (rule.scope === 'symbols') return rule.symbols.join(', ') || 'No symbols';
+    return ALERT_SCOPES.find(scope => scope.value === rule.scope)?.label ?? rule.scope;
+};
+
+const AlertRulesModal: React.FC<AlertRulesModalProps> = ({ isOpen, onClose, rules, onRulesChange, indicatorMode, allSymbols, chartDrawings, onDrawingAlertChange, onOpenChart }) => {
+    const [draft, setDraft] = useState<AlertRule | null>(null);
+    const [symbolsText, setSymbolsText] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) setDraft(null);
+    }, [isOpen]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleEdit = (rule: AlertRule) => {
+        setDraft(rule);
+        setSymbolsText(rule.symbols.join(', '));
+    };
+
+    const handleAdd = () => {
+        setDraft({ ...NEW_ALERT_RULE, id: `${Date.now()}` });
+        setSymbolsText('');
+    };
+
+    const handleToggleEnabled = (id: string) => {
+        onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+    };
+
+    const handleDelete = (rule: AlertRule) => {
+        if (window.confirm(`Delete the alert rule "${rule.name}"?`)) {
+            onRulesChange(rules.filter(r => r.id !== rule.id));
+        }
+    };
+
+    const handleToggleTimeframe = (timeframe: Timeframe) => {
+        setDraft(prev => {
+            if (!prev) return prev;
+            const next = prev.timeframes.includes(timeframe)
+                ? prev.timeframes.filter(tf => tf !== timeframe)
+                : [...prev.timeframes, timeframe];
+            return { ...prev, timeframes: TIMEFRAMES.map(tf => tf.value).filter(tf => next.includes(tf)) };
+        });
+    };
+
+    const updateDraft = (changes: Partial<AlertRule>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+
+    const drawingAlerts = chartDrawings.flatMap(({ symbol, timeframe, drawings }) =>
+        drawings.filter(drawing => drawing.alert).map(drawing => ({ symbol, timeframe, drawing })));
+
+    const draftSymbols = parseSymbols(symbolsText);
+    const draftError = !draft
+        ? null
+        : draft.name.trim() === ''
+            ? 'Give the rule a name.'
+            : draft.scope === 'symbols' && draftSymbols.length === 0
+                ? 'List at least one symbol.'
+                : null;
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || draftError) return;
+        const saved: AlertRule = {
+            ...draft,
+            name: draft.name.trim(),
+            symbols: draft.scope === 'symbols' ? draftSymbols : [],
+            level: Number.isFinite(draft.level) ? draft.level : NEW_ALERT_RULE.level,
+            cooldownMinutes: Math.min(MAX_COOLDOWN_MINUTES, Math.max(0, Math.round(draft.cooldownMinutes) || 0)),
+        };
+        const exists = rules.some(rule => rule.id === saved.id);
+        onRulesChange(exists ? rules.map(rule => (rule.id === saved.id ? saved : rule)) : [...rules, saved]);
+        setDraft(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">{draft ? (rules.some(rule => rule.id === draft.id) ? 'Edit Rule' : 'New Rule') : 'Alert Rules'}</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close alert rules">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {draft ? (
+                    <form onSubmit={handleSave} className="flex flex-col min-h-0">
+                        {/* Editor */}
+                        <div className="p-6 space-y-4 overflow-y-auto">
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="rule-name" className="font-semibold text-dark-text dark:text-light-text">Name</label>
+                                <input
+                                    id="rule-name"
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => updateDraft({ name: e.target.value })}
+                                    placeholder="e.g. BTC 4h oversold"
+                                    autoFocus
+                                    className={`${inputClassName} w-[60%]`}
+                                />
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="rule-condition" className="font-semibold text-dark-text dark:text-light-text">Condition</label>
+                                <select
+                                    id="rule-condition"
+                                    value={draft.condition}
+                                    onChange={(e) => updateDraft({ condition: e.target.value as AlertConditionType })}
+                                    className={selectClassName}
+                                >
+                                    {ALERT_CONDITIONS.map(condition => (
+                                        <option key={condition.value} value={condition.value}>{condition.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {(draft.condition === 'above' || draft.condition === 'below') && (
+                                <div className="flex items-center justify-between gap-4">
+                                    <label htmlFor="rule-level" className="font-semibold text-dark-text dark:text-light-text">Level</label>
+                                    <input
+                                        id="rule-level"
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={draft.level}
+                                        onChange={(e) => updateDraft({ level: Number(e.target.value) })}
+                                        className={`${inputClassName} w-24 font-mono`}
+                                    />
+                                </div>
+                            )}
+                            {(draft.condition === 'enter-zone' || draft.condition === 'exit-zone') && (
+                                <div className="flex items-center justify-between gap-4">
+                                    <label htmlFor="rule-zone" className="font-semibold text-dark-text dark:text-light-text">Zone</label>
+                                    <select
+                                        id="rule-zone"
+                                        value={draft.zone}
+                                        onChange={(e) => updateDraft({ zone: e.target.value as AlertZone })}
+                                        className={selectClassName}
+                                    >
+                                        <option value="overbought">Overbought</option>
+                                        <option value="oversold">Oversold</option>
+                                    </select>
+                                </div>
+                            )}
+                            {(draft.condition === 'cross-midline' || draft.condition === 'cross-signal') && (
+                                <div className="flex items-center justify-between gap-4">
+                                    <label htmlFor="rule-direction" className="font-semibold text-dark-text dark:text-light-text">Direction</label>
+                                    <select
+                                        id="rule-direction"
+                                        value={draft.direction}
+                                        onChange={(e) => updateDraft({ direction: e.target.value as CrossDirection })}
+                                        className={selectClassName}
+                                    >
+                                        <option value="any">Either way</option>
+                                        <option value="up">Upwards</option>
+                                        <option value="down">Downwards</option>
+                                    </select>
+                                </div>
+                            )}
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="rule-scope" className="font-semibold text-dark-text dark:text-light-text">Symbols</label>
+                                <select
+                                    id="rule-scope"
+                                    value={draft.scope}
+                                    onChange={(e) => updateDraft({ scope: e.target.value as AlertRuleScope })}
+                                    className={selectClassName}
+                                >
+                                    {ALERT_SCOPES.map(scope => (
+                                        <option key={scope.value} value={scope.value}>{scope.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {draft.scope === 'symbols' && (
+                                <>
+                                    <input
+                                        type="text"
+                                        value={symbolsText}
+                                        onChange={(e) => setSymbolsText(e.target.value)}
+                                        placeholder="BTCUSDT, ETHUSDT"
+                                        list="alert-rule-symbols"
+                                        className={`${inputClassName} w-full font-mono text-sm`}
+                                        aria-label="Symbols, separated by commas"
+                                    />
+                                    <datalist id="alert-rule-symbols">
+                                        {allSymbols.map(symbol => <option key={symbol} value={symbol} />)}
+                                    </datalist>
+                                </>
+                            )}
+                            <div>
+                                <p className="font-semibold text-dark-text dark:text-light-text mb-2">
+                                    Timeframes
+                                    <span className="ml-2 text-xs font-normal text-medium-text-light dark:text-medium-text">{draft.timeframes.length === 0 ? 'Any loaded timeframe' : `${draft.timeframes.length} selected`}</span>
+                                </p>
+                                <div className="flex flex-wrap gap-1">
+                                    {TIMEFRAMES.map(tf => {
+                                        const isSelected = draft.timeframes.includes(tf.value);
+                                        return (
+                                            <button
+                                                type="button"
+                                                key={tf.value}
+                                                onClick={() => handleToggleTimeframe(tf.value)}
+                                                className={`px-2.5 py-1 text-sm font-semibold rounded-md border transition ${
+                                                    isSelected
+                                                        ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg border-transparent'
+                                                        : 'bg-light-bg/80 dark:bg-dark-bg/80 text-medium-text-light dark:text-medium-text border-light-border dark:border-dark-border hover:bg-light-border dark:hover:bg-dark-border'
+                                                }`}
+                                                aria-pressed={isSelected}
+                                            >
+                                                {tf.label}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="rule-cooldown" className="font-semibold text-dark-text dark:text-light-text">
+                                    Cooldown
+                                    <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">Minutes before it can fire again for the same chart.</span>
+                                </label>
+                                <input
+                                    id="rule-cooldown"
+                                    type="number"
+                                    min={0}
+                                    max={MAX_COOLDOWN_MINUTES}
+                                    value={draft.cooldownMinutes}
+                                    onChange={(e) => updateDraft({ cooldownMinutes: Number(e.target.value) })}
+                                    className={`${inputClassName} w-24 font-mono`}
+                                />
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="rule-severity" className="font-semibold text-dark-text dark:text-light-text">Severity</label>
+                                <select
+                                    id="rule-severity"
+                                    value={draft.severity}
+                                    onChange={(e) => updateDraft({ severity: e.target.value as AlertSeverity })}
+                                    className={selectClassName}
+                                >
+                                    {ALERT_SEVERITIES.map(severity => (
+                                        <option key={severity.value} value={severity.value}>{severity.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <p className="text-sm text-medium-text-light dark:text-medium-text">
+                                Fires when: <span className="font-semibold">{describeAlertCondition(draft, indicatorMode)}</span>
+                            </p>
+                        </div>
+
+                        {/* Footer */}
+                        <div className="flex justify-between items-center gap-4 p-4 border-t border-light-border dark:border-dark-border">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition"
+                            >
+                                Cancel
+                            </button>
+                            {draftError && <span className="text-xs text-red-500">{draftError}</span>}
+                            <button
+                                type="submit"
+                                disabled={draftError !== null}
+                                className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        {/* Rule list */}
+                        <div className="p-4 space-y-2 overflow-y-auto">
+                            {rules.length === 0 && (
+                                <p className="p-2 text-sm text-medium-text-light dark:text-medium-text">No alert rules. Add one to get notified.</p>
+                            )}
+                            {rules.map(rule => (
+                                <div key={rule.id} className={`flex items-center gap-3 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 ${rule.enabled ? '' : 'opacity-60'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={() => handleToggleEnabled(rule.id)}
+                                        className="w-4 h-4 accent-primary-light dark:accent-primary"
+                                        aria-label={`Enable ${rule.name}`}
+                                    />
+                                    <div className="flex-grow min-w-0">
+                                        <p className="flex items-center gap-2 font-semibold text-sm text-dark-text dark:text-light-text">
+                                            <span className={`w-2 h-2 rounded-full ${ALERT_SEVERITY_COLORS[rule.severity].bg}`} title={rule.severity}></span>
+                                            <span className="truncate">{rule.name}</span>
+                                        </p>
+                                        <p className="text-xs text-medium-text-light dark:text-medium-text truncate">
+                                            {describeAlertCondition(rule, indicatorMode)} · {describeScope(rule)} · {rule.timeframes.length === 0 ? 'any timeframe' : rule.timeframes.join(', ')}
+                                            {rule.cooldownMinutes > 0 && ` · ${rule.cooldownMinutes}m cooldown`}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => handleEdit(rule)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label={`Edit ${rule.name}`}>
+                                        <i className="fa-solid fa-pen text-sm"></i>
+                                    </button>
+                                    <button onClick={() => handleDelete(rule)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-red-500 transition-colors" aria-label={`Delete ${rule.name}`}>
+                                        <i className="fa-solid fa-trash-can text-sm"></i>
+                                    </button>
+                                </div>
+                            ))}
+                            {drawingAlerts.length > 0 && (
+                                <h3 className="pt-2 text-sm font-semibold text-medium-text-light dark:text-medium-text">Drawing Alerts</h3>
+                            )}
+                            {drawingAlerts.map(({ symbol, timeframe, drawing }) => {
+                                const isEnabled = drawing.alert?.enabled ?? false;
+                                const name = `${symbol} (${timeframe}) ${getDrawingAlertName(drawing)}`;
+                                return (
+                                    <div key={`${symbol}:${timeframe}:${drawing.id}`} className={`flex items-center gap-3 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 ${isEnabled ? '' : 'opacity-60'}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={isEnabled}
+                                            onChange={() => onDrawingAlertChange(symbol, timeframe, drawing.id, { enabled: !isEnabled })}
+                                            className="w-4 h-4 accent-primary-light dark:accent-primary"
+                                            aria-label={`Enable ${name}`}
+                                        />
+                                        <div className="flex-grow min-w-0">
+                                            <p className="flex items-center gap-2 font-semibold text-sm text-dark-text dark:text-light-text">
+                                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: drawing.color }}></span>
+                                                <span className="truncate">{name}</span>
+                                            </p>
+                                            <p className="text-xs text-medium-text-light dark:text-medium-text truncate">{describeDrawingAlert(drawing, indicatorMode)}</p>
+                                        </div>
+                                        <button onClick={() => onOpenChart(symbol, timeframe)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label={`Open the chart of ${name}`}>
+                                            <i className="fa-solid fa-chart-line text-sm"></i>
+                                        </button>
+                                        <button onClick={() => onDrawingAlertChange(symbol, timeframe, drawing.id)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-red-500 transition-colors" aria-label={`Remove ${name}`}>
+                                            <i className="fa-solid fa-trash-can text-sm"></i>
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {/* Footer */}
+                        <div className="flex justify-end items-center p-4 border-t border-light-border dark:border-dark-border">
+                            <button onClick={handleAdd} className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity flex items-center gap-2">
+                                <i className="fa-solid fa-plus"></i>
+                                Add Rule
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AlertRulesModal;
@@ -6,9 +6,12 @@ interface AssetListModalProps {
     onSave: (data: { allSymbols: string[], selectedSymbols: string[] }) => void;
     allSymbols: string[];
     currentSymbols: string[];
+    /** Symbols the active data provider trades, or null while they are loading. */
+    listedSymbols: string[] | null;
+    providerLabel: string;
 }
 
-const AssetListModal: React.FC<AssetListModalProps> = ({ isOpen, onClose, onSave, allSymbols, currentSymbols }) => {
+const AssetListModal: React.FC<AssetListModalProps> = ({ isOpen, onClose, onSave, allSymbols, currentSymbols, listedSymbols, providerLabel }) => {
     // Local state for the editable master list
     const [editableSymbols, setEditableSymbols] = useState<string[]>(allSymbols);
     const [selectedSymbols, setSelectedSymbols] = useState(new Set(currentSymbols));
@@ -29,6 +32,8 @@ const AssetListModal: React.FC<AssetListModalProps> = ({ isOpen, onClose, onSave
         return editableSymbols.filter(symbol => symbol.toLowerCase().includes(searchTerm.toLowerCase()));
     }, [editableSymbols, searchTerm]);
 
+    const listedSet = useMemo(() => listedSymbols ? new Set(listedSymbols) : null, [listedSymbols]);
+
     const handleToggleSymbol = (symbol: string) => {
         const newSelection = new Set(selectedSymbols);
         if (newSelection.has(symbol)) {
@@ -135,6 +140,9 @@ const AssetListModal: React.FC<AssetListModalProps> = ({ isOpen, onClose, onSave
                                 className="h-5 w-5 rounded border-gray-300 text-primary-light dark:text-primary bg-light-card dark:bg-dark-card focus:ring-primary-light dark:focus:ring-primary"
                             />
                             <label htmlFor={`symbol-checkbox-${symbol}`} className="ml-3 font-medium text-dark-text dark:text-light-text flex-grow cursor-pointer">{symbol}</label>
+                            {listedSet && !listedSet.has(symbol) && (
+                                <i className="fa-solid fa-triangle-exclamation text-amber-500 text-xs" title={`Not listed on ${providerLabel}`}></i>
+                            )}
                              <button 
                                 onClick={() => handleRemoveSymbol(symbol)} 
                                 className="ml-2 text-medium-text-light dark:text-medium-text hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -0,0 +1,30 @@
+import React, { memo } from 'react';
+import { getConfluenceBias, formatConfluenceScore } from '../services/confluence';
+
+interface ConfluenceBadgeProps {
+    score: number;
+    threshold: number;
+    className?: string;
+}
+
+const ConfluenceBadge: React.FC<ConfluenceBadgeProps> = ({ score, threshold, className = '' }) => {
+    const bias = getConfluenceBias(score, threshold);
+    const colorClasses = bias === 'bullish'
+        ? 'bg-green-500/90 text-white'
+        : bias === 'bearish'
+            ? 'bg-red-500/90 text-white'
+            : 'bg-gray-500/30 text-dark-text dark:text-light-text';
+    const label = formatConfluenceScore(score);
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold leading-none whitespace-nowrap ${colorClasses} ${className}`}
+            title={`Multi-timeframe confluence score ${label}`}
+        >
+            <i className="fa-solid fa-layer-group"></i>
+            {label}
+        </span>
+    );
+};
+
+export default memo(ConfluenceBadge);
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import type { ConfluenceSettings, Timeframe } from '../types';
+import { TIMEFRAMES, DEFAULT_CONFLUENCE_SETTINGS } from '../constants';
+
+interface ConfluenceModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: ConfluenceSettings;
+    onSettingsChange: (settings: ConfluenceSettings) => void;
+}
+
+const MAX_WEIGHT = 10;
+const MIN_THRESHOLD = 10;
+const MAX_THRESHOLD = 100;
+
+const clampWeight = (value: number) => Math.min(MAX_WEIGHT, Math.max(0, value || 0));
+const clampThreshold = (value: number) => Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, Math.round(value) || DEFAULT_CONFLUENCE_SETTINGS.alertThreshold));
+
+const inputClassName = 'w-20 h-9 px-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-dark-text dark:text-light-text font-mono outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary disabled:opacity-40';
+
+const ConfluenceModal: React.FC<ConfluenceModalProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+    // Edits are kept local until applied, since enabling a timeframe fetches it for every symbol
+    const [draft, setDraft] = useState<ConfluenceSettings>(DEFAULT_CONFLUENCE_SETTINGS);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(settings);
+        }
+    }, [isOpen, settings]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleToggleTimeframe = (timeframe: Timeframe) => {
+        setDraft(prev => {
+            const next = prev.timeframes.includes(timeframe)
+                ? prev.timeframes.filter(tf => tf !== timeframe)
+                : [...prev.timeframes, timeframe];
+            return { ...prev, timeframes: TIMEFRAMES.map(tf => tf.value).filter(tf => next.includes(tf)) };
+        });
+    };
+
+    const handleWeightChange = (timeframe: Timeframe, weight: number) => {
+        setDraft(prev => ({ ...prev, weights: { ...prev.weights, [timeframe]: weight } }));
+    };
+
+    const handleApply = () => {
+        const weights: Partial<Record<Timeframe, number>> = {};
+        draft.timeframes.forEach(tf => {
+            weights[tf] = clampWeight(draft.weights[tf] ?? 1);
+        });
+        onSettingsChange({
+            enabled: draft.enabled && draft.timeframes.length > 0,
+            timeframes: draft.timeframes,
+            weights,
+            alertThreshold: clampThreshold(draft.alertThreshold),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">Confluence Score</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close confluence settings">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <label className="flex items-center justify-between gap-4 cursor-pointer">
+                        <span className="font-semibold text-dark-text dark:text-light-text">
+                            Enabled
+                            <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">Fetches every selected timeframe for all symbols.</span>
+                        </span>
+                        <input
+                            type="checkbox"
+                            checked={draft.enabled}
+                            onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+                            className="w-5 h-5 accent-primary-light dark:accent-primary"
+                        />
+                    </label>
+                    <div>
+                        <p className="font-semibold text-dark-text dark:text-light-text mb-2">Timeframes & Weights</p>
+                        <ul className="grid grid-cols-2 gap-2">
+                            {TIMEFRAMES.map(tf => {
+                                const isSelected = draft.timeframes.includes(tf.value);
+                                return (
+                                    <li key={tf.value} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80">
+                                        <label className="flex items-center gap-2 font-mono text-sm text-dark-text dark:text-light-text cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected}
+                                                onChange={() => handleToggleTimeframe(tf.value)}
+                                                className="accent-primary-light dark:accent-primary"
+                                            />
+                                            {tf.label}
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={MAX_WEIGHT}
+                                            step={0.5}
+                                            value={draft.weights[tf.value] ?? 1}
+                                            disabled={!isSelected}
+                                            onChange={(e) => handleWeightChange(tf.value, Number(e.target.value))}
+                                            className={inputClassName}
+                                            aria-label={`${tf.label} weight`}
+                                        />
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="confluence-threshold" className="font-semibold text-dark-text dark:text-light-text">
+                            Alert Threshold
+                            <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">Score (±) that counts as confluence.</span>
+                        </label>
+                        <input
+                            id="confluence-threshold"
+                            type="number"
+                            min={MIN_THRESHOLD}
+                            max={MAX_THRESHOLD}
+                            value={draft.alertThreshold}
+                            onChange={(e) => setDraft(prev => ({ ...prev, alertThreshold: Number(e.target.value) }))}
+                            className={inputClassName}
+                        />
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between items-center p-4 border-t border-light-border dark:border-dark-border">
+                    <button
+                        onClick={() => setDraft(prev => ({ ...DEFAULT_CONFLUENCE_SETTINGS, enabled: prev.enabled }))}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition"
+                    >
+                        Defaults
+                    </button>
+                    <button onClick={handleApply} className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity">
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ConfluenceModal;
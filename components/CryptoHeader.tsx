@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect, memo, useMemo } from 'react';
-import type { Timeframe, Theme, Notification } from '../types';
+import type { Timeframe, Theme, Notification, SavedScreen, AlertMute, SnoozeOption } from '../types';
 import TimeframeDropdown from './TimeframeDropdown';
+import ScreensDropdown from './ScreensDropdown';
 import NotificationPanel from './NotificationPanel';
 
 interface CryptoHeaderProps {
@@ -15,6 +16,14 @@ interface CryptoHeaderProps {
     notifications: Notification[];
     onClearNotifications: () => void;
     onMarkNotificationsRead: () => void;
+    onOpenNotificationHistory: () => void;
+    alertMutes: Record<string, AlertMute>;
+    onSnoozeSymbol: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmuteSymbol: (symbol: string) => void;
+    savedScreens: SavedScreen[];
+    screenerExpression: string;
+    onSelectScreen: (screen: SavedScreen) => void;
+    onDeleteScreen: (id: string) => void;
 }
 
 const CryptoHeader: React.FC<CryptoHeaderProps> = ({
@@ -29,6 +38,14 @@ const CryptoHeader: React.FC<CryptoHeaderProps> = ({
     notifications,
     onClearNotifications,
     onMarkNotificationsRead,
+    onOpenNotificationHistory,
+    alertMutes,
+    onSnoozeSymbol,
+    onUnmuteSymbol,
+    savedScreens,
+    screenerExpression,
+    onSelectScreen,
+    onDeleteScreen,
 }) => {
     const [isSearchOpen, setIsSearchOpen] = useState(false);
     const searchRef = useRef<HTMLDivElement>(null);
@@ -129,6 +146,12 @@ const CryptoHeader: React.FC<CryptoHeaderProps> = ({
                             onTimeframeChange={onTimeframeChange}
                             timeframes={timeframes}
                          />
+                        <ScreensDropdown
+                            screens={savedScreens}
+                            activeExpression={screenerExpression}
+                            onSelectScreen={onSelectScreen}
+                            onDeleteScreen={onDeleteScreen}
+                        />
                         <button
                             onClick={onThemeToggle}
                             className="bg-light-bg dark:bg-dark-bg rounded-lg p-2 w-[42px] h-[42px] flex items-center justify-center border border-light-border dark:border-dark-border shadow-sm hover:bg-light-border dark:hover:bg-dark-border transition"
@@ -168,6 +191,13 @@ const CryptoHeader: React.FC<CryptoHeaderProps> = ({
                                     onClearNotifications();
                                     setIsNotificationPanelOpen(false);
                                 }}
+                                mutes={alertMutes}
+                                onSnooze={onSnoozeSymbol}
+                                onUnmute={onUnmuteSymbol}
+                                onOpenHistory={() => {
+                                    onOpenNotificationHistory();
+                                    setIsNotificationPanelOpen(false);
+                                }}
                             />
                         </div>
 
@@ -0,0 +1,27 @@
+import React, { memo } from 'react';
+import type { Divergence } from '../types';
+import { DIVERGENCE_LABELS } from '../constants';
+import { isBullishDivergence } from '../services/divergence';
+
+interface DivergenceBadgeProps {
+    divergence: Divergence;
+    className?: string;
+}
+
+const DivergenceBadge: React.FC<DivergenceBadgeProps> = ({ divergence, className = '' }) => {
+    const isBullish = isBullishDivergence(divergence.type);
+    const { label, short } = DIVERGENCE_LABELS[divergence.type];
+    const colorClasses = isBullish ? 'bg-green-500/90 text-white' : 'bg-red-500/90 text-white';
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold leading-none whitespace-nowrap ${colorClasses} ${className}`}
+            title={`${label} since ${new Date(divergence.start.time).toUTCString()}`}
+        >
+            <i className={`fa-solid ${isBullish ? 'fa-arrow-trend-up' : 'fa-arrow-trend-down'}`}></i>
+            {short}
+        </span>
+    );
+};
+
+export default memo(DivergenceBadge);
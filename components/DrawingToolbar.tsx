@@ -4,12 +4,28 @@ import type { DrawingTool } from '../types';
 interface DrawingToolbarProps {
     activeTool: DrawingTool;
     onToolChange: (tool: DrawingTool) => void;
+    /** Colour for new drawings, or of the selected drawing. */
     brushColor: string;
     onColorChange: (color: string) => void;
+    /** Width for new drawings, or of the selected drawing. */
+    brushSize: number;
+    onSizeChange: (size: number) => void;
+    hasSelection: boolean;
+    onDeleteSelected: () => void;
+    /** Whether the selected drawing is a line that can alert. */
+    canAlert: boolean;
+    isAlertEnabled: boolean;
+    onToggleAlert: () => void;
     onClear: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
     textColor: string;
 }
 
+const DRAWING_SIZES = [1, 2, 3, 5];
+
 const ToolButton: React.FC<{
     icon: string;
     tool: DrawingTool;
@@ -35,12 +51,16 @@ const ActionButton: React.FC<{
     icon: string;
     onClick: () => void;
     disabled?: boolean;
+    isActive?: boolean;
     label: string;
-}> = ({ icon, onClick, disabled = false, label }) => (
+}> = ({ icon, onClick, disabled = false, isActive = false, label }) => (
      <button
         onClick={onClick}
         disabled={disabled}
-        className="w-9 h-9 flex items-center justify-center rounded-md transition-colors text-lg text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-pressed={isActive}
+        className={`w-9 h-9 flex items-center justify-center rounded-md transition-colors text-lg hover:bg-light-border dark:hover:bg-dark-border disabled:opacity-40 disabled:cursor-not-allowed ${
+            isActive ? 'text-primary-light dark:text-primary' : 'text-medium-text-light dark:text-medium-text'
+        }`}
         aria-label={label}
         title={label}
     >
@@ -63,12 +83,40 @@ const ColorButton: React.FC<{
     />
 );
 
+const SizeButton: React.FC<{
+    size: number;
+    activeSize: number;
+    onClick: (size: number) => void;
+}> = ({ size, activeSize, onClick }) => (
+    <button
+        onClick={() => onClick(size)}
+        className={`w-7 h-7 flex items-center justify-center rounded-md transition-colors ${
+            activeSize === size ? 'bg-primary-light/20 dark:bg-primary/20' : 'hover:bg-light-border dark:hover:bg-dark-border'
+        }`}
+        aria-label={`Line width ${size}`}
+        title={`Line width ${size}`}
+    >
+        <span className="w-4 rounded-full bg-dark-text dark:bg-light-text" style={{ height: size }}></span>
+    </button>
+);
+
 const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
     activeTool,
     onToolChange,
     brushColor,
     onColorChange,
+    brushSize,
+    onSizeChange,
+    hasSelection,
+    onDeleteSelected,
+    canAlert,
+    isAlertEnabled,
+    onToggleAlert,
     onClear,
+    canUndo,
+    canRedo,
+    onUndo,
+    onRedo,
     textColor
 }) => {
     const drawingColors = [textColor, '#A855F7', '#EAB308', '#F97316'];
@@ -77,8 +125,15 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
         <div className="px-4 py-2 border-b border-light-border dark:border-dark-border bg-light-bg/50 dark:bg-dark-bg/50 flex flex-wrap items-center gap-4">
             {/* Tools */}
             <div className="flex items-center gap-1 p-1 rounded-lg bg-light-card dark:bg-dark-card border border-light-border dark:border-dark-border">
+                <ToolButton icon="fa-arrow-pointer" tool="cursor" activeTool={activeTool} onClick={onToolChange} label="Crosshair" />
+                <ToolButton icon="fa-up-down-left-right" tool="select" activeTool={activeTool} onClick={onToolChange} label="Select, Move and Resize" />
                 <ToolButton icon="fa-pencil" tool="brush" activeTool={activeTool} onClick={onToolChange} label="Brush Tool" />
                 <ToolButton icon="fa-arrow-up-right-dots" tool="trendline" activeTool={activeTool} onClick={onToolChange} label="Trendline Tool" />
+                <ToolButton icon="fa-arrow-trend-up" tool="ray" activeTool={activeTool} onClick={onToolChange} label="Ray Tool" />
+                <ToolButton icon="fa-grip-lines" tool="hline" activeTool={activeTool} onClick={onToolChange} label="Horizontal Level Tool" />
+                <ToolButton icon="fa-vector-square" tool="rectangle" activeTool={activeTool} onClick={onToolChange} label="Zone Tool" />
+                <ToolButton icon="fa-font" tool="text" activeTool={activeTool} onClick={onToolChange} label="Text Label Tool" />
+                <ToolButton icon="fa-eraser" tool="eraser" activeTool={activeTool} onClick={onToolChange} label="Eraser" />
             </div>
 
             {/* Properties */}
@@ -93,6 +148,11 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
                         />
                     ))}
                 </div>
+                <div className="flex items-center gap-1">
+                    {DRAWING_SIZES.map(size => (
+                        <SizeButton key={size} size={size} activeSize={brushSize} onClick={onSizeChange} />
+                    ))}
+                </div>
             </div>
 
             {/* Divider */}
@@ -100,6 +160,16 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
 
             {/* Actions */}
             <div className="flex items-center gap-1">
+                <ActionButton icon="fa-rotate-left" onClick={onUndo} disabled={!canUndo} label="Undo (Ctrl+Z)" />
+                <ActionButton icon="fa-rotate-right" onClick={onRedo} disabled={!canRedo} label="Redo (Ctrl+Shift+Z)" />
+                <ActionButton
+                    icon="fa-bell"
+                    onClick={onToggleAlert}
+                    disabled={!canAlert}
+                    isActive={isAlertEnabled}
+                    label={isAlertEnabled ? 'Remove Alert from Line' : 'Alert When the Indicator Crosses the Selected Line'}
+                />
+                <ActionButton icon="fa-delete-left" onClick={onDeleteSelected} disabled={!hasSelection} label="Delete Selected Drawing" />
                 <ActionButton icon="fa-trash-can" onClick={onClear} label="Clear All Drawings" />
             </div>
         </div>
@@ -0,0 +1,95 @@
+import React, { useState, memo } from 'react';
+
+interface FilterBarProps {
+    expression: string;
+    onExpressionChange: (expression: string) => void;
+    /** Parse error for the current expression, or null when it is valid or empty. */
+    error: string | null;
+    matchCount: number;
+    totalCount: number;
+    onSaveScreen: (name: string) => void;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({ expression, onExpressionChange, error, matchCount, totalCount, onSaveScreen }) => {
+    const [isNaming, setIsNaming] = useState(false);
+    const [screenName, setScreenName] = useState('');
+    const hasExpression = expression.trim() !== '';
+    const canSave = hasExpression && !error;
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = screenName.trim();
+        if (!name) return;
+        onSaveScreen(name);
+        setScreenName('');
+        setIsNaming(false);
+    };
+
+    return (
+        <div className="mb-4">
+            <div className={`flex items-center gap-2 px-3 rounded-lg bg-light-card dark:bg-dark-card border ${error ? 'border-red-500' : 'border-light-border dark:border-dark-border'} focus-within:ring-2 focus-within:ring-primary-light dark:focus-within:ring-primary`}>
+                <i className="fa-solid fa-filter text-medium-text-light dark:text-medium-text"></i>
+                <input
+                    type="text"
+                    value={expression}
+                    onChange={(e) => onExpressionChange(e.target.value)}
+                    placeholder='Filter, e.g. rsi < 30 and rsi > sma and volume > 1e6 and symbol ~ "SOL"'
+                    spellCheck={false}
+                    className="flex-grow h-10 bg-transparent font-mono text-sm text-dark-text dark:text-light-text outline-none"
+                    aria-label="Screener expression"
+                    aria-invalid={error !== null}
+                />
+                {hasExpression && !error && (
+                    <span className="text-xs text-medium-text-light dark:text-medium-text whitespace-nowrap">{matchCount} / {totalCount}</span>
+                )}
+                {hasExpression && (
+                    <button
+                        onClick={() => onExpressionChange('')}
+                        className="p-1 text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors"
+                        aria-label="Clear filter"
+                        title="Clear filter"
+                    >
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                )}
+                {isNaming ? (
+                    <form onSubmit={handleSave} className="flex items-center gap-1">
+                        <input
+                            type="text"
+                            value={screenName}
+                            onChange={(e) => setScreenName(e.target.value)}
+                            placeholder="Screen name"
+                            autoFocus
+                            className="w-32 h-8 px-2 rounded-md bg-light-bg/80 dark:bg-dark-bg/80 text-sm text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border"
+                            aria-label="Screen name"
+                        />
+                        <button type="submit" disabled={!screenName.trim()} className="px-2 h-8 text-sm font-semibold rounded-md bg-primary-light dark:bg-primary text-white dark:text-dark-bg disabled:opacity-40">
+                            Save
+                        </button>
+                        <button type="button" onClick={() => setIsNaming(false)} className="px-2 h-8 text-sm text-medium-text-light dark:text-medium-text" aria-label="Cancel saving screen">
+                            <i className="fa-solid fa-xmark"></i>
+                        </button>
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => setIsNaming(true)}
+                        disabled={!canSave}
+                        className="p-1 text-medium-text-light dark:text-medium-text hover:text-primary-light dark:hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        aria-label="Save as screen"
+                        title="Save as screen"
+                    >
+                        <i className="fa-solid fa-floppy-disk"></i>
+                    </button>
+                )}
+            </div>
+            {error && (
+                <p className="mt-1 px-1 text-xs text-red-500" role="alert">
+                    <i className="fa-solid fa-circle-exclamation mr-1"></i>
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default memo(FilterBar);
@@ -2,7 +2,7 @@
 import React, { memo } from 'react';
 import GridCell from './GridCell';
 import GridCellSkeleton from './GridCellSkeleton';
-import type { SymbolData, Settings } from '../types';
+import type { SymbolData, Settings, Timeframe, AlertMute, SnoozeOption } from '../types';
 
 interface GridProps {
     symbols: string[];
@@ -13,9 +13,18 @@ interface GridProps {
     onToggleFavorite: (symbol: string) => void;
     loading: boolean;
     showColoredBorders: boolean;
+    /** Confluence score per symbol, empty while confluence is off. */
+    confluenceScores: Record<string, number>;
+    confluenceThreshold: number;
+    /** Timeframe on screen, whose candle close ends a 'candle' snooze. */
+    timeframe: Timeframe;
+    /** Active mutes and snoozes by symbol. */
+    mutes: Record<string, AlertMute>;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const Grid: React.FC<GridProps> = ({ symbols, symbolsData, onSelectSymbol, settings, favorites, onToggleFavorite, loading, showColoredBorders }) => {
+const Grid: React.FC<GridProps> = ({ symbols, symbolsData, onSelectSymbol, settings, favorites, onToggleFavorite, loading, showColoredBorders, confluenceScores, confluenceThreshold, timeframe, mutes, onSnooze, onUnmute }) => {
     
     return (
         <div
@@ -23,30 +32,36 @@ const Grid: React.FC<GridProps> = ({ symbols, symbolsData, onSelectSymbol, setti
             role="grid"
             aria-label="Cryptocurrency RSI data grid"
         >
-            {loading ? (
-                 symbols.map((symbol, index) => (
-                    <GridCellSkeleton 
-                        key={symbol} 
-                        animationDelay={`${index * 0.03}s`} 
-                    />
-                ))
-            ) : (
-                symbols.map(symbol => {
-                    const data = symbolsData[symbol];
+            {symbols.map((symbol, index) => {
+                const data = symbolsData[symbol];
+                // Cells hydrated from the cache render right away; the rest wait for the fetch
+                if (loading && !data) {
                     return (
-                        <GridCell
-                            key={symbol}
-                            symbol={symbol}
-                            data={data}
-                            onSelect={onSelectSymbol}
-                            settings={settings}
-                            isFavorite={favorites.includes(symbol)}
-                            onToggleFavorite={onToggleFavorite}
-                            showColoredBorders={showColoredBorders}
+                        <GridCellSkeleton 
+                            key={symbol} 
+                            animationDelay={`${index * 0.03}s`} 
                         />
                     );
-                })
-            )}
+                }
+                return (
+                    <GridCell
+                        key={symbol}
+                        symbol={symbol}
+                        data={data}
+                        onSelect={onSelectSymbol}
+                        settings={settings}
+                        isFavorite={favorites.includes(symbol)}
+                        onToggleFavorite={onToggleFavorite}
+                        showColoredBorders={showColoredBorders}
+                        confluenceScore={confluenceScores[symbol]}
+                        confluenceThreshold={confluenceThreshold}
+                        timeframe={timeframe}
+                        mute={mutes[symbol]}
+                        onSnooze={onSnooze}
+                        onUnmute={onUnmute}
+                    />
+                );
+            })}
         </div>
     );
 };
@@ -1,8 +1,12 @@
 
 import React, { useState, memo, useMemo } from 'react';
 import { LineChart, Line, ResponsiveContainer, ReferenceLine, YAxis } from 'recharts';
-import type { SymbolData, Settings } from '../types';
-import { getRsiColorInfo } from '../constants';
+import type { SymbolData, Settings, Timeframe, AlertMute, SnoozeOption } from '../types';
+import { getIndicatorColorInfo, formatTimeAgo, INDICATOR_LEVELS } from '../constants';
+import { getRecentDivergence } from '../services/divergence';
+import DivergenceBadge from './DivergenceBadge';
+import ConfluenceBadge from './ConfluenceBadge';
+import SnoozeMenu from './SnoozeMenu';
 
 interface GridCellProps {
     symbol: string;
@@ -12,27 +16,38 @@ interface GridCellProps {
     isFavorite: boolean;
     onToggleFavorite: (symbol: string) => void;
     showColoredBorders: boolean;
+    confluenceScore?: number;
+    confluenceThreshold: number;
+    timeframe: Timeframe;
+    mute?: AlertMute;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const GridCell: React.FC<GridCellProps> = ({ symbol, data, onSelect, settings, isFavorite, onToggleFavorite, showColoredBorders }) => {
+const GridCell: React.FC<GridCellProps> = ({ symbol, data, onSelect, settings, isFavorite, onToggleFavorite, showColoredBorders, confluenceScore, confluenceThreshold, timeframe, mute, onSnooze, onUnmute }) => {
     const [isHovered, setIsHovered] = useState(false);
     const lastRsi = data?.rsi?.[data.rsi.length - 1]?.value;
+    const divergence = useMemo(() => getRecentDivergence(data), [data]);
 
     const borderColorClass = useMemo(() => {
         if (!showColoredBorders || lastRsi === undefined || lastRsi === null) {
             return 'border-light-border dark:border-dark-border';
         }
-        const { bgColor } = getRsiColorInfo(lastRsi);
+        const { bgColor } = getIndicatorColorInfo(lastRsi, settings.mode);
         return bgColor.split(' ')[0].replace('bg-', 'border-');
-    }, [showColoredBorders, lastRsi]);
+    }, [showColoredBorders, lastRsi, settings.mode]);
 
     const getRsiColor = (rsi: number) => {
-        if (rsi > 70) return 'text-red-400';
-        if (rsi < 30) return 'text-green-400';
+        const levels = INDICATOR_LEVELS[settings.mode];
+        if (rsi > levels.overbought) return 'text-red-400';
+        if (rsi < levels.oversold) return 'text-green-400';
         return 'text-dark-text dark:text-light-text';
     };
 
     const rsiDomain = ['dataMin - 5', 'dataMax + 5'];
+    const status = data?.status;
+    const isStale = status === 'stale';
+    const statusTitle = data?.error ? `${data.error} · updated ${formatTimeAgo(data.lastUpdated)}` : undefined;
 
     const handleSelect = () => {
         onSelect(symbol);
@@ -59,16 +74,44 @@ const GridCell: React.FC<GridCellProps> = ({ symbol, data, onSelect, settings, i
             >
                 <i className={`${isFavorite ? 'fa-solid text-yellow-400' : 'fa-regular'} fa-star`}></i>
             </button>
+            <span className="absolute top-2 right-9 z-10 p-1 text-sm">
+                <SnoozeMenu
+                    symbol={symbol}
+                    timeframe={timeframe}
+                    mute={mute}
+                    onSnooze={onSnooze}
+                    onUnmute={onUnmute}
+                    className="text-medium-text dark:text-medium-text hover:text-amber-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                />
+            </span>
 
             <div className="relative w-full h-full flex flex-col">
-                <div className="flex justify-between items-center px-2 pt-1 text-sm pr-8">
+                <div className="flex justify-between items-center px-2 pt-1 text-sm pr-14">
                     <span className="font-bold text-dark-text dark:text-light-text">{symbol}</span>
-                    <span className={`font-mono font-semibold ${lastRsi ? getRsiColor(lastRsi) : 'text-medium-text-light dark:text-medium-text'}`}>
-                        {lastRsi ? lastRsi.toFixed(2) : 'N/A'}
+                    <span className="flex items-center gap-1.5">
+                        {confluenceScore !== undefined && <ConfluenceBadge score={confluenceScore} threshold={confluenceThreshold} />}
+                        {divergence && <DivergenceBadge divergence={divergence} />}
+                        {isStale && (
+                            <i className="fa-solid fa-clock-rotate-left text-xs text-amber-500" title={statusTitle} aria-label="Stale data"></i>
+                        )}
+                        <span className={`font-mono font-semibold ${lastRsi !== undefined ? getRsiColor(lastRsi) : 'text-medium-text-light dark:text-medium-text'}`}>
+                            {lastRsi !== undefined ? lastRsi.toFixed(2) : 'N/A'}
+                        </span>
                     </span>
                 </div>
-                <div className="flex-grow w-full h-full">
-                    {data && data.rsi.length > 0 ? (
+                <div className={`flex-grow w-full h-full ${isStale ? 'opacity-50' : ''}`}>
+                    {status === 'invalid' ? (
+                        <div className="flex flex-col items-center justify-center h-full gap-1 text-xs text-medium-text-light dark:text-medium-text" title={data.error}>
+                            <i className="fa-solid fa-ban text-base"></i>
+                            Invalid symbol
+                        </div>
+                    ) : status === 'error' ? (
+                        <div className="flex flex-col items-center justify-center h-full gap-1 text-xs text-red-400" title={statusTitle}>
+                            <i className="fa-solid fa-triangle-exclamation text-base"></i>
+                            <span>{data.error ?? 'Failed to load'}</span>
+                            <span className="text-medium-text-light dark:text-medium-text">Retrying…</span>
+                        </div>
+                    ) : data && data.rsi.length > 0 ? (
                         <ResponsiveContainer width="100%" height="100%">
                             <LineChart data={data.rsi} margin={{ top: 10, right: 10, left: 10, bottom: 5 }}>
                                 <defs>
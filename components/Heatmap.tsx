@@ -2,7 +2,7 @@
 import React, { memo } from 'react';
 import HeatmapCell from './HeatmapCell';
 import HeatmapCellSkeleton from './HeatmapCellSkeleton';
-import type { SymbolData } from '../types';
+import type { SymbolData, IndicatorMode, Timeframe, AlertMute, SnoozeOption } from '../types';
 
 interface HeatmapProps {
     symbols: string[];
@@ -11,37 +11,53 @@ interface HeatmapProps {
     favorites: string[];
     onToggleFavorite: (symbol: string) => void;
     loading: boolean;
+    indicatorMode: IndicatorMode;
+    /** Confluence score per symbol, empty while confluence is off. */
+    confluenceScores: Record<string, number>;
+    confluenceThreshold: number;
+    /** Timeframe on screen, whose candle close ends a 'candle' snooze. */
+    timeframe: Timeframe;
+    /** Active mutes and snoozes by symbol. */
+    mutes: Record<string, AlertMute>;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const Heatmap: React.FC<HeatmapProps> = ({ symbols, symbolsData, onSelectSymbol, favorites, onToggleFavorite, loading }) => {
+const Heatmap: React.FC<HeatmapProps> = ({ symbols, symbolsData, onSelectSymbol, favorites, onToggleFavorite, loading, indicatorMode, confluenceScores, confluenceThreshold, timeframe, mutes, onSnooze, onUnmute }) => {
     return (
         <div
             className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-8 gap-2"
             role="grid"
             aria-label="Cryptocurrency RSI heatmap"
         >
-            {loading ? (
-                symbols.map((symbol, index) => (
-                    <HeatmapCellSkeleton 
-                        key={`${symbol}-skel`} 
-                        animationDelay={`${index * 0.02}s`} 
-                    />
-                ))
-            ) : (
-                symbols.map(symbol => {
-                    const data = symbolsData[symbol];
+            {symbols.map((symbol, index) => {
+                const data = symbolsData[symbol];
+                if (loading && !data) {
                     return (
-                        <HeatmapCell
-                            key={symbol}
-                            symbol={symbol}
-                            data={data}
-                            onSelect={onSelectSymbol}
-                            isFavorite={favorites.includes(symbol)}
-                            onToggleFavorite={onToggleFavorite}
+                        <HeatmapCellSkeleton 
+                            key={`${symbol}-skel`} 
+                            animationDelay={`${index * 0.02}s`} 
                         />
                     );
-                })
-            )}
+                }
+                return (
+                    <HeatmapCell
+                        key={symbol}
+                        symbol={symbol}
+                        data={data}
+                        onSelect={onSelectSymbol}
+                        isFavorite={favorites.includes(symbol)}
+                        onToggleFavorite={onToggleFavorite}
+                        indicatorMode={indicatorMode}
+                        confluenceScore={confluenceScores[symbol]}
+                        confluenceThreshold={confluenceThreshold}
+                        timeframe={timeframe}
+                        mute={mutes[symbol]}
+                        onSnooze={onSnooze}
+                        onUnmute={onUnmute}
+                    />
+                );
+            })}
         </div>
     );
 };
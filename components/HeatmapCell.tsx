@@ -1,7 +1,11 @@
 
 import React from 'react';
-import type { SymbolData } from '../types';
-import { getRsiColorInfo } from '../constants';
+import type { SymbolData, IndicatorMode, Timeframe, AlertMute, SnoozeOption } from '../types';
+import { getIndicatorColorInfo, formatTimeAgo } from '../constants';
+import { getRecentDivergence } from '../services/divergence';
+import DivergenceBadge from './DivergenceBadge';
+import ConfluenceBadge from './ConfluenceBadge';
+import SnoozeMenu from './SnoozeMenu';
 
 interface HeatmapCellProps {
     symbol: string;
@@ -9,14 +13,26 @@ interface HeatmapCellProps {
     onSelect: (symbol: string) => void;
     isFavorite: boolean;
     onToggleFavorite: (symbol: string) => void;
+    indicatorMode: IndicatorMode;
+    confluenceScore?: number;
+    confluenceThreshold: number;
+    timeframe: Timeframe;
+    mute?: AlertMute;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const HeatmapCell: React.FC<HeatmapCellProps> = ({ symbol, data, onSelect, isFavorite, onToggleFavorite }) => {
+const HeatmapCell: React.FC<HeatmapCellProps> = ({ symbol, data, onSelect, isFavorite, onToggleFavorite, indicatorMode, confluenceScore, confluenceThreshold, timeframe, mute, onSnooze, onUnmute }) => {
     const lastRsi = data?.rsi?.[data.rsi.length - 1]?.value;
+    const divergence = getRecentDivergence(data);
+    const status = data?.status;
+    const isStale = status === 'stale';
+    const statusTitle = data?.error ? `${data.error} · updated ${formatTimeAgo(data.lastUpdated)}` : undefined;
     
-    const { bgColor, textColor, isExtreme } = getRsiColorInfo(lastRsi);
-    const animationClasses = isExtreme ? 'font-bold animate-pulse-fast' : '';
-    const colorClasses = `${bgColor} ${textColor} ${animationClasses}`;
+    const { bgColor, textColor, isExtreme } = getIndicatorColorInfo(lastRsi, indicatorMode);
+    // Stale cells keep their colour but stop pulsing so they don't read as live extremes
+    const animationClasses = isExtreme && !isStale ? 'font-bold animate-pulse-fast' : '';
+    const colorClasses = `${bgColor} ${textColor} ${animationClasses} ${isStale ? 'opacity-60' : ''}`;
 
     const handleSelect = () => onSelect(symbol);
 
@@ -33,19 +49,42 @@ const HeatmapCell: React.FC<HeatmapCellProps> = ({ symbol, data, onSelect, isFav
         >
             <div className="flex justify-between items-start">
                 <span className="font-bold text-sm tracking-tight">{symbol}</span>
-                <button
-                    onClick={handleToggleFavoriteClick}
-                    className="z-10 text-base transition-colors"
-                    aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
-                >
-                    <i className={`${isFavorite ? 'fa-solid text-yellow-400' : 'fa-regular'} fa-star opacity-70 group-hover:opacity-100 transition-opacity`}></i>
-                </button>
-            </div>
-            <div className="text-right">
-                <span className="font-mono font-semibold text-lg">
-                    {lastRsi ? lastRsi.toFixed(2) : 'N/A'}
+                <span className="flex items-center gap-2">
+                    <SnoozeMenu
+                        symbol={symbol}
+                        timeframe={timeframe}
+                        mute={mute}
+                        onSnooze={onSnooze}
+                        onUnmute={onUnmute}
+                        className="text-sm opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    />
+                    <button
+                        onClick={handleToggleFavoriteClick}
+                        className="z-10 text-base transition-colors"
+                        aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                        <i className={`${isFavorite ? 'fa-solid text-yellow-400' : 'fa-regular'} fa-star opacity-70 group-hover:opacity-100 transition-opacity`}></i>
+                    </button>
                 </span>
             </div>
+            <div className="flex justify-end items-center gap-1.5" title={statusTitle}>
+                {status === 'invalid' ? (
+                    <span className="text-xs font-semibold"><i className="fa-solid fa-ban mr-1"></i>Invalid</span>
+                ) : status === 'error' ? (
+                    <span className="text-xs font-semibold text-red-500"><i className="fa-solid fa-triangle-exclamation mr-1"></i>Error</span>
+                ) : (
+                    <>
+                        <span className="mr-auto flex items-center gap-1">
+                            {confluenceScore !== undefined && <ConfluenceBadge score={confluenceScore} threshold={confluenceThreshold} />}
+                            {divergence && <DivergenceBadge divergence={divergence} />}
+                        </span>
+                        {isStale && <i className="fa-solid fa-clock-rotate-left text-xs" aria-label="Stale data"></i>}
+                        <span className="font-mono font-semibold text-lg">
+                            {lastRsi !== undefined ? lastRsi.toFixed(2) : 'N/A'}
+                        </span>
+                    </>
+                )}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import type { Settings, IndicatorSettings, IndicatorMode, PriceSource, RsiSmoothing, SignalLineType } from '../types';
+import { INDICATOR_MODES, PRICE_SOURCES, RSI_SMOOTHINGS, SIGNAL_LINE_TYPES, DEFAULT_INDICATOR_SETTINGS } from '../constants';
+
+interface IndicatorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+}
+
+const MIN_LENGTH = 2;
+const MAX_LENGTH = 200;
+
+const MIN_SMOOTHING = 1;
+const MIN_MULTIPLIER = 0.5;
+const MAX_MULTIPLIER = 5;
+
+const clampLength = (value: number) => Math.min(MAX_LENGTH, Math.max(MIN_LENGTH, Math.round(value) || MIN_LENGTH));
+const clampSmoothing = (value: number) => Math.min(MAX_LENGTH, Math.max(MIN_SMOOTHING, Math.round(value) || MIN_SMOOTHING));
+const clampMultiplier = (value: number) => Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, value || DEFAULT_INDICATOR_SETTINGS.bbMultiplier));
+
+const selectClassName = 'h-10 max-w-[60%] rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 px-3 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+
+const IndicatorModal: React.FC<IndicatorModalProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+    // Edits are kept local until applied, since every change recomputes and refetches all symbols
+    const [draft, setDraft] = useState<IndicatorSettings>(DEFAULT_INDICATOR_SETTINGS);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft({
+                mode: settings.mode,
+                rsiLength: settings.rsiLength,
+                smaLength: settings.smaLength,
+                priceSource: settings.priceSource,
+                rsiSmoothing: settings.rsiSmoothing,
+                signalType: settings.signalType,
+                bbMultiplier: settings.bbMultiplier,
+                stochLength: settings.stochLength,
+                stochKSmoothing: settings.stochKSmoothing,
+                stochDSmoothing: settings.stochDSmoothing,
+            });
+        }
+    }, [isOpen, settings]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleApply = () => {
+        onSettingsChange({
+            ...settings,
+            mode: draft.mode,
+            rsiLength: clampLength(draft.rsiLength),
+            smaLength: clampLength(draft.smaLength),
+            priceSource: draft.priceSource,
+            rsiSmoothing: draft.rsiSmoothing,
+            signalType: draft.signalType,
+            bbMultiplier: clampMultiplier(draft.bbMultiplier),
+            stochLength: clampLength(draft.stochLength),
+            stochKSmoothing: clampSmoothing(draft.stochKSmoothing),
+            stochDSmoothing: clampSmoothing(draft.stochDSmoothing),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-md flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">Indicator Settings</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close indicator settings">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="indicator-mode-select" className="font-semibold text-dark-text dark:text-light-text">Indicator</label>
+                        <select
+                            id="indicator-mode-select"
+                            value={draft.mode}
+                            onChange={(e) => setDraft(prev => ({ ...prev, mode: e.target.value as IndicatorMode }))}
+                            className={selectClassName}
+                        >
+                            {INDICATOR_MODES.map(mode => (
+                                <option key={mode.value} value={mode.value}>{mode.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <NumberInput
+                        label="RSI Length"
+                        value={draft.rsiLength}
+                        onChange={(value) => setDraft(prev => ({ ...prev, rsiLength: value }))}
+                    />
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="price-source-select" className="font-semibold text-dark-text dark:text-light-text">Source</label>
+                        <select
+                            id="price-source-select"
+                            value={draft.priceSource}
+                            onChange={(e) => setDraft(prev => ({ ...prev, priceSource: e.target.value as PriceSource }))}
+                            className={selectClassName}
+                        >
+                            {PRICE_SOURCES.map(source => (
+                                <option key={source.value} value={source.value}>{source.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="rsi-smoothing-select" className="font-semibold text-dark-text dark:text-light-text">RSI Smoothing</label>
+                        <select
+                            id="rsi-smoothing-select"
+                            value={draft.rsiSmoothing}
+                            onChange={(e) => setDraft(prev => ({ ...prev, rsiSmoothing: e.target.value as RsiSmoothing }))}
+                            className={selectClassName}
+                        >
+                            {RSI_SMOOTHINGS.map(smoothing => (
+                                <option key={smoothing.value} value={smoothing.value}>{smoothing.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {draft.mode === 'stochRsi' ? (
+                        <>
+                            <NumberInput
+                                label="Stochastic Length"
+                                value={draft.stochLength}
+                                onChange={(value) => setDraft(prev => ({ ...prev, stochLength: value }))}
+                            />
+                            <NumberInput
+                                label="%K Smoothing"
+                                value={draft.stochKSmoothing}
+                                min={MIN_SMOOTHING}
+                                onChange={(value) => setDraft(prev => ({ ...prev, stochKSmoothing: value }))}
+                            />
+                            <NumberInput
+                                label="%D Smoothing"
+                                value={draft.stochDSmoothing}
+                                min={MIN_SMOOTHING}
+                                onChange={(value) => setDraft(prev => ({ ...prev, stochDSmoothing: value }))}
+                            />
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="signal-type-select" className="font-semibold text-dark-text dark:text-light-text">Signal Line</label>
+                                <select
+                                    id="signal-type-select"
+                                    value={draft.signalType}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, signalType: e.target.value as SignalLineType }))}
+                                    className={selectClassName}
+                                >
+                                    {SIGNAL_LINE_TYPES.map(type => (
+                                        <option key={type.value} value={type.value}>{type.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <NumberInput
+                                label="Signal Length"
+                                value={draft.smaLength}
+                                onChange={(value) => setDraft(prev => ({ ...prev, smaLength: value }))}
+                            />
+                            {draft.signalType === 'bb' && (
+                                <NumberInput
+                                    label="BB Multiplier"
+                                    value={draft.bbMultiplier}
+                                    min={MIN_MULTIPLIER}
+                                    max={MAX_MULTIPLIER}
+                                    step={0.1}
+                                    onChange={(value) => setDraft(prev => ({ ...prev, bbMultiplier: value }))}
+                                />
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between items-center p-4 border-t border-light-border dark:border-dark-border">
+                    <button
+                        onClick={() => setDraft(DEFAULT_INDICATOR_SETTINGS)}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition"
+                    >
+                        Defaults
+                    </button>
+                    <button onClick={handleApply} className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity">
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface NumberInputProps {
+    label: string;
+    value: number;
+    min?: number;
+    max?: number;
+    step?: number;
+    onChange: (value: number) => void;
+}
+
+const NumberInput: React.FC<NumberInputProps> = ({ label, value, min = MIN_LENGTH, max = MAX_LENGTH, step = 1, onChange }) => (
+    <div className="flex items-center justify-between">
+        <label className="font-semibold text-dark-text dark:text-light-text">{label}</label>
+        <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-24 h-10 px-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-dark-text dark:text-light-text font-mono outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary"
+        />
+    </div>
+);
+
+export default IndicatorModal;
@@ -0,0 +1,155 @@
+import React, { useState, useMemo, memo } from 'react';
+import type { SymbolData, Timeframe, IndicatorMode } from '../types';
+import { TIMEFRAMES, getIndicatorColorInfo, getIndicatorLabel } from '../constants';
+
+interface MatrixProps {
+    symbols: string[];
+    /** Timeframe columns in use, in `TIMEFRAMES` order. */
+    timeframes: Timeframe[];
+    onTimeframesChange: (timeframes: Timeframe[]) => void;
+    dataByTimeframe: Partial<Record<Timeframe, Record<string, SymbolData>>>;
+    onSelectCell: (symbol: string, timeframe: Timeframe) => void;
+    indicatorMode: IndicatorMode;
+}
+
+type ColumnSort = { timeframe: Timeframe; direction: 'desc' | 'asc' } | null;
+
+const getLastValue = (data: SymbolData | undefined) => data?.rsi?.[data.rsi.length - 1]?.value;
+
+const Matrix: React.FC<MatrixProps> = ({ symbols, timeframes, onTimeframesChange, dataByTimeframe, onSelectCell, indicatorMode }) => {
+    const [columnSort, setColumnSort] = useState<ColumnSort>(null);
+
+    const sortedSymbols = useMemo(() => {
+        if (!columnSort || !timeframes.includes(columnSort.timeframe)) return symbols;
+        const column = dataByTimeframe[columnSort.timeframe] ?? {};
+        const missing = columnSort.direction === 'desc' ? -1 : 101;
+        return [...symbols].sort((a, b) => {
+            const valueA = getLastValue(column[a]) ?? missing;
+            const valueB = getLastValue(column[b]) ?? missing;
+            return columnSort.direction === 'desc' ? valueB - valueA : valueA - valueB;
+        });
+    }, [symbols, timeframes, dataByTimeframe, columnSort]);
+
+    // Cycles a column through descending, ascending and unsorted
+    const handleSortColumn = (timeframe: Timeframe) => {
+        setColumnSort(prev => {
+            if (prev?.timeframe !== timeframe) return { timeframe, direction: 'desc' };
+            return prev.direction === 'desc' ? { timeframe, direction: 'asc' } : null;
+        });
+    };
+
+    const handleToggleTimeframe = (timeframe: Timeframe) => {
+        const isActive = timeframes.includes(timeframe);
+        // Keep at least one column
+        if (isActive && timeframes.length === 1) return;
+        const next = isActive ? timeframes.filter(tf => tf !== timeframe) : [...timeframes, timeframe];
+        onTimeframesChange(TIMEFRAMES.map(tf => tf.value).filter(tf => next.includes(tf)));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Matrix timeframes">
+                {TIMEFRAMES.map(tf => {
+                    const isActive = timeframes.includes(tf.value);
+                    return (
+                        <button
+                            key={tf.value}
+                            onClick={() => handleToggleTimeframe(tf.value)}
+                            className={`px-3 py-1 text-sm font-semibold rounded-md border transition ${
+                                isActive
+                                    ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg border-transparent'
+                                    : 'bg-light-card dark:bg-dark-card text-medium-text-light dark:text-medium-text border-light-border dark:border-dark-border hover:bg-light-border dark:hover:bg-dark-border'
+                            }`}
+                            aria-pressed={isActive}
+                        >
+                            {tf.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="overflow-x-auto rounded-xl border border-light-border dark:border-dark-border bg-light-card dark:bg-dark-card">
+                <table className="w-full text-sm" aria-label={`${getIndicatorLabel(indicatorMode)} by symbol and timeframe`}>
+                    <thead>
+                        <tr className="border-b border-light-border dark:border-dark-border">
+                            <th className="sticky left-0 z-10 bg-light-card dark:bg-dark-card px-3 py-2 text-left font-semibold text-medium-text-light dark:text-medium-text">Symbol</th>
+                            {timeframes.map(tf => {
+                                const isSorted = columnSort?.timeframe === tf;
+                                return (
+                                    <th key={tf} className="px-1 py-2 font-semibold">
+                                        <button
+                                            onClick={() => handleSortColumn(tf)}
+                                            className={`w-full flex items-center justify-center gap-1 rounded-md px-2 py-1 transition ${isSorted ? 'text-primary-light dark:text-primary' : 'text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border'}`}
+                                            aria-label={`Sort by ${tf}`}
+                                        >
+                                            {tf}
+                                            {isSorted && <i className={`fa-solid ${columnSort.direction === 'desc' ? 'fa-arrow-down' : 'fa-arrow-up'} text-xs`}></i>}
+                                        </button>
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedSymbols.map(symbol => (
+                            <tr key={symbol} className="border-b border-light-border/50 dark:border-dark-border/50 last:border-b-0">
+                                <th scope="row" className="sticky left-0 z-10 bg-light-card dark:bg-dark-card px-3 py-1 text-left font-bold text-dark-text dark:text-light-text whitespace-nowrap">{symbol}</th>
+                                {timeframes.map(tf => (
+                                    <td key={tf} className="p-1">
+                                        <MatrixCell
+                                            data={dataByTimeframe[tf]?.[symbol]}
+                                            isLoading={!dataByTimeframe[tf]?.[symbol]}
+                                            indicatorMode={indicatorMode}
+                                            onSelect={() => onSelectCell(symbol, tf)}
+                                            label={`${symbol} ${tf}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+interface MatrixCellProps {
+    data: SymbolData | undefined;
+    isLoading: boolean;
+    indicatorMode: IndicatorMode;
+    onSelect: () => void;
+    label: string;
+}
+
+const MatrixCell: React.FC<MatrixCellProps> = ({ data, isLoading, indicatorMode, onSelect, label }) => {
+    if (isLoading) {
+        return <div className="h-9 min-w-[4rem] rounded-md bg-light-border dark:bg-dark-border animate-pulse"></div>;
+    }
+
+    const value = getLastValue(data);
+    if (value === undefined) {
+        const isInvalid = data?.status === 'invalid';
+        return (
+            <div className="h-9 min-w-[4rem] flex items-center justify-center rounded-md bg-gray-200 dark:bg-gray-700 text-xs text-gray-400" title={data?.error}>
+                <i className={`fa-solid ${isInvalid ? 'fa-ban' : 'fa-triangle-exclamation'}`}></i>
+            </div>
+        );
+    }
+
+    const { bgColor, textColor } = getIndicatorColorInfo(value, indicatorMode);
+    const isStale = data?.status === 'stale';
+
+    return (
+        <button
+            onClick={onSelect}
+            className={`h-9 w-full min-w-[4rem] rounded-md font-mono font-semibold transition-transform hover:scale-105 ${bgColor} ${textColor} ${isStale ? 'opacity-60' : ''}`}
+            aria-label={`${label}: ${value.toFixed(2)}`}
+            title={isStale ? data?.error : undefined}
+        >
+            {value.toFixed(1)}
+        </button>
+    );
+};
+
+export default memo(Matrix);
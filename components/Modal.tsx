@@ -1,7 +1,37 @@
 import React, { useRef, useEffect, useMemo, useState, useCallback } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import type { SymbolData, Settings, Timeframe, Drawing, DrawingTool } from '../types';
+import { ComposedChart, LineChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, useXAxisScale, useYAxisScale, useXAxisDomain, useYAxisDomain, usePlotArea, type BarShapeProps, type MouseHandlerDataParam } from 'recharts';
+import type { SymbolData, Candle, Kline, Settings, Timeframe, Drawing, DrawingPoint, DrawingShape, DrawingTool } from '../types';
 import DrawingToolbar from './DrawingToolbar';
+import { getSignalLineLabel, INDICATOR_LEVELS, DIVERGENCE_LABELS, CHART_LOOKBACKS, TIMEFRAME_DURATIONS } from '../constants';
+import { isBullishDivergence } from '../services/divergence';
+import {
+    createChartProjection,
+    loadDrawings,
+    saveDrawings,
+    subscribeToDrawings,
+    findDrawingAt,
+    findHandleAt,
+    getDrawingHandles,
+    getLabelFontSize,
+    getRayEnd,
+    isAlertableDrawing,
+    moveDrawingHandle,
+    translateDrawing,
+    type ChartProjection,
+    type PixelPoint,
+    type PixelRect,
+} from '../services/drawings';
+import {
+    applyDrawingCommand,
+    revertDrawingCommand,
+    pushDrawingCommand,
+    createDeleteCommand,
+    EMPTY_DRAWING_HISTORY,
+    type DrawingCommand,
+    type DrawingHistory,
+} from '../services/drawingHistory';
+import { appendScrolledOutCandles, getHistoryBefore, getMissingHistoryCount } from '../services/chartHistory';
+import { centerViewport, clampViewport, getVisibleRange, panViewport, zoomViewport, type ChartViewport } from '../services/chartViewport';
 
 interface ModalProps {
     symbol: string;
@@ -9,9 +39,209 @@ interface ModalProps {
     onClose: () => void;
     settings: Settings;
     timeframe: Timeframe;
+    /** Epoch ms to mark and centre the chart on, loading older candles as needed, e.g. when opened from an alert. */
+    focusTime?: number | null;
+    /** Candles the chart opens with. */
+    lookback: number;
+    onLookbackChange: (lookback: number) => void;
+    /** Fetches up to `count` candles opening before `before`, oldest first. */
+    onLoadHistory: (symbol: string, timeframe: Timeframe, before: number, count: number) => Promise<Kline[]>;
+    /** Computes the indicator over every candle of `klines`; resolves to null once `signal` is aborted. */
+    onComputeHistory: (klines: Kline[], signal: AbortSignal) => Promise<SymbolData | null>;
 }
 
 const BRUSH_SIZE = 3;
+const CANDLE_UP_COLOR = '#22c55e';
+const CANDLE_DOWN_COLOR = '#ef4444';
+// Both panes reserve the same axis width so their time axes line up
+const PRICE_AXIS_WIDTH = 64;
+const FOCUS_COLOR = '#f59e0b';
+// Trendlines, rays and zones shorter than this, in pixels, are treated as stray clicks
+const MIN_SHAPE_SIZE = 3;
+const TOOL_CURSORS: Partial<Record<DrawingTool, string>> = { eraser: 'cell', text: 'text' };
+// Panning left loads older candles once the view is this close to the oldest loaded one, up to a total of MAX_CHART_CANDLES
+const HISTORY_PRELOAD_CANDLES = 20;
+const MAX_CHART_CANDLES = 5000;
+// Candles in view are multiplied or divided by this per wheel notch
+const ZOOM_STEP = 1.2;
+
+interface CandleShapeProps extends BarShapeProps {
+    highlightTime: number | null;
+    highlightColor: string;
+}
+
+// Draws one candle from a ranged [low, high] bar: the bar spans the wick and the body is interpolated inside it
+const CandleShape: React.FC<CandleShapeProps> = ({ x, y, width, height, payload, highlightTime, highlightColor }: CandleShapeProps) => {
+    if (!payload || width <= 0) return null;
+    const { open, high, low, close, time }: Candle = payload;
+    const top = height < 0 ? y + height : y;
+    const span = Math.abs(height);
+    const range = high - low;
+    const toY = (price: number) => (range === 0 ? top : top + ((high - price) / range) * span);
+    const color = close >= open ? CANDLE_UP_COLOR : CANDLE_DOWN_COLOR;
+    const bodyTop = toY(Math.max(open, close));
+    const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+    const isHighlighted = time === highlightTime;
+    const center = x + width / 2;
+
+    return (
+        <g>
+            <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+            <rect
+                x={x}
+                y={bodyTop}
+                width={width}
+                height={bodyHeight}
+                fill={color}
+                stroke={isHighlighted ? highlightColor : color}
+                strokeWidth={isHighlighted ? 2 : 0}
+            />
+        </g>
+    );
+};
+
+// Rendered inside the RSI chart to hand its scales to the drawing canvas, which covers the same pixels
+const ProjectionReporter: React.FC<{ onChange: (projection: ChartProjection | null) => void }> = ({ onChange }) => {
+    const xScale = useXAxisScale();
+    const yScale = useYAxisScale();
+    const xDomain = useXAxisDomain();
+    const yDomain = useYAxisDomain();
+    const plotArea = usePlotArea();
+
+    const projection = useMemo(() => {
+        if (!xScale || !yScale || !xDomain || !yDomain || !plotArea || xDomain.length < 2) return null;
+        const firstTime = xDomain[0];
+        const lastTime = xDomain[xDomain.length - 1];
+        const [minValue, maxValue] = [Number(yDomain[0]), Number(yDomain[yDomain.length - 1])];
+        const firstX = xScale(firstTime, { position: 'middle' });
+        const lastX = xScale(lastTime, { position: 'middle' });
+        const minY = yScale(minValue);
+        const maxY = yScale(maxValue);
+        if (firstX === undefined || lastX === undefined || minY === undefined || maxY === undefined) return null;
+        return createChartProjection(
+            [{ value: Number(firstTime), pixel: firstX }, { value: Number(lastTime), pixel: lastX }],
+            [{ value: minValue, pixel: minY }, { value: maxValue, pixel: maxY }],
+            { x: plotArea.x, y: plotArea.y, width: plotArea.width, height: plotArea.height },
+        );
+    }, [xScale, yScale, xDomain, yDomain, plotArea]);
+
+    useEffect(() => {
+        onChange(projection);
+    }, [projection, onChange]);
+
+    return null;
+};
+
+// Paints one drawing; the selected one glows in its own colour
+const paintDrawing = (ctx: CanvasRenderingContext2D, drawing: Drawing, projection: ChartProjection, isSelected: boolean) => {
+    const pixels = drawing.points.map(projection.toPixel);
+    const { area } = projection;
+
+    ctx.save();
+    ctx.strokeStyle = drawing.color;
+    ctx.fillStyle = drawing.color;
+    ctx.lineWidth = drawing.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    if (isSelected) {
+        ctx.shadowColor = drawing.color;
+        ctx.shadowBlur = 8;
+    }
+
+    switch (drawing.tool) {
+        case 'hline': {
+            const { y } = pixels[0];
+            ctx.beginPath();
+            ctx.moveTo(area.x, y);
+            ctx.lineTo(area.x + area.width, y);
+            ctx.stroke();
+            ctx.font = '11px sans-serif';
+            ctx.textAlign = 'right';
+            ctx.textBaseline = 'bottom';
+            ctx.fillText(drawing.points[0].value.toFixed(2), area.x + area.width - 4, y - 2);
+            break;
+        }
+        case 'rectangle': {
+            const [a, b = a] = pixels;
+            const x = Math.min(a.x, b.x);
+            const y = Math.min(a.y, b.y);
+            ctx.globalAlpha = 0.15;
+            ctx.fillRect(x, y, Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+            ctx.globalAlpha = 1;
+            ctx.strokeRect(x, y, Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+            break;
+        }
+        case 'text':
+            ctx.font = `${getLabelFontSize(drawing.size)}px sans-serif`;
+            ctx.textBaseline = 'top';
+            ctx.fillText(drawing.text ?? '', pixels[0].x, pixels[0].y);
+            break;
+        default: {
+            ctx.beginPath();
+            pixels.forEach((point, index) => {
+                if (index === 0) {
+                    ctx.moveTo(point.x, point.y);
+                } else {
+                    ctx.lineTo(point.x, point.y);
+                }
+            });
+            if (drawing.tool === 'ray' && pixels.length > 1) {
+                const end = getRayEnd(pixels[0], pixels[1], area);
+                ctx.lineTo(end.x, end.y);
+            } else if (pixels.length === 1) {
+                // A tap with the brush leaves a dot
+                ctx.lineTo(pixels[0].x, pixels[0].y);
+            }
+            ctx.stroke();
+        }
+    }
+    if (drawing.alert && isAlertableDrawing(drawing)) {
+        paintAlertMark(ctx, drawing, pixels, area);
+    }
+    ctx.restore();
+};
+
+// Tags a line that alerts; an alerting trendline also continues dashed to the right edge, as far as the alert watches
+const paintAlertMark = (ctx: CanvasRenderingContext2D, drawing: Drawing, pixels: PixelPoint[], area: PixelRect) => {
+    const isEnabled = drawing.alert?.enabled ?? false;
+    let tag: PixelPoint;
+    if (drawing.tool === 'hline' || pixels.length < 2) {
+        tag = { x: area.x + 4, y: pixels[0].y };
+    } else {
+        const [left, right] = pixels[0].x <= pixels[1].x ? pixels : [pixels[1], pixels[0]];
+        if (drawing.tool === 'trendline' && isEnabled && left.x !== right.x) {
+            const edge = getRayEnd(left, right, area);
+            ctx.save();
+            ctx.setLineDash([4, 4]);
+            ctx.globalAlpha = 0.6;
+            ctx.beginPath();
+            ctx.moveTo(right.x, right.y);
+            ctx.lineTo(edge.x, edge.y);
+            ctx.stroke();
+            ctx.restore();
+        }
+        tag = drawing.tool === 'ray' ? pixels[1] : right;
+    }
+    ctx.font = 'bold 10px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    ctx.globalAlpha = isEnabled ? 1 : 0.6;
+    ctx.fillText(isEnabled ? 'ALERT' : 'ALERT OFF', tag.x + 4, tag.y - 4);
+};
+
+const paintHandles = (ctx: CanvasRenderingContext2D, drawing: Drawing, projection: ChartProjection) => {
+    ctx.save();
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = drawing.color;
+    ctx.lineWidth = 2;
+    getDrawingHandles(drawing, projection).forEach(({ pixel }) => {
+        ctx.beginPath();
+        ctx.arc(pixel.x, pixel.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    });
+    ctx.restore();
+};
 
 // Helper function to get accurate canvas coordinates from mouse or touch events
 const getEventCoordinates = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>): { x: number; y: number } | null => {
@@ -41,19 +271,82 @@ const getEventCoordinates = (e: React.MouseEvent<HTMLCanvasElement> | React.Touc
     };
 };
 
-const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timeframe }) => {
+// One chart row per indicator point, with its candle and signal line. Lookups go by time, since a long
+// history would make searching each series per point slow.
+const toChartData = (series: SymbolData) => {
+    const toValueMap = (points: SymbolData['sma'] | undefined) => new Map<number, number>((points ?? []).map(point => [point.time, point.value]));
+    const smaByTime = toValueMap(series.sma);
+    const bbUpperByTime = toValueMap(series.bbUpper);
+    const bbLowerByTime = toValueMap(series.bbLower);
+    const candleByTime = new Map<number, Candle>((series.candles ?? []).map(candle => [candle.time, candle]));
+    return (series.rsi ?? []).map(rsiPoint => {
+        const candle = candleByTime.get(rsiPoint.time);
+        return {
+            time: rsiPoint.time,
+            rsi: rsiPoint.value,
+            sma: smaByTime.get(rsiPoint.time) ?? null,
+            bbUpper: bbUpperByTime.get(rsiPoint.time) ?? null,
+            bbLower: bbLowerByTime.get(rsiPoint.time) ?? null,
+            open: candle?.open ?? null,
+            high: candle?.high ?? null,
+            low: candle?.low ?? null,
+            close: candle?.close ?? null,
+            volume: candle?.volume ?? null,
+            range: candle ? [candle.low, candle.high] : null,
+        };
+    });
+};
+
+const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timeframe, focusTime = null, lookback, onLookbackChange, onLoadHistory, onComputeHistory }) => {
     const modalRef = useRef<HTMLDivElement>(null);
-    const chartContainerRef = useRef<HTMLDivElement>(null);
+    const chartAreaRef = useRef<HTMLDivElement>(null);
+    const drawingPaneRef = useRef<HTMLDivElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     
-    // Drawing state
+    // Drawing state, in chart coordinates and saved per symbol and timeframe
     const [drawings, setDrawings] = useState<Drawing[]>([]);
-    const [activeTool, setActiveTool] = useState<DrawingTool>('trendline');
+    const [projection, setProjection] = useState<ChartProjection | null>(null);
+    const [activeTool, setActiveTool] = useState<DrawingTool>('cursor');
+    // Open time of the candle under the crosshair in either pane
+    const [hoveredTime, setHoveredTime] = useState<number | null>(null);
     const [brushColor, setBrushColor] = useState(settings.textColor);
+    const [brushSize, setBrushSize] = useState(BRUSH_SIZE);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    // Cursor for the select tool, hinting whether a drag would move or resize
+    const [selectCursor, setSelectCursor] = useState('default');
 
-    const isDrawingRef = useRef(false);
-    const currentPathRef = useRef<Drawing | null>(null);
-    const canvasSnapshotRef = useRef<ImageData | null>(null);
+    // Drawing being created; painted on the canvas but only saved once the pointer is released
+    const pendingDrawingRef = useRef<Drawing | null>(null);
+    // Drag of the selected drawing: the drawing as it was, where the drag started and the handle held, if any
+    const dragRef = useRef<{ original: Drawing; current: Drawing; start: DrawingPoint; handle: number | null } | null>(null);
+    // Current eraser stroke: the drawings before it started and those it has removed so far
+    const eraseRef = useRef<{ before: Drawing[]; ids: Set<string> } | null>(null);
+    // Undo and redo stacks, kept only while this chart is open
+    const [history, setHistory] = useState<DrawingHistory>(EMPTY_DRAWING_HISTORY);
+
+    // Candles older than the live window, fetched as the user looks further back
+    const [historyKlines, setHistoryKlines] = useState<Kline[]>([]);
+    // Candles the chart should have loaded, live window included
+    const [loadTarget, setLoadTarget] = useState(lookback);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+    // Set once the exchange returns fewer candles than asked for, i.e. the market's first candle is loaded
+    const [isHistoryComplete, setIsHistoryComplete] = useState(false);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    // Indicator over `historyKlines`, computed off the main thread once per page rather than on every tick
+    const [historyData, setHistoryData] = useState<SymbolData | null>(null);
+    const [isComputingHistory, setIsComputingHistory] = useState(false);
+    // Bumped on every reset so a fetch for the previous chart is ignored when it completes
+    const historyRequestRef = useRef(0);
+    const liveCandlesRef = useRef<Candle[]>(data.candles);
+    const [viewport, setViewport] = useState<ChartViewport>({ offset: 0, count: lookback });
+    // More history is only loaded after the user pans or zooms, not just because the whole lookback is in view
+    const [hasNavigated, setHasNavigated] = useState(false);
+    // Set once the view was centred on `focusTime`, or the history can't reach back to it
+    const [isFocusPlaced, setIsFocusPlaced] = useState(false);
+    const [isPanning, setIsPanning] = useState(false);
+    // Pointer position and view where a drag started, and the finger spacing, view and anchor where a pinch started
+    const panRef = useRef<{ x: number; viewport: ChartViewport } | null>(null);
+    const pinchRef = useRef<{ distance: number; viewport: ChartViewport; anchor: number } | null>(null);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -75,23 +368,349 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
         };
     }, [onClose]);
 
+    useEffect(() => {
+        setDrawings(loadDrawings(symbol, timeframe));
+        setSelectedId(null);
+        setHistory(EMPTY_DRAWING_HISTORY);
+    }, [symbol, timeframe]);
+
+    // Picks up changes saved elsewhere, e.g. an alert paused from the alert rules list, so the next save keeps them
+    useEffect(() => subscribeToDrawings(() => setDrawings(loadDrawings(symbol, timeframe))), [symbol, timeframe]);
+
+    useEffect(() => {
+        historyRequestRef.current += 1;
+        setHistoryKlines([]);
+        setHistoryData(null);
+        setLoadTarget(lookback);
+        setIsLoadingHistory(false);
+        setIsHistoryComplete(false);
+        setHistoryError(null);
+        setViewport({ offset: 0, count: lookback });
+        setHasNavigated(false);
+        setIsFocusPlaced(false);
+    }, [symbol, timeframe, onLoadHistory]);
+
+    useEffect(() => {
+        setIsFocusPlaced(false);
+    }, [focusTime]);
+
+    const liveStart: number | undefined = data.candles[0]?.time;
+    const missingHistory = getMissingHistoryCount(historyKlines, loadTarget - data.rsi.length, settings);
+
+    useEffect(() => {
+        const previous = liveCandlesRef.current;
+        liveCandlesRef.current = data.candles;
+        if (liveStart === undefined) return;
+        setHistoryKlines(prev => appendScrolledOutCandles(prev, previous, liveStart, timeframe));
+    }, [data.candles]);
+
+    useEffect(() => {
+        if (missingHistory === 0 || liveStart === undefined || isLoadingHistory || isHistoryComplete || historyError) return;
+        const request = historyRequestRef.current;
+        setIsLoadingHistory(true);
+        onLoadHistory(symbol, timeframe, historyKlines[0]?.openTime ?? liveStart, missingHistory)
+            .then(klines => {
+                if (request !== historyRequestRef.current) return;
+                if (klines.length < missingHistory) setIsHistoryComplete(true);
+                setHistoryKlines(prev => [...klines, ...prev]);
+            })
+            .catch(error => {
+                if (request !== historyRequestRef.current) return;
+                console.error(`Failed to load older candles for ${symbol}`, error);
+                setHistoryError(error instanceof Error ? error.message : 'Unknown error');
+            })
+            .finally(() => {
+                if (request === historyRequestRef.current) setIsLoadingHistory(false);
+            });
+    }, [missingHistory, liveStart, isLoadingHistory, isHistoryComplete, historyError, historyKlines, symbol, timeframe, onLoadHistory]);
+
+    useEffect(() => {
+        if (historyKlines.length === 0) {
+            setHistoryData(null);
+            setIsComputingHistory(false);
+            return;
+        }
+        const controller = new AbortController();
+        setIsComputingHistory(true);
+        onComputeHistory(historyKlines, controller.signal)
+            .then(result => {
+                if (result) setHistoryData(result.status === 'ok' ? result : null);
+            })
+            .catch(error => console.error(`Failed to compute older candles for ${symbol}`, error))
+            .finally(() => {
+                if (!controller.signal.aborted) setIsComputingHistory(false);
+            });
+        return () => controller.abort();
+    }, [historyKlines, onComputeHistory]);
+
+    const updateDrawings = useCallback((next: Drawing[]) => {
+        setDrawings(next);
+        saveDrawings(symbol, timeframe, next);
+    }, [symbol, timeframe]);
+
+    // Every change to the drawings goes through a command so it can be undone
+    const executeCommand = useCallback((command: DrawingCommand) => {
+        updateDrawings(applyDrawingCommand(drawings, command));
+        setHistory(prev => pushDrawingCommand(prev, command));
+    }, [drawings, updateDrawings]);
+
+    const handleUndo = useCallback(() => {
+        const command = history.past[history.past.length - 1];
+        if (!command) return;
+        updateDrawings(revertDrawingCommand(drawings, command));
+        setHistory({ past: history.past.slice(0, -1), future: [command, ...history.future] });
+    }, [history, drawings, updateDrawings]);
+
+    const handleRedo = useCallback(() => {
+        const [command, ...future] = history.future;
+        if (!command) return;
+        updateDrawings(applyDrawingCommand(drawings, command));
+        setHistory({ past: [...history.past, command], future });
+    }, [history, drawings, updateDrawings]);
+
+    const selectedDrawing = drawings.find(drawing => drawing.id === selectedId) ?? null;
+
     // Reset brush color if theme changes
     useEffect(() => {
         setBrushColor(settings.textColor);
     }, [settings.textColor]);
 
-    const chartData = useMemo(() => {
-        if (!data || !data.rsi) return [];
-        return data.rsi.map(rsiPoint => {
-            const smaPoint = data.sma?.find(sma => sma.time === rsiPoint.time);
-            return {
-                time: rsiPoint.time,
-                rsi: rsiPoint.value,
-                sma: smaPoint ? smaPoint.value : null,
-            };
-        });
-    }, [data]);
+    // Only the live tail is rebuilt on a tick; the history's rows change once per page
+    const historySeries = useMemo(() => (historyData && liveStart !== undefined ? getHistoryBefore(historyData, liveStart) : null), [historyData, liveStart]);
+    const historyChartData = useMemo(() => (historySeries ? toChartData(historySeries) : []), [historySeries]);
+    const liveChartData = useMemo(() => toChartData(data), [data]);
+    const chartData = useMemo(() => historyChartData.concat(liveChartData), [historyChartData, liveChartData]);
+    // The candle that was open at `focusTime`, or null when that time is outside the loaded window
+    const focusCandleTime = useMemo(() => {
+        if (focusTime === null || chartData.length === 0 || focusTime < chartData[0].time) return null;
+        let candleTime = chartData[0].time;
+        for (const point of chartData) {
+            if (point.time > focusTime) break;
+            candleTime = point.time;
+        }
+        return candleTime;
+    }, [focusTime, chartData]);
+    const isFocusOutOfRange = isFocusPlaced && focusTime !== null && focusCandleTime === null;
+
+    const { start: visibleStart, end: visibleEnd } = getVisibleRange(viewport, chartData.length);
+    const visibleData = useMemo(() => chartData.slice(visibleStart, visibleEnd), [chartData, visibleStart, visibleEnd]);
+    const firstVisibleTime = visibleData[0]?.time ?? 0;
+    const lastVisibleTime = visibleData[visibleData.length - 1]?.time ?? 0;
+    const isFocusVisible = focusCandleTime !== null && focusCandleTime >= firstVisibleTime && focusCandleTime <= lastVisibleTime;
+    const visibleDivergences = [...(historySeries?.divergences ?? []), ...(data.divergences ?? [])].filter(divergence => divergence.start.time >= firstVisibleTime && divergence.end.time <= lastVisibleTime);
+    const maxVolume = useMemo(() => Math.max(0, ...visibleData.map(point => point.volume ?? 0)), [visibleData]);
+
+    // Reaching the oldest loaded candle asks for another lookback's worth of older ones
+    useEffect(() => {
+        if (!hasNavigated || visibleStart > HISTORY_PRELOAD_CANDLES || missingHistory > 0 || isHistoryComplete || historyError) return;
+        setLoadTarget(target => Math.min(MAX_CHART_CANDLES, Math.max(target, chartData.length) + lookback));
+    }, [hasNavigated, visibleStart, missingHistory, isHistoryComplete, historyError, chartData.length, lookback]);
+
+    // A chart opened from an alert loads history back to the alert, plus half a view so the alert's candle
+    // can sit in the middle, and only then centres the view on it
+    useEffect(() => {
+        const isWaitingForHistory = (missingHistory > 0 && !isHistoryComplete && !historyError) || isLoadingHistory || isComputingHistory;
+        if (focusTime === null || isFocusPlaced || chartData.length === 0 || isWaitingForHistory) return;
+        // Negative while the alert is older than the loaded candles, estimated from the timeframe
+        const focusIndex = focusCandleTime === null
+            ? -Math.ceil((chartData[0].time - focusTime) / TIMEFRAME_DURATIONS[timeframe])
+            : chartData.findIndex(point => point.time === focusCandleTime);
+        const target = Math.min(MAX_CHART_CANDLES, chartData.length - focusIndex + Math.ceil(viewport.count / 2));
+        if (target > loadTarget && !isHistoryComplete && !historyError) {
+            setLoadTarget(target);
+            return;
+        }
+        if (focusCandleTime !== null) setViewport(prev => centerViewport(prev, chartData.length, focusIndex));
+        setIsFocusPlaced(true);
+    }, [focusTime, isFocusPlaced, chartData, focusCandleTime, missingHistory, isLoadingHistory, isComputingHistory, isHistoryComplete, historyError, loadTarget, viewport.count, timeframe]);
+
+    // Picking a lookback, even the current one, also resets the zoom
+    const handleLookbackChange = (value: number) => {
+        onLookbackChange(value);
+        setLoadTarget(value);
+        setViewport({ offset: 0, count: value });
+        setHasNavigated(false);
+        setHistoryError(null);
+    };
+
+    // Wheel and pinch zoom around the pointer, and dragging with the cursor tool pans. The listeners are native
+    // since React's wheel and touch listeners are passive and can't keep the page from scrolling.
+    useEffect(() => {
+        const container = chartAreaRef.current;
+        const pane = drawingPaneRef.current;
+        if (!container || !pane || !projection) return;
+        const total = chartData.length;
+        const { area } = projection;
+        const getAnchor = (clientX: number) => Math.max(0, Math.min(1, (clientX - pane.getBoundingClientRect().left - area.x) / area.width));
+        const getCandleWidth = (view: ChartViewport) => area.width / clampViewport(view, total).count;
+
+        const startPan = (clientX: number) => {
+            panRef.current = { x: clientX, viewport: clampViewport(viewport, total) };
+        };
+        const panTo = (clientX: number) => {
+            const pan = panRef.current;
+            if (!pan) return;
+            setHasNavigated(true);
+            setViewport(panViewport(pan.viewport, total, Math.round((clientX - pan.x) / getCandleWidth(pan.viewport))));
+        };
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            setHasNavigated(true);
+            if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+                // Sideways scrolling on a trackpad pans; scrolling right moves forward in time
+                setViewport(prev => panViewport(prev, total, Math.round(-event.deltaX / getCandleWidth(prev)) || -Math.sign(event.deltaX)));
+            } else if (event.deltaY !== 0) {
+                const anchor = getAnchor(event.clientX);
+                setViewport(prev => zoomViewport(prev, total, event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor));
+            }
+        };
+        const handleMouseDown = (event: MouseEvent) => {
+            if (activeTool !== 'cursor' || event.button !== 0) return;
+            startPan(event.clientX);
+            setIsPanning(true);
+        };
+        const handleMouseMove = (event: MouseEvent) => panTo(event.clientX);
+        const handleMouseUp = () => {
+            if (!panRef.current) return;
+            panRef.current = null;
+            setIsPanning(false);
+        };
+        const getDistance = (touches: TouchList) => Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+        const handleTouchStart = (event: TouchEvent) => {
+            if (event.touches.length === 2) {
+                panRef.current = null;
+                pinchRef.current = {
+                    distance: getDistance(event.touches),
+                    viewport: clampViewport(viewport, total),
+                    anchor: getAnchor((event.touches[0].clientX + event.touches[1].clientX) / 2),
+                };
+            } else if (event.touches.length === 1 && activeTool === 'cursor') {
+                startPan(event.touches[0].clientX);
+            }
+        };
+        const handleTouchMove = (event: TouchEvent) => {
+            const pinch = pinchRef.current;
+            if (pinch && event.touches.length === 2) {
+                event.preventDefault();
+                setHasNavigated(true);
+                setViewport(zoomViewport(pinch.viewport, total, pinch.distance / Math.max(1, getDistance(event.touches)), pinch.anchor));
+            } else if (panRef.current && event.touches.length === 1) {
+                event.preventDefault();
+                panTo(event.touches[0].clientX);
+            }
+        };
+        const handleTouchEnd = (event: TouchEvent) => {
+            if (event.touches.length < 2) pinchRef.current = null;
+            if (event.touches.length === 0) panRef.current = null;
+        };
+
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        container.addEventListener('mousedown', handleMouseDown);
+        container.addEventListener('touchstart', handleTouchStart, { passive: false });
+        container.addEventListener('touchmove', handleTouchMove, { passive: false });
+        container.addEventListener('touchend', handleTouchEnd);
+        container.addEventListener('touchcancel', handleTouchEnd);
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            container.removeEventListener('wheel', handleWheel);
+            container.removeEventListener('mousedown', handleMouseDown);
+            container.removeEventListener('touchstart', handleTouchStart);
+            container.removeEventListener('touchmove', handleTouchMove);
+            container.removeEventListener('touchend', handleTouchEnd);
+            container.removeEventListener('touchcancel', handleTouchEnd);
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [projection, chartData.length, viewport, activeTool]);
+
+    const isStochRsi = settings.mode === 'stochRsi';
+    const lineLabel = isStochRsi
+        ? `Stoch RSI %K(${settings.stochKSmoothing}, ${settings.stochLength}, ${settings.rsiLength}, ${settings.priceSource})`
+        : `RSI(${settings.rsiLength}, ${settings.priceSource}${settings.rsiSmoothing === 'cutler' ? ', Cutler' : ''})`;
+    const signalLabel = getSignalLineLabel(settings);
+    const showBands = !isStochRsi && settings.signalType === 'bb';
+    const levels = INDICATOR_LEVELS[settings.mode];
+    const syncId = `modal-${symbol}`;
+
+    const handleChartHover = (state: MouseHandlerDataParam) => {
+        const time = state.activeLabel !== undefined ? Number(state.activeLabel) : null;
+        setHoveredTime(Number.isFinite(time) ? time : null);
+    };
     
+    const createDrawing = (tool: DrawingShape, points: DrawingPoint[]): Drawing => ({
+        // Unique even for drawings made within the same millisecond, which select, erase and undo tell apart by id
+        id: crypto.randomUUID(),
+        tool,
+        points,
+        color: brushColor,
+        size: brushSize,
+    });
+
+    const editDrawing = (drawing: Drawing, changes: Partial<Drawing>) => {
+        executeCommand({ type: 'edit', before: drawing, after: { ...drawing, ...changes } });
+    };
+
+    const handleDeleteSelected = useCallback(() => {
+        if (!selectedDrawing) return;
+        executeCommand(createDeleteCommand(drawings, new Set([selectedDrawing.id])));
+        setSelectedId(null);
+    }, [selectedDrawing, drawings, executeCommand]);
+
+    const handleClear = () => {
+        if (drawings.length === 0) return;
+        executeCommand({ type: 'clear', drawings });
+        setSelectedId(null);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+                event.preventDefault();
+                if (event.shiftKey) {
+                    handleRedo();
+                } else {
+                    handleUndo();
+                }
+            } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedDrawing) {
+                event.preventDefault();
+                handleDeleteSelected();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [selectedDrawing, handleDeleteSelected, handleUndo, handleRedo]);
+
+    const handleToolChange = (tool: DrawingTool) => {
+        setActiveTool(tool);
+        if (tool !== 'select') setSelectedId(null);
+    };
+
+    // With a drawing selected, the colour and width buttons edit it rather than the defaults for new drawings
+    const handleColorChange = (color: string) => {
+        if (selectedDrawing) {
+            editDrawing(selectedDrawing, { color });
+        } else {
+            setBrushColor(color);
+        }
+    };
+
+    // Turns the selected line into an alert, or an alerting one back into a plain line
+    const handleToggleAlert = () => {
+        if (!selectedDrawing || !isAlertableDrawing(selectedDrawing)) return;
+        editDrawing(selectedDrawing, { alert: selectedDrawing.alert?.enabled ? undefined : { enabled: true } });
+    };
+
+    const handleSizeChange = (size: number) => {
+        if (selectedDrawing) {
+            editDrawing(selectedDrawing, { size });
+        } else {
+            setBrushSize(size);
+        }
+    };
+
     const redrawCanvas = useCallback(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -99,28 +718,24 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
         if (!ctx) return;
 
         ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (!projection) return;
 
-        drawings.forEach(drawing => {
-            ctx.beginPath();
-            ctx.strokeStyle = drawing.color;
-            ctx.lineWidth = drawing.size;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            
-            drawing.points.forEach((point, index) => {
-                if (index === 0) {
-                    ctx.moveTo(point.x, point.y);
-                } else {
-                    ctx.lineTo(point.x, point.y);
-                }
-            });
-            ctx.stroke();
-        });
-    }, [drawings]);
+        const { area } = projection;
+        const pending = pendingDrawingRef.current;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(area.x, area.y, area.width, area.height);
+        ctx.clip();
+        [...drawings, ...(pending ? [pending] : [])].forEach(drawing => paintDrawing(ctx, drawing, projection, drawing.id === selectedId));
+        ctx.restore();
+
+        const selected = drawings.find(drawing => drawing.id === selectedId);
+        if (selected) paintHandles(ctx, selected, projection);
+    }, [drawings, projection, selectedId]);
 
     useEffect(() => {
         const canvas = canvasRef.current;
-        const container = chartContainerRef.current;
+        const container = drawingPaneRef.current;
         if (!canvas || !container) return;
 
         const resizeObserver = new ResizeObserver(entries => {
@@ -141,93 +756,128 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
         redrawCanvas();
     }, [drawings, redrawCanvas]);
 
+    const eraseAt = (pixel: PixelPoint) => {
+        const erase = eraseRef.current;
+        if (!projection || !erase) return;
+        const hit = findDrawingAt(erase.before.filter(drawing => !erase.ids.has(drawing.id)), projection, pixel);
+        if (!hit) return;
+        erase.ids.add(hit.id);
+        setDrawings(prev => prev.filter(drawing => drawing.id !== hit.id));
+    };
+
     const handleDrawStart = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
+        if (!projection) return;
         if ('touches' in e) e.preventDefault(); // Prevent scrolling on touch devices
-        
-        isDrawingRef.current = true;
+
         const coords = getEventCoordinates(e);
         if (!coords) return;
-        const { x, y } = coords;
+        const point = projection.fromPixel(coords);
 
-        currentPathRef.current = {
-            tool: activeTool,
-            points: [{ x, y }],
-            color: brushColor,
-            size: BRUSH_SIZE,
-        };
-
-        if (activeTool === 'trendline') {
-            canvasSnapshotRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        switch (activeTool) {
+            case 'cursor':
+                break;
+            case 'select': {
+                // The selected drawing's handles take precedence over whatever lies beneath them
+                const handle = selectedDrawing ? findHandleAt(selectedDrawing, projection, coords) : null;
+                const target = handle !== null ? selectedDrawing : findDrawingAt(drawings, projection, coords);
+                setSelectedId(target?.id ?? null);
+                if (target) {
+                    dragRef.current = { original: target, current: target, start: point, handle };
+                }
+                break;
+            }
+            case 'eraser':
+                eraseRef.current = { before: drawings, ids: new Set() };
+                eraseAt(coords);
+                break;
+            case 'hline':
+                executeCommand({ type: 'add', drawing: createDrawing('hline', [point]) });
+                break;
+            case 'text': {
+                const text = window.prompt('Label text')?.trim();
+                if (text) {
+                    executeCommand({ type: 'add', drawing: { ...createDrawing('text', [point]), text } });
+                }
+                break;
+            }
+            default:
+                pendingDrawingRef.current = createDrawing(activeTool, activeTool === 'brush' ? [point] : [point, point]);
+                redrawCanvas();
         }
     };
     
     const handleDrawMove = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        if (!isDrawingRef.current || !currentPathRef.current) return;
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        if ('touches' in e) e.preventDefault();
-        
+        if (!projection) return;
         const coords = getEventCoordinates(e);
         if (!coords) return;
-        const { x, y } = coords;
-
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
 
-        if (activeTool === 'brush') {
-            const currentPath = currentPathRef.current;
-            currentPath.points.push({ x, y });
+        const drag = dragRef.current;
+        const pending = pendingDrawingRef.current;
+        if ((drag || pending || eraseRef.current) && 'touches' in e) e.preventDefault();
 
-            const p1 = currentPath.points[currentPath.points.length - 2];
-            const p2 = currentPath.points[currentPath.points.length - 1];
-
-            ctx.beginPath();
-            ctx.moveTo(p1.x, p1.y);
-            ctx.lineTo(p2.x, p2.y);
-            ctx.strokeStyle = currentPath.color;
-            ctx.lineWidth = currentPath.size;
-            ctx.stroke();
-        } else if (activeTool === 'trendline') {
-            if (canvasSnapshotRef.current) {
-                ctx.putImageData(canvasSnapshotRef.current, 0, 0);
+        if (drag) {
+            const point = projection.fromPixel(coords);
+            const moved = drag.handle !== null
+                ? moveDrawingHandle(drag.original, drag.handle, point)
+                : translateDrawing(drag.original, point.time - drag.start.time, point.value - drag.start.value);
+            drag.current = moved;
+            setDrawings(prev => prev.map(drawing => (drawing.id === moved.id ? moved : drawing)));
+        } else if (eraseRef.current) {
+            eraseAt(coords);
+        } else if (pending) {
+            const point = projection.fromPixel(coords);
+            if (pending.tool === 'brush') {
+                pending.points.push(point);
             } else {
-                 ctx.clearRect(0, 0, canvas.width, canvas.height);
-                 redrawCanvas();
+                pending.points[1] = point;
             }
-
-            const startPoint = currentPathRef.current.points[0];
-            ctx.beginPath();
-            ctx.moveTo(startPoint.x, startPoint.y);
-            ctx.lineTo(x, y);
-            ctx.strokeStyle = currentPathRef.current.color;
-            ctx.lineWidth = currentPathRef.current.size;
-            ctx.stroke();
+            redrawCanvas();
+        } else if (activeTool === 'select') {
+            const isOverHandle = selectedDrawing !== null && findHandleAt(selectedDrawing, projection, coords) !== null;
+            setSelectCursor(isOverHandle ? 'grab' : findDrawingAt(drawings, projection, coords) ? 'move' : 'default');
         }
     };
 
     const handleDrawEnd = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        if (!isDrawingRef.current || !currentPathRef.current) return;
-        
+        const drag = dragRef.current;
+        const pending = pendingDrawingRef.current;
+        const erase = eraseRef.current;
+        if (!drag && !pending && !erase) return;
+
         if ('touches' in e) e.preventDefault();
-        isDrawingRef.current = false;
-        const coords = getEventCoordinates(e);
+        dragRef.current = null;
+        pendingDrawingRef.current = null;
+        eraseRef.current = null;
+
+        if (drag) {
+            if (drag.current !== drag.original) {
+                executeCommand({ type: drag.handle === null ? 'move' : 'edit', before: drag.original, after: drag.current });
+            }
+        } else if (erase) {
+            if (erase.ids.size > 0) {
+                executeCommand(createDeleteCommand(erase.before, erase.ids));
+            }
+        } else if (pending) {
+            // A click without a drag doesn't make a line or zone
+            const [start, end] = pending.points.map(point => projection?.toPixel(point));
+            const isEmpty = pending.tool !== 'brush' && start && end && Math.hypot(end.x - start.x, end.y - start.y) < MIN_SHAPE_SIZE;
+            if (isEmpty) {
+                redrawCanvas();
+            } else {
+                executeCommand({ type: 'add', drawing: pending });
+            }
+        }
+    };
 
-        if (activeTool === 'trendline' && coords) {
-             currentPathRef.current.points.push({ x: coords.x, y: coords.y });
+    const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (activeTool !== 'select' || !projection) return;
+        const coords = getEventCoordinates(e);
+        const target = coords ? findDrawingAt(drawings, projection, coords) : null;
+        if (target?.tool !== 'text') return;
+        const text = window.prompt('Label text', target.text)?.trim();
+        if (text) {
+            editDrawing(target, { text });
         }
-        
-        setDrawings(prev => [...prev, currentPathRef.current!]);
-        
-        currentPathRef.current = null;
-        canvasSnapshotRef.current = null;
     };
 
     const timeFormatter = (time: number) => {
@@ -241,13 +891,25 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
         return `${hours}:${minutes}`;
     };
 
+    const formatPrice = (price: number) => price.toPrecision(6);
+
     const CustomTooltip: React.FC<any> = ({ active, payload }) => {
         if (active && payload && payload.length) {
+            const point = payload[0].payload;
             return (
                 <div className="p-2 bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-lg shadow-xl border border-light-border/50 dark:border-dark-border/50 text-sm">
-                    <p className="font-bold">{new Date(payload[0].payload.time).toUTCString()}</p>
-                    <p style={{ color: settings.rsiColor }}>RSI: {payload[0].value.toFixed(2)}</p>
-                    {payload[1] && <p style={{ color: settings.smaColor }}>SMA: {payload[1].value.toFixed(2)}</p>}
+                    <p className="font-bold">{new Date(point.time).toUTCString()}</p>
+                    {point.close !== null && (
+                        <p className="font-mono">
+                            O {formatPrice(point.open)} H {formatPrice(point.high)} L {formatPrice(point.low)} C <span style={{ color: point.close >= point.open ? CANDLE_UP_COLOR : CANDLE_DOWN_COLOR }}>{formatPrice(point.close)}</span>
+                        </p>
+                    )}
+                    {point.volume !== null && <p className="text-medium-text-light dark:text-medium-text">Vol: {point.volume.toFixed(2)}</p>}
+                    <p style={{ color: settings.rsiColor }}>{isStochRsi ? '%K' : 'RSI'}: {point.rsi.toFixed(2)}</p>
+                    {point.sma !== null && <p style={{ color: settings.smaColor }}>{showBands ? 'Basis' : isStochRsi ? '%D' : signalLabel}: {point.sma.toFixed(2)}</p>}
+                    {showBands && point.bbUpper !== null && point.bbLower !== null && (
+                        <p style={{ color: settings.smaColor }}>Bands: {point.bbLower.toFixed(2)} – {point.bbUpper.toFixed(2)}</p>
+                    )}
                 </div>
             );
         }
@@ -261,10 +923,43 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
                     <div>
                         <h2 className="text-2xl font-bold text-dark-text dark:text-light-text">{symbol} <span className="text-base font-normal text-medium-text-light dark:text-medium-text">({timeframe})</span></h2>
                         <div className="flex items-center gap-4 text-xs text-medium-text-light dark:text-medium-text">
+                            <span className="font-mono" style={{ color: settings.rsiColor }}>{lineLabel}</span>
+                            <span className="font-mono" style={{ color: settings.smaColor }}>{signalLabel}</span>
                             <span>Price: <span className="font-semibold text-dark-text dark:text-light-text">${data.price.toFixed(4)}</span></span>
                             <span>Volume: <span className="font-semibold text-dark-text dark:text-light-text">{data.volume.toFixed(2)}</span></span>
+                            {focusTime !== null && (
+                                <span style={{ color: FOCUS_COLOR }} title={new Date(focusTime).toLocaleString()}>
+                                    <i className="fa-solid fa-bell mr-1"></i>
+                                    {isFocusOutOfRange ? 'Alert is older than the candles the chart can load' : `Alert at ${new Date(focusTime).toLocaleString()}`}
+                                </span>
+                            )}
+                            {isLoadingHistory && (
+                                <span><i className="fa-solid fa-spinner fa-spin mr-1"></i>Loading older candles</span>
+                            )}
+                            {historyError && (
+                                <span className="text-red-500" title={historyError}>
+                                    <i className="fa-solid fa-triangle-exclamation mr-1"></i>Older candles failed to load
+                                </span>
+                            )}
                         </div>
                     </div>
+                    <div className="flex items-center gap-1 ml-auto mr-4" role="group" aria-label="Candles to load">
+                        {CHART_LOOKBACKS.map(value => (
+                            <button
+                                key={value}
+                                onClick={() => handleLookbackChange(value)}
+                                className={`px-2 py-0.5 text-xs font-semibold rounded-md border transition ${
+                                    value === lookback
+                                        ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg border-transparent'
+                                        : 'bg-light-card dark:bg-dark-card text-medium-text-light dark:text-medium-text border-light-border dark:border-dark-border hover:bg-light-border dark:hover:bg-dark-border'
+                                }`}
+                                aria-pressed={value === lookback}
+                                title={`Load the last ${value} candles and reset the zoom`}
+                            >
+                                {value}
+                            </button>
+                        ))}
+                    </div>
                     <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close chart">
                         <i className="fa-solid fa-xmark"></i>
                     </button>
@@ -272,40 +967,97 @@ const Modal: React.FC<ModalProps> = ({ symbol, data, onClose, settings, timefram
                 
                 <DrawingToolbar 
                     activeTool={activeTool}
-                    onToolChange={setActiveTool}
-                    brushColor={brushColor}
-                    onColorChange={setBrushColor}
-                    onClear={() => setDrawings([])}
+                    onToolChange={handleToolChange}
+                    brushColor={selectedDrawing?.color ?? brushColor}
+                    onColorChange={handleColorChange}
+                    brushSize={selectedDrawing?.size ?? brushSize}
+                    onSizeChange={handleSizeChange}
+                    hasSelection={selectedDrawing !== null}
+                    onDeleteSelected={handleDeleteSelected}
+                    canAlert={selectedDrawing !== null && isAlertableDrawing(selectedDrawing)}
+                    isAlertEnabled={selectedDrawing?.alert?.enabled ?? false}
+                    onToggleAlert={handleToggleAlert}
+                    onClear={handleClear}
+                    canUndo={history.past.length > 0}
+                    canRedo={history.future.length > 0}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
                     textColor={settings.textColor}
                 />
                 
-                <div ref={chartContainerRef} className="relative flex-grow p-4 dark:bg-black rounded-b-2xl">
-                    <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
-                            <CartesianGrid stroke={settings.rsi50Color} strokeOpacity={0.2} vertical={false} />
-                            <XAxis dataKey="time" tickFormatter={timeFormatter} stroke={settings.textColor} fontSize={12} axisLine={false} tickLine={false} hide={true} />
-                            <YAxis domain={['dataMin - 10', 'dataMax + 10']} stroke={settings.textColor} fontSize={12} axisLine={false} tickLine={false} hide={true} />
-                            <Tooltip content={<CustomTooltip />} />
-                            <ReferenceLine y={70} stroke="red" strokeDasharray="3 3" strokeOpacity={0.5} strokeWidth={2} />
-                            <ReferenceLine y={30} stroke="green" strokeDasharray="3 3" strokeOpacity={0.5} strokeWidth={2} />
-                            <ReferenceLine y={50} stroke={settings.rsi50Color} strokeDasharray="5 5" strokeWidth={2} />
-                            <Line type="monotone" dataKey="rsi" stroke={settings.rsiColor} strokeWidth={settings.lineWidth} dot={false} name="RSI (14)" isAnimationActive={false} />
-                            <Line type="monotone" dataKey="sma" stroke={settings.smaColor} strokeWidth={settings.lineWidth} dot={false} name="SMA (14)" isAnimationActive={false} />
-                        </LineChart>
-                    </ResponsiveContainer>
-                     <canvas
-                        ref={canvasRef}
-                        className="absolute top-0 left-0 w-full h-full pointer-events-auto"
-                        onMouseDown={handleDrawStart}
-                        onMouseMove={handleDrawMove}
-                        onMouseUp={handleDrawEnd}
-                        onMouseLeave={handleDrawEnd}
-                        onTouchStart={handleDrawStart}
-                        onTouchMove={handleDrawMove}
-                        onTouchEnd={handleDrawEnd}
-                        onTouchCancel={handleDrawEnd}
-                        style={{ zIndex: 10, cursor: 'crosshair' }}
-                    />
+                <div
+                    ref={chartAreaRef}
+                    className="flex-grow flex flex-col min-h-0 p-4 dark:bg-black rounded-b-2xl select-none"
+                    style={{ cursor: activeTool === 'cursor' ? (isPanning ? 'grabbing' : 'grab') : undefined }}
+                >
+                    <div className="flex-[3] min-h-0">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={visibleData} syncId={syncId} margin={{ top: 5, right: 0, left: 10, bottom: 0 }} onMouseMove={handleChartHover} onMouseLeave={() => setHoveredTime(null)}>
+                                <CartesianGrid stroke={settings.rsi50Color} strokeOpacity={0.2} vertical={false} />
+                                <XAxis dataKey="time" hide={true} />
+                                <YAxis yAxisId="price" orientation="right" domain={['dataMin', 'dataMax']} width={PRICE_AXIS_WIDTH} tickFormatter={formatPrice} stroke={settings.textColor} fontSize={11} axisLine={false} tickLine={false} />
+                                {/* Volume is scaled so its bars stay in the bottom quarter of the pane */}
+                                <YAxis yAxisId="volume" domain={[0, maxVolume * 4 || 1]} hide={true} />
+                                <Tooltip content={<CustomTooltip />} cursor={{ stroke: settings.textColor, strokeOpacity: 0.3 }} />
+                                <Bar yAxisId="volume" dataKey="volume" fill={settings.textColor} fillOpacity={0.15} isAnimationActive={false} />
+                                {isFocusVisible && <ReferenceLine yAxisId="price" x={focusCandleTime} stroke={FOCUS_COLOR} strokeDasharray="4 4" strokeWidth={2} />}
+                                <Bar
+                                    yAxisId="price"
+                                    dataKey="range"
+                                    isAnimationActive={false}
+                                    shape={(props: BarShapeProps) => <CandleShape {...props} highlightTime={hoveredTime} highlightColor={settings.textColor} />}
+                                />
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+                    {/* Drawings are anchored to this pane's time and value scales, so the canvas only covers it */}
+                    <div ref={drawingPaneRef} className="relative flex-[2] min-h-0">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={visibleData} syncId={syncId} margin={{ top: 5, right: 0, left: 10, bottom: 5 }} onMouseMove={handleChartHover} onMouseLeave={() => setHoveredTime(null)}>
+                                <CartesianGrid stroke={settings.rsi50Color} strokeOpacity={0.2} vertical={false} />
+                                <XAxis dataKey="time" tickFormatter={timeFormatter} stroke={settings.textColor} fontSize={11} axisLine={false} tickLine={false} minTickGap={40} />
+                                <YAxis orientation="right" domain={['dataMin - 10', 'dataMax + 10']} ticks={[levels.oversold, 50, levels.overbought]} width={PRICE_AXIS_WIDTH} stroke={settings.textColor} fontSize={11} axisLine={false} tickLine={false} />
+                                {/* The price pane shows the shared tooltip; this pane only follows the crosshair */}
+                                <Tooltip content={() => null} cursor={{ stroke: settings.textColor, strokeOpacity: 0.3 }} />
+                                <ReferenceLine y={levels.overbought} stroke="red" strokeDasharray="3 3" strokeOpacity={0.5} strokeWidth={2} />
+                                <ReferenceLine y={levels.oversold} stroke="green" strokeDasharray="3 3" strokeOpacity={0.5} strokeWidth={2} />
+                                <ReferenceLine y={50} stroke={settings.rsi50Color} strokeDasharray="5 5" strokeWidth={2} />
+                                {isFocusVisible && (
+                                    <ReferenceLine x={focusCandleTime} stroke={FOCUS_COLOR} strokeDasharray="4 4" strokeWidth={2} label={{ value: 'Alert', position: 'insideTopLeft', fontSize: 10, fill: FOCUS_COLOR }} />
+                                )}
+                                <Line type="monotone" dataKey="rsi" stroke={settings.rsiColor} strokeWidth={settings.lineWidth} dot={false} name={lineLabel} isAnimationActive={false} />
+                                <Line type="monotone" dataKey="sma" stroke={settings.smaColor} strokeWidth={settings.lineWidth} dot={false} name={signalLabel} isAnimationActive={false} />
+                                {showBands && <Line type="monotone" dataKey="bbUpper" stroke={settings.smaColor} strokeWidth={1} strokeDasharray="4 4" dot={false} name="Upper Band" isAnimationActive={false} />}
+                                {showBands && <Line type="monotone" dataKey="bbLower" stroke={settings.smaColor} strokeWidth={1} strokeDasharray="4 4" dot={false} name="Lower Band" isAnimationActive={false} />}
+                                {visibleDivergences.map(divergence => (
+                                    <ReferenceLine
+                                        key={`${divergence.type}-${divergence.start.time}-${divergence.end.time}`}
+                                        segment={[{ x: divergence.start.time, y: divergence.start.rsi }, { x: divergence.end.time, y: divergence.end.rsi }]}
+                                        stroke={isBullishDivergence(divergence.type) ? '#22c55e' : '#ef4444'}
+                                        strokeWidth={2}
+                                        strokeDasharray={divergence.type.startsWith('hidden') ? '4 3' : undefined}
+                                        ifOverflow="extendDomain"
+                                        label={{ value: DIVERGENCE_LABELS[divergence.type].short, position: 'top', fontSize: 10, fill: settings.textColor }}
+                                    />
+                                ))}
+                                <ProjectionReporter onChange={setProjection} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                        <canvas
+                            ref={canvasRef}
+                            className={`absolute top-0 left-0 w-full h-full ${activeTool === 'cursor' ? 'pointer-events-none' : 'pointer-events-auto'}`}
+                            onMouseDown={handleDrawStart}
+                            onMouseMove={handleDrawMove}
+                            onMouseUp={handleDrawEnd}
+                            onMouseLeave={handleDrawEnd}
+                            onTouchStart={handleDrawStart}
+                            onTouchMove={handleDrawMove}
+                            onTouchEnd={handleDrawEnd}
+                            onTouchCancel={handleDrawEnd}
+                            onDoubleClick={handleDoubleClick}
+                            style={{ zIndex: 10, cursor: activeTool === 'select' ? selectCursor : TOOL_CURSORS[activeTool] ?? 'crosshair' }}
+                        />
+                    </div>
                 </div>
             </div>
         </div>
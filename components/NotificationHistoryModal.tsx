@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import type { Notification, NotificationType, Timeframe } from '../types';
+import { TIMEFRAMES, ALERT_SEVERITY_COLORS } from '../constants';
+import { describeNotification } from '../services/alertDelivery';
+import { queryHistory, clearHistory, formatHistoryCsv, formatHistoryJson, type NotificationHistoryFilter, type NotificationHistoryPage } from '../services/notificationHistory';
+
+interface NotificationHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Id of the newest alert, so the list refreshes while open as alerts come in. */
+    latestNotificationId: number | null;
+    /** Suggestions for the rule filter. */
+    ruleNames: string[];
+    /** Suggestions for the symbol filter. */
+    allSymbols: string[];
+    onOpenChart: (notification: Notification) => void;
+}
+
+const NOTIFICATION_TYPES: { value: NotificationType; label: string }[] = [
+    { value: 'rule', label: 'Rule' },
+    { value: 'overbought', label: 'Overbought' },
+    { value: 'oversold', label: 'Oversold' },
+    { value: 'divergence', label: 'Divergence' },
+    { value: 'confluence', label: 'Confluence' },
+];
+
+const PAGE_SIZE = 200;
+const SEARCH_DEBOUNCE = 250;
+
+const selectClassName = 'h-9 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 px-2 text-sm text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+const inputClassName = 'h-9 px-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-sm text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+
+const downloadFile = (content: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const NotificationHistoryModal: React.FC<NotificationHistoryModalProps> = ({ isOpen, onClose, latestNotificationId, ruleNames, allSymbols, onOpenChart }) => {
+    const [filter, setFilter] = useState<NotificationHistoryFilter>({});
+    const [searchText, setSearchText] = useState('');
+    const [limit, setLimit] = useState(PAGE_SIZE);
+    const [page, setPage] = useState<NotificationHistoryPage>({ entries: [], total: 0 });
+    const [isLoading, setIsLoading] = useState(false);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    // Typing in the search box waits for a pause before walking the whole history again
+    useEffect(() => {
+        const timer = setTimeout(() => setFilter(prev => ({ ...prev, search: searchText })), SEARCH_DEBOUNCE);
+        return () => clearTimeout(timer);
+    }, [searchText]);
+
+    useEffect(() => {
+        setLimit(PAGE_SIZE);
+    }, [filter]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+        setIsLoading(true);
+        queryHistory(filter, limit).then(result => {
+            if (isCancelled) return;
+            setPage(result);
+            setIsLoading(false);
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [isOpen, filter, limit, latestNotificationId, reloadKey]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const updateFilter = (changes: Partial<NotificationHistoryFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        const { entries } = await queryHistory(filter);
+        const date = new Date().toISOString().slice(0, 10);
+        if (format === 'csv') {
+            downloadFile(formatHistoryCsv(entries), `alert-history-${date}.csv`, 'text/csv');
+        } else {
+            downloadFile(formatHistoryJson(entries), `alert-history-${date}.json`, 'application/json');
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete the entire alert history?')) return;
+        await clearHistory();
+        setReloadKey(prev => prev + 1);
+    };
+
+    const hasFilter = Object.values(filter).some(Boolean);
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">Alert History</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close alert history">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Filters */}
+                <div className="p-4 space-y-2 border-b border-light-border dark:border-dark-border">
+                    <input
+                        type="search"
+                        value={searchText}
+                        onChange={(e) => setSearchText(e.target.value)}
+                        placeholder="Search alerts..."
+                        className={`${inputClassName} w-full`}
+                        aria-label="Search alerts"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                        <input
+                            type="text"
+                            value={filter.symbol ?? ''}
+                            onChange={(e) => updateFilter({ symbol: e.target.value.toUpperCase() })}
+                            placeholder="Symbol"
+                            list="history-symbols"
+                            className={`${inputClassName} w-32 font-mono`}
+                            aria-label="Filter by symbol"
+                        />
+                        <datalist id="history-symbols">
+                            {allSymbols.map(symbol => <option key={symbol} value={symbol} />)}
+                        </datalist>
+                        <select
+                            value={filter.timeframe ?? ''}
+                            onChange={(e) => updateFilter({ timeframe: (e.target.value || undefined) as Timeframe | undefined })}
+                            className={selectClassName}
+                            aria-label="Filter by timeframe"
+                        >
+                            <option value="">All timeframes</option>
+                            {TIMEFRAMES.map(tf => <option key={tf.value} value={tf.value}>{tf.label}</option>)}
+                        </select>
+                        <select
+                            value={filter.type ?? ''}
+                            onChange={(e) => updateFilter({ type: (e.target.value || undefined) as NotificationType | undefined })}
+                            className={selectClassName}
+                            aria-label="Filter by type"
+                        >
+                            <option value="">All types</option>
+                            {NOTIFICATION_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                        </select>
+                        <input
+                            type="text"
+                            value={filter.rule ?? ''}
+                            onChange={(e) => updateFilter({ rule: e.target.value })}
+                            placeholder="Rule"
+                            list="history-rules"
+                            className={`${inputClassName} w-36`}
+                            aria-label="Filter by rule"
+                        />
+                        <datalist id="history-rules">
+                            {[...new Set(ruleNames)].map(name => <option key={name} value={name} />)}
+                        </datalist>
+                        {hasFilter && (
+                            <button
+                                onClick={() => { setFilter({}); setSearchText(''); }}
+                                className="px-2 text-sm font-semibold text-primary-light dark:text-primary hover:underline"
+                            >
+                                Reset
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Entries */}
+                <div className="flex-grow min-h-0 overflow-y-auto custom-scrollbar">
+                    {page.entries.length === 0 ? (
+                        <p className="p-8 text-center text-sm text-medium-text-light dark:text-medium-text">
+                            {isLoading ? 'Loading…' : hasFilter ? 'No alerts match these filters.' : 'No alerts yet.'}
+                        </p>
+                    ) : (
+                        page.entries.map(notification => (
+                            <div key={notification.id} className="flex items-center gap-3 px-4 py-2 border-b border-light-border dark:border-dark-border last:border-b-0">
+                                <div className="flex-grow min-w-0">
+                                    <p className="flex items-center gap-2 text-sm font-bold text-dark-text dark:text-light-text">
+                                        {notification.type === 'rule' && (
+                                            <span className={`w-2 h-2 rounded-full ${ALERT_SEVERITY_COLORS[notification.severity ?? 'warning'].bg}`} title={notification.severity}></span>
+                                        )}
+                                        {notification.symbol} ({notification.timeframe})
+                                        <time dateTime={new Date(notification.timestamp).toISOString()} className="text-xs font-normal text-medium-text-light dark:text-medium-text">
+                                            {new Date(notification.timestamp).toLocaleString()}
+                                        </time>
+                                    </p>
+                                    <p className="text-xs text-medium-text-light dark:text-medium-text truncate">{describeNotification(notification)}</p>
+                                </div>
+                                <button
+                                    onClick={() => onOpenChart(notification)}
+                                    className="p-2 text-medium-text-light dark:text-medium-text hover:text-primary-light dark:hover:text-primary transition-colors"
+                                    aria-label={`Open the ${notification.symbol} ${notification.timeframe} chart at this alert`}
+                                    title="Open chart"
+                                >
+                                    <i className="fa-solid fa-chart-line"></i>
+                                </button>
+                            </div>
+                        ))
+                    )}
+                    {page.total > page.entries.length && (
+                        <button
+                            onClick={() => setLimit(prev => prev + PAGE_SIZE)}
+                            className="w-full p-3 text-sm font-semibold text-primary-light dark:text-primary hover:bg-light-border/50 dark:hover:bg-dark-border/50 transition-colors"
+                        >
+                            Show more ({page.total - page.entries.length} older)
+                        </button>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between items-center gap-2 p-4 border-t border-light-border dark:border-dark-border">
+                    <button
+                        onClick={handleClear}
+                        disabled={page.total === 0 && !hasFilter}
+                        className="px-3 py-2 text-sm font-semibold rounded-md text-red-500 bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                    >
+                        Clear History
+                    </button>
+                    <span className="mr-auto text-xs text-medium-text-light dark:text-medium-text">{page.total} {page.total === 1 ? 'alert' : 'alerts'}</span>
+                    <button
+                        onClick={() => handleExport('csv')}
+                        disabled={page.total === 0}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                    >
+                        <i className="fa-solid fa-file-csv mr-2"></i>
+                        CSV
+                    </button>
+                    <button
+                        onClick={() => handleExport('json')}
+                        disabled={page.total === 0}
+                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                    >
+                        <i className="fa-solid fa-file-code mr-2"></i>
+                        JSON
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NotificationHistoryModal;
@@ -1,27 +1,55 @@
 
 
 import React from 'react';
-import type { Notification } from '../types';
+import type { Notification, AlertMute, SnoozeOption, Timeframe } from '../types';
+import { ALERT_SEVERITY_COLORS, formatTimeAgo } from '../constants';
+import { isBullishDivergence } from '../services/divergence';
+import { describeNotification } from '../services/alertDelivery';
+import SnoozeMenu from './SnoozeMenu';
 
 interface NotificationItemProps {
     notification: Notification;
+    mute?: AlertMute;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const NotificationItem: React.FC<NotificationItemProps> = ({ notification }) => {
+const NotificationItem: React.FC<NotificationItemProps> = ({ notification, mute, onSnooze, onUnmute }) => {
     const isOverbought = notification.type === 'overbought';
-    const accentColor = isOverbought ? 'border-red-500' : 'border-green-500';
-    const icon = isOverbought ? 'fa-arrow-trend-up text-red-500' : 'fa-arrow-trend-down text-green-500';
+    const divergence = notification.type === 'divergence' ? notification.divergence : undefined;
+    const confluenceScore = notification.type === 'confluence' ? notification.score ?? 0 : undefined;
+    const isRule = notification.type === 'rule';
+    const icon = isRule
+        ? `fa-bell ${ALERT_SEVERITY_COLORS[notification.severity ?? 'warning'].text}`
+        : divergence
+            ? (isBullishDivergence(divergence) ? 'fa-arrow-trend-up text-green-500' : 'fa-arrow-trend-down text-red-500')
+            : confluenceScore !== undefined
+                ? (confluenceScore > 0 ? 'fa-layer-group text-green-500' : 'fa-layer-group text-red-500')
+                : (isOverbought ? 'fa-arrow-trend-up text-red-500' : 'fa-arrow-trend-down text-green-500');
 
     return (
         <div className={`p-3 border-b border-light-border dark:border-dark-border last:border-b-0 hover:bg-light-border/50 dark:hover:bg-dark-border/50 transition-colors`}>
             <div className="flex items-start gap-3">
                 <i className={`fa-solid ${icon} text-lg mt-1`}></i>
-                <div>
-                    <p className="font-bold text-sm text-dark-text dark:text-light-text">{notification.symbol} ({notification.timeframe})</p>
+                <div className="flex-grow min-w-0">
+                    <p className="flex justify-between gap-2 font-bold text-sm text-dark-text dark:text-light-text">
+                        {notification.symbol} ({notification.timeframe})
+                        <time dateTime={new Date(notification.timestamp).toISOString()} title={new Date(notification.timestamp).toLocaleString()} className="flex-shrink-0 text-xs font-normal text-medium-text-light dark:text-medium-text">
+                            {formatTimeAgo(notification.timestamp)}
+                        </time>
+                    </p>
                     <p className="text-xs text-medium-text-light dark:text-medium-text">
-                        {isOverbought ? 'Overbought' : 'Oversold'} at {notification.rsi.toFixed(2)}
+                        {describeNotification(notification)}
                     </p>
                 </div>
+                <SnoozeMenu
+                    symbol={notification.symbol}
+                    timeframe={notification.timeframe}
+                    mute={mute}
+                    onSnooze={onSnooze}
+                    onUnmute={onUnmute}
+                    className="mt-1 text-xs text-medium-text-light dark:text-medium-text hover:text-amber-500"
+                />
             </div>
         </div>
     );
@@ -31,9 +59,13 @@ interface NotificationPanelProps {
     isOpen: boolean;
     notifications: Notification[];
     onClear: () => void;
+    onOpenHistory: () => void;
+    mutes: Record<string, AlertMute>;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
 }
 
-const NotificationPanel: React.FC<NotificationPanelProps> = ({ isOpen, notifications, onClear }) => {
+const NotificationPanel: React.FC<NotificationPanelProps> = ({ isOpen, notifications, onClear, onOpenHistory, mutes, onSnooze, onUnmute }) => {
     if (!isOpen) return null;
 
     return (
@@ -56,10 +88,19 @@ const NotificationPanel: React.FC<NotificationPanelProps> = ({ isOpen, notificat
                     </div>
                 ) : (
                     <div>
-                        {notifications.map(n => <NotificationItem key={n.id} notification={n} />)}
+                        {notifications.map(n => (
+                            <NotificationItem key={n.id} notification={n} mute={mutes[n.symbol]} onSnooze={onSnooze} onUnmute={onUnmute} />
+                        ))}
                     </div>
                 )}
             </div>
+            <button
+                onClick={onOpenHistory}
+                className="p-3 text-xs font-semibold text-primary-light dark:text-primary border-t border-light-border dark:border-dark-border hover:bg-light-border/50 dark:hover:bg-dark-border/50 transition-colors"
+            >
+                <i className="fa-solid fa-clock-rotate-left mr-2"></i>
+                View History
+            </button>
         </div>
     );
 };
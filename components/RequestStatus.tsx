@@ -0,0 +1,55 @@
+import React, { useState, useEffect, memo } from 'react';
+import type { RequestScheduler, RequestStats } from '../types';
+import type { StreamStatus } from '../services/klineStream';
+
+interface RequestStatusProps {
+    scheduler: RequestScheduler;
+    streamStatus: StreamStatus;
+}
+
+const STREAM_LABELS: Record<StreamStatus, { label: string; dotClass: string }> = {
+    open: { label: 'Live', dotClass: 'bg-green-500' },
+    connecting: { label: 'Connecting', dotClass: 'bg-gray-400 animate-pulse' },
+    closed: { label: 'Polling', dotClass: 'bg-amber-500' },
+};
+
+const RequestStatus: React.FC<RequestStatusProps> = ({ scheduler, streamStatus }) => {
+    const [stats, setStats] = useState<RequestStats>(() => scheduler.getStats());
+
+    useEffect(() => {
+        setStats(scheduler.getStats());
+        return scheduler.subscribe(setStats);
+    }, [scheduler]);
+
+    const weightPercent = Math.min(100, (stats.usedWeight / stats.weightLimit) * 100);
+    const weightBarClass = weightPercent > 80 ? 'bg-red-500' : weightPercent > 50 ? 'bg-amber-500' : 'bg-primary-light dark:bg-primary';
+    const isBackingOff = stats.backoffUntil !== null;
+    const { label, dotClass } = STREAM_LABELS[streamStatus];
+
+    return (
+        <div className="mr-auto flex items-center gap-4 px-3 py-2 text-xs rounded-lg bg-light-card dark:bg-dark-card border border-light-border dark:border-dark-border text-medium-text-light dark:text-medium-text">
+            <span className="flex items-center gap-2 font-semibold" title="Live stream status">
+                <span className={`w-2 h-2 rounded-full ${dotClass}`}></span>
+                {label}
+            </span>
+            <span title="Requests waiting / in flight">
+                <i className="fa-solid fa-layer-group mr-1"></i>
+                {stats.queued} / {stats.inFlight}
+            </span>
+            <span className="flex items-center gap-2" title={`Request weight used this minute: ${stats.usedWeight} / ${stats.weightLimit}`}>
+                <span className="w-16 h-1.5 rounded-full bg-light-border dark:bg-dark-border overflow-hidden">
+                    <span className={`block h-full ${weightBarClass}`} style={{ width: `${weightPercent}%` }}></span>
+                </span>
+                <span className="font-mono">{stats.usedWeight}</span>
+            </span>
+            {isBackingOff && (
+                <span className="text-red-500 font-semibold" title="Rate limited by the exchange; requests are paused">
+                    <i className="fa-solid fa-hourglass-half mr-1"></i>
+                    Rate limited
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default memo(RequestStatus);
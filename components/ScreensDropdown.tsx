@@ -0,0 +1,91 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { SavedScreen } from '../types';
+
+interface ScreensDropdownProps {
+    screens: SavedScreen[];
+    activeExpression: string;
+    onSelectScreen: (screen: SavedScreen) => void;
+    onDeleteScreen: (id: string) => void;
+}
+
+const ScreensDropdown: React.FC<ScreensDropdownProps> = ({ screens, activeExpression, onSelectScreen, onDeleteScreen }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    const handleSelect = (screen: SavedScreen) => {
+        onSelectScreen(screen);
+        setIsOpen(false);
+    };
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    return (
+        <div ref={dropdownRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="bg-light-bg dark:bg-dark-bg rounded-lg p-2 w-[42px] h-[42px] flex items-center justify-center border border-light-border dark:border-dark-border shadow-sm hover:bg-light-border dark:hover:bg-dark-border transition"
+                aria-haspopup="true"
+                aria-expanded={isOpen}
+                aria-label="Saved screens"
+                title="Saved screens"
+            >
+                <i className="fa-solid fa-filter text-primary-light dark:text-primary text-[20px]"></i>
+            </button>
+
+            {isOpen && (
+                <div
+                    className="absolute top-full right-0 mt-2 w-64 bg-light-card/95 dark:bg-dark-bg/95 backdrop-blur-lg border border-light-border/50 dark:border-dark-border/50 rounded-xl shadow-2xl p-2 z-50 origin-top animate-dropdown-in"
+                    role="menu"
+                    aria-orientation="vertical"
+                >
+                    {screens.length === 0 ? (
+                        <p className="p-2 text-sm text-medium-text-light dark:text-medium-text">
+                            No saved screens yet. Type a filter and save it with <i className="fa-solid fa-floppy-disk"></i>.
+                        </p>
+                    ) : (
+                        screens.map(screen => (
+                            <div
+                                key={screen.id}
+                                className={`flex items-center gap-2 rounded-md transition-colors ${
+                                    activeExpression === screen.expression
+                                        ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg'
+                                        : 'text-dark-text dark:text-light-text hover:bg-light-border dark:hover:bg-dark-border'
+                                }`}
+                            >
+                                <button
+                                    onClick={() => handleSelect(screen)}
+                                    className="flex-grow min-w-0 text-left p-2"
+                                    role="menuitem"
+                                    title={screen.expression}
+                                >
+                                    <span className="block font-semibold text-sm truncate">{screen.name}</span>
+                                    <span className="block font-mono text-xs opacity-70 truncate">{screen.expression}</span>
+                                </button>
+                                <button
+                                    onClick={() => onDeleteScreen(screen.id)}
+                                    className="p-2 opacity-60 hover:opacity-100 transition-opacity"
+                                    aria-label={`Delete screen ${screen.name}`}
+                                >
+                                    <i className="fa-solid fa-trash-can text-xs"></i>
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScreensDropdown;
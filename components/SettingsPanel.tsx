@@ -1,16 +1,32 @@
 
 import React from 'react';
+import type { ProviderId } from '../types';
+import { PROVIDERS } from '../services/providers';
+import type { DesktopPermission } from '../services/alertDelivery';
 
 interface SettingsPanelProps {
     isOpen: boolean;
     onClose: () => void;
     onOpenAssetModal: () => void;
     onOpenThemeModal: () => void;
+    onOpenIndicatorModal: () => void;
+    onOpenConfluenceModal: () => void;
+    onOpenAlertRulesModal: () => void;
+    onOpenAlertDeliveryModal: () => void;
+    onOpenWebhooksModal: () => void;
+    onOpenMutesModal: () => void;
+    /** Number of muted or snoozed symbols. */
+    mutedCount: number;
+    desktopNotificationsEnabled: boolean;
+    desktopPermission: DesktopPermission;
+    onDesktopNotificationsToggle: () => void;
     onReset: () => void;
     areAlertsEnabled: boolean;
     onAlertsToggle: () => void;
     showColoredBorders: boolean;
     onColoredBordersToggle: () => void;
+    providerId: ProviderId;
+    onProviderChange: (id: ProviderId) => void;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -18,11 +34,23 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onClose,
     onOpenAssetModal,
     onOpenThemeModal,
+    onOpenIndicatorModal,
+    onOpenConfluenceModal,
+    onOpenAlertRulesModal,
+    onOpenAlertDeliveryModal,
+    onOpenWebhooksModal,
+    onOpenMutesModal,
+    mutedCount,
+    desktopNotificationsEnabled,
+    desktopPermission,
+    onDesktopNotificationsToggle,
     onReset,
     areAlertsEnabled,
     onAlertsToggle,
     showColoredBorders,
     onColoredBordersToggle,
+    providerId,
+    onProviderChange,
 }) => {
     
     if (!isOpen) {
@@ -51,6 +79,23 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 
                 {/* Main Content (menu) */}
                 <div className="flex-grow p-4 space-y-6 overflow-y-auto custom-scrollbar">
+                    {/* Data Source Section */}
+                    <div>
+                        <h4 className="px-3 pb-2 font-semibold text-medium-text-light dark:text-medium-text uppercase tracking-wider text-sm">Data Source</h4>
+                        <div className="p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80">
+                            <label htmlFor="provider-select" className="block font-semibold text-dark-text dark:text-light-text mb-2">Market</label>
+                            <select
+                                id="provider-select"
+                                value={providerId}
+                                onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+                                className="w-full h-10 rounded-lg bg-light-card dark:bg-dark-card px-3 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary"
+                            >
+                                {PROVIDERS.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
                     {/* Customization Section */}
                     <div>
                         <h4 className="px-3 pb-2 font-semibold text-medium-text-light dark:text-medium-text uppercase tracking-wider text-sm">Customization</h4>
@@ -73,6 +118,24 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                                     <span className="font-semibold">Theme & Appearance</span>
                                 </button>
                             </li>
+                            <li>
+                                <button
+                                    onClick={() => { onOpenIndicatorModal(); onClose(); }}
+                                    className="w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                                >
+                                    <i className="fa-solid fa-sliders w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                                    <span className="font-semibold">Indicator Settings</span>
+                                </button>
+                            </li>
+                            <li>
+                                <button
+                                    onClick={() => { onOpenConfluenceModal(); onClose(); }}
+                                    className="w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                                >
+                                    <i className="fa-solid fa-layer-group w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                                    <span className="font-semibold">Confluence Score</span>
+                                </button>
+                            </li>
                             <li className="p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 flex items-center justify-between">
                                 <label htmlFor="colored-borders-toggle" className="font-semibold cursor-pointer pr-4 text-dark-text dark:text-light-text flex-grow">
                                     Colored Cell Borders
@@ -109,6 +172,58 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                                 <div className="w-11 h-6 bg-light-border peer-focus:outline-none rounded-full peer dark:bg-dark-border peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white dark:after:bg-dark-card after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-light dark:peer-checked:bg-primary"></div>
                             </div>
                         </div>
+                        <div className="mt-2 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 flex items-center justify-between">
+                            <label htmlFor="desktop-notifications-toggle" className="font-semibold cursor-pointer pr-4 text-dark-text dark:text-light-text flex-grow">
+                                Desktop Notifications
+                                <span className="block text-xs font-normal text-medium-text-light dark:text-medium-text">
+                                    {desktopPermission === 'unsupported'
+                                        ? 'Not supported by this browser.'
+                                        : desktopPermission === 'denied'
+                                            ? 'Blocked. Allow notifications for this site in your browser settings.'
+                                            : 'Shown while the tab is in the background.'}
+                                </span>
+                            </label>
+                            <div className="relative">
+                                <input
+                                    type="checkbox"
+                                    id="desktop-notifications-toggle"
+                                    className="sr-only peer"
+                                    checked={desktopNotificationsEnabled && desktopPermission === 'granted'}
+                                    disabled={desktopPermission === 'unsupported' || desktopPermission === 'denied'}
+                                    onChange={onDesktopNotificationsToggle}
+                                />
+                                <div className="w-11 h-6 bg-light-border peer-focus:outline-none rounded-full peer dark:bg-dark-border peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white dark:after:bg-dark-card after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-light dark:peer-checked:bg-primary peer-disabled:opacity-40"></div>
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => { onOpenAlertDeliveryModal(); onClose(); }}
+                            className="mt-2 w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                        >
+                            <i className="fa-solid fa-volume-high w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                            <span className="font-semibold">Sounds & Quiet Hours</span>
+                        </button>
+                        <button
+                            onClick={() => { onOpenAlertRulesModal(); onClose(); }}
+                            className="mt-2 w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                        >
+                            <i className="fa-solid fa-bell w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                            <span className="font-semibold">Alert Rules</span>
+                        </button>
+                        <button
+                            onClick={() => { onOpenWebhooksModal(); onClose(); }}
+                            className="mt-2 w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                        >
+                            <i className="fa-solid fa-paper-plane w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                            <span className="font-semibold">Webhooks</span>
+                        </button>
+                        <button
+                            onClick={() => { onOpenMutesModal(); onClose(); }}
+                            className="mt-2 w-full text-left p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition-colors flex items-center gap-4"
+                        >
+                            <i className="fa-solid fa-bell-slash w-5 text-center text-lg text-primary-light dark:text-primary"></i>
+                            <span className="font-semibold">Muted Symbols</span>
+                            {mutedCount > 0 && <span className="ml-auto text-xs font-semibold text-amber-500">{mutedCount}</span>}
+                        </button>
                     </div>
                 </div>
 
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { createPortal } from 'react-dom';
+import type { AlertMute, SnoozeOption, Timeframe } from '../types';
+import { SNOOZE_OPTIONS } from '../constants';
+import { describeMute, isMuteActive } from '../services/alertMutes';
+
+interface SnoozeMenuProps {
+    symbol: string;
+    /** Timeframe whose candle close ends a 'candle' snooze. */
+    timeframe: Timeframe;
+    mute?: AlertMute;
+    onSnooze: (symbol: string, timeframe: Timeframe, option: SnoozeOption) => void;
+    onUnmute: (symbol: string) => void;
+    /** Extra classes for the trigger button, e.g. to only show it on hover while not muted. */
+    className?: string;
+}
+
+const MENU_WIDTH = 208;
+
+/**
+ * Bell button that opens the mute and snooze options for a symbol. The menu is portalled to the body so
+ * cells, toasts and the notification panel don't clip it, and clicks inside it don't reach the element
+ * the button sits on.
+ */
+const SnoozeMenu: React.FC<SnoozeMenuProps> = ({ symbol, timeframe, mute, onSnooze, onUnmute, className = '' }) => {
+    const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const isMuted = isMuteActive(mute);
+
+    useEffect(() => {
+        if (!position) return;
+        const close = () => setPosition(null);
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') close();
+        };
+        document.addEventListener('mousedown', close);
+        document.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('scroll', close, true);
+        window.addEventListener('resize', close);
+        return () => {
+            document.removeEventListener('mousedown', close);
+            document.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('scroll', close, true);
+            window.removeEventListener('resize', close);
+        };
+    }, [position]);
+
+    const handleToggle = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (position || !buttonRef.current) {
+            setPosition(null);
+            return;
+        }
+        const rect = buttonRef.current.getBoundingClientRect();
+        setPosition({
+            top: rect.bottom + 4,
+            left: Math.max(8, Math.min(window.innerWidth - MENU_WIDTH - 8, rect.right - MENU_WIDTH)),
+        });
+    };
+
+    const handleSelect = (e: React.MouseEvent, action: () => void) => {
+        e.stopPropagation();
+        action();
+        setPosition(null);
+    };
+
+    const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+    return (
+        <>
+            <button
+                ref={buttonRef}
+                onClick={handleToggle}
+                onMouseDown={stopPropagation}
+                className={`z-10 transition-colors ${isMuted ? 'text-amber-500 opacity-100' : className}`}
+                aria-label={isMuted ? `${symbol} alerts ${describeMute(mute!).toLowerCase()}` : `Mute or snooze ${symbol} alerts`}
+                aria-haspopup="menu"
+                aria-expanded={position !== null}
+                title={isMuted ? describeMute(mute!) : 'Mute or snooze alerts'}
+            >
+                <i className={`fa-solid ${isMuted ? 'fa-bell-slash' : 'fa-bell'}`}></i>
+            </button>
+            {position && createPortal(
+                <div
+                    role="menu"
+                    onMouseDown={stopPropagation}
+                    onClick={stopPropagation}
+                    className="fixed z-[110] py-1 bg-light-bg dark:bg-dark-bg border border-light-border dark:border-dark-border rounded-lg shadow-2xl text-sm text-dark-text dark:text-light-text animate-fadeIn"
+                    style={{ top: position.top, left: position.left, width: MENU_WIDTH }}
+                >
+                    <p className="px-3 py-1.5 text-xs font-semibold text-medium-text-light dark:text-medium-text truncate">
+                        {isMuted ? `${symbol} · ${describeMute(mute!)}` : `${symbol} alerts`}
+                    </p>
+                    {SNOOZE_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            role="menuitem"
+                            onClick={(e) => handleSelect(e, () => onSnooze(symbol, timeframe, option.value))}
+                            className="w-full text-left px-3 py-1.5 hover:bg-light-border dark:hover:bg-dark-border transition-colors"
+                        >
+                            {option.value === 'candle' ? `Snooze until ${timeframe} candle close` : option.label}
+                        </button>
+                    ))}
+                    {isMuted && (
+                        <button
+                            role="menuitem"
+                            onClick={(e) => handleSelect(e, () => onUnmute(symbol))}
+                            className="w-full text-left px-3 py-1.5 font-semibold text-primary-light dark:text-primary hover:bg-light-border dark:hover:bg-dark-border transition-colors"
+                        >
+                            {mute?.until === null ? 'Unmute' : 'End snooze'}
+                        </button>
+                    )}
+                </div>,
+                document.body,
+            )}
+        </>
+    );
+};
+
+export default memo(SnoozeMenu);
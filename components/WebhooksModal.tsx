@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookMethod, WebhookPreset, WebhookTarget } from '../types';
+import { WEBHOOK_METHODS, WEBHOOK_PRESETS, WEBHOOK_TEMPLATE_VARIABLES, NEW_WEBHOOK_TARGET, formatTimeAgo } from '../constants';
+import { validateWebhookTemplate, type WebhookDispatcher } from '../services/webhooks';
+
+interface WebhooksModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    targets: WebhookTarget[];
+    onTargetsChange: (targets: WebhookTarget[]) => void;
+    dispatcher: WebhookDispatcher;
+}
+
+type WebhooksView = 'targets' | 'log';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+    pending: { label: 'Retrying', className: 'bg-amber-500/20 text-amber-500' },
+    delivered: { label: 'Delivered', className: 'bg-green-500/20 text-green-500' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-500' },
+};
+
+const selectClassName = 'h-10 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 px-3 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+const inputClassName = 'h-10 px-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-dark-text dark:text-light-text outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary';
+
+const isValidUrl = (url: string) => {
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const WebhooksModal: React.FC<WebhooksModalProps> = ({ isOpen, onClose, targets, onTargetsChange, dispatcher }) => {
+    const [view, setView] = useState<WebhooksView>('targets');
+    const [draft, setDraft] = useState<WebhookTarget | null>(null);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>(() => dispatcher.getDeliveries());
+    const [testResult, setTestResult] = useState<WebhookDelivery | 'sending' | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) setDraft(null);
+    }, [isOpen]);
+
+    useEffect(() => {
+        setDeliveries(dispatcher.getDeliveries());
+        return dispatcher.subscribe(setDeliveries);
+    }, [dispatcher]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleEdit = (target: WebhookTarget) => {
+        setDraft(target);
+        setTestResult(null);
+    };
+
+    const handleAdd = () => {
+        setDraft({ ...NEW_WEBHOOK_TARGET, id: `${Date.now()}` });
+        setTestResult(null);
+    };
+
+    const handleToggleEnabled = (id: string) => {
+        onTargetsChange(targets.map(target => (target.id === id ? { ...target, enabled: !target.enabled } : target)));
+    };
+
+    const handleDelete = (target: WebhookTarget) => {
+        if (window.confirm(`Delete the webhook "${target.name}"?`)) {
+            onTargetsChange(targets.filter(t => t.id !== target.id));
+        }
+    };
+
+    const updateDraft = (changes: Partial<WebhookTarget>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+
+    const handleApplyPreset = (preset: WebhookPreset) => {
+        updateDraft({ url: WEBHOOK_PRESETS[preset].url, bodyTemplate: WEBHOOK_PRESETS[preset].bodyTemplate });
+    };
+
+    const updateHeader = (index: number, changes: Partial<WebhookTarget['headers'][number]>) => {
+        setDraft(prev => (prev ? { ...prev, headers: prev.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)) } : prev));
+    };
+
+    const templateError = draft ? validateWebhookTemplate(draft.bodyTemplate) : null;
+    const draftError = !draft
+        ? null
+        : draft.name.trim() === ''
+            ? 'Give the webhook a name.'
+            : !isValidUrl(draft.url.trim())
+                ? 'Enter an http(s) URL.'
+                : templateError
+                    ? 'The body is not valid JSON.'
+                    : null;
+
+    const toSaved = (target: WebhookTarget): WebhookTarget => ({
+        ...target,
+        name: target.name.trim(),
+        url: target.url.trim(),
+        headers: target.headers.filter(header => header.name.trim() !== ''),
+    });
+
+    const handleTest = async () => {
+        if (!draft || draftError) return;
+        setTestResult('sending');
+        setTestResult(await dispatcher.sendTest(toSaved(draft)));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || draftError) return;
+        const saved = toSaved(draft);
+        const exists = targets.some(target => target.id === saved.id);
+        onTargetsChange(exists ? targets.map(target => (target.id === saved.id ? saved : target)) : [...targets, saved]);
+        setDraft(null);
+    };
+
+    const finishedCount = deliveries.filter(delivery => delivery.status !== 'pending').length;
+
+    return (
+        <div className="fixed inset-0 bg-dark-bg/80 dark:bg-dark-bg/90 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn">
+            <div className="bg-light-card/80 dark:bg-dark-card/80 backdrop-blur-lg rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col border border-light-border/50 dark:border-dark-border/50">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-light-border dark:border-dark-border">
+                    <h2 className="text-xl font-bold text-dark-text dark:text-light-text">{draft ? (targets.some(target => target.id === draft.id) ? 'Edit Webhook' : 'New Webhook') : 'Webhooks'}</h2>
+                    <button onClick={onClose} className="text-2xl text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Close webhooks">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {draft ? (
+                    <form onSubmit={handleSave} className="flex flex-col min-h-0">
+                        {/* Editor */}
+                        <div className="p-6 space-y-4 overflow-y-auto">
+                            <div className="flex items-center justify-between gap-4">
+                                <span className="font-semibold text-dark-text dark:text-light-text">Preset</span>
+                                <div className="flex gap-1">
+                                    {(Object.keys(WEBHOOK_PRESETS) as WebhookPreset[]).map(preset => (
+                                        <button
+                                            type="button"
+                                            key={preset}
+                                            onClick={() => handleApplyPreset(preset)}
+                                            className="px-2.5 py-1 text-sm font-semibold rounded-md border bg-light-bg/80 dark:bg-dark-bg/80 text-medium-text-light dark:text-medium-text border-light-border dark:border-dark-border hover:bg-light-border dark:hover:bg-dark-border transition"
+                                        >
+                                            {WEBHOOK_PRESETS[preset].label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="webhook-name" className="font-semibold text-dark-text dark:text-light-text">Name</label>
+                                <input
+                                    id="webhook-name"
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => updateDraft({ name: e.target.value })}
+                                    placeholder="e.g. Team Discord"
+                                    autoFocus
+                                    className={`${inputClassName} w-[60%]`}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={draft.method}
+                                    onChange={(e) => updateDraft({ method: e.target.value as WebhookMethod })}
+                                    className={selectClassName}
+                                    aria-label="HTTP method"
+                                >
+                                    {WEBHOOK_METHODS.map(method => (
+                                        <option key={method} value={method}>{method}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="url"
+                                    value={draft.url}
+                                    onChange={(e) => updateDraft({ url: e.target.value })}
+                                    placeholder="https://example.com/webhook"
+                                    className={`${inputClassName} flex-grow min-w-0 font-mono text-sm`}
+                                    aria-label="URL"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-semibold text-dark-text dark:text-light-text">Headers</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => updateDraft({ headers: [...draft.headers, { name: '', value: '' }] })}
+                                        className="text-sm font-semibold text-primary-light dark:text-primary hover:opacity-80"
+                                    >
+                                        <i className="fa-solid fa-plus mr-1"></i>
+                                        Add
+                                    </button>
+                                </div>
+                                {draft.headers.map((header, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            value={header.name}
+                                            onChange={(e) => updateHeader(index, { name: e.target.value })}
+                                            placeholder="Name"
+                                            className={`${inputClassName} w-2/5 font-mono text-sm`}
+                                            aria-label="Header name"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={header.value}
+                                            onChange={(e) => updateHeader(index, { value: e.target.value })}
+                                            placeholder="Value"
+                                            className={`${inputClassName} flex-grow min-w-0 font-mono text-sm`}
+                                            aria-label="Header value"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => updateDraft({ headers: draft.headers.filter((_, i) => i !== index) })}
+                                            className="p-2 text-medium-text-light dark:text-medium-text hover:text-red-500 transition-colors"
+                                            aria-label="Remove header"
+                                        >
+                                            <i className="fa-solid fa-xmark"></i>
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="space-y-2">
+                                <label htmlFor="webhook-body" className="font-semibold text-dark-text dark:text-light-text">Body</label>
+                                <textarea
+                                    id="webhook-body"
+                                    value={draft.bodyTemplate}
+                                    onChange={(e) => updateDraft({ bodyTemplate: e.target.value })}
+                                    rows={9}
+                                    spellCheck={false}
+                                    className="w-full p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 text-dark-text dark:text-light-text font-mono text-xs outline-none border border-light-border dark:border-dark-border focus:ring-2 focus:ring-primary-light dark:focus:ring-primary"
+                                />
+                                {templateError && <p className="text-xs text-red-500">{templateError}</p>}
+                                <p className="text-xs text-medium-text-light dark:text-medium-text">
+                                    {WEBHOOK_TEMPLATE_VARIABLES.map(variable => (
+                                        <code key={variable.name} title={variable.description} className="mr-2 font-mono">{`{{${variable.name}}}`}</code>
+                                    ))}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <button
+                                    type="button"
+                                    onClick={handleTest}
+                                    disabled={draftError !== null || testResult === 'sending'}
+                                    className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                                >
+                                    <i className="fa-solid fa-paper-plane mr-2"></i>
+                                    Send Test
+                                </button>
+                                {testResult === 'sending' && <span className="text-sm text-medium-text-light dark:text-medium-text">Sending…</span>}
+                                {testResult && testResult !== 'sending' && (
+                                    <span className={`text-sm ${testResult.status === 'delivered' ? 'text-green-500' : 'text-red-500'}`}>
+                                        {testResult.status === 'delivered' ? `Delivered (${testResult.statusCode})` : testResult.error}
+                                    </span>
+                                )}
+                            </div>
+                            <p className="text-xs text-medium-text-light dark:text-medium-text">The endpoint must accept cross-origin requests from this page.</p>
+                        </div>
+
+                        {/* Footer */}
+                        <div className="flex justify-between items-center gap-4 p-4 border-t border-light-border dark:border-dark-border">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition"
+                            >
+                                Cancel
+                            </button>
+                            {draftError && <span className="text-xs text-red-500">{draftError}</span>}
+                            <button
+                                type="submit"
+                                disabled={draftError !== null}
+                                className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        <div className="flex gap-1 px-4 pt-4">
+                            {(['targets', 'log'] as WebhooksView[]).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`px-3 py-1.5 text-sm font-semibold rounded-md transition ${
+                                        view === option
+                                            ? 'bg-primary-light dark:bg-primary text-white dark:text-dark-bg'
+                                            : 'text-medium-text-light dark:text-medium-text hover:bg-light-border dark:hover:bg-dark-border'
+                                    }`}
+                                    aria-pressed={view === option}
+                                >
+                                    {option === 'targets' ? 'Targets' : `Delivery Log (${deliveries.length})`}
+                                </button>
+                            ))}
+                        </div>
+
+                        {view === 'targets' ? (
+                            <>
+                                {/* Target list */}
+                                <div className="p-4 space-y-2 overflow-y-auto">
+                                    {targets.length === 0 && (
+                                        <p className="p-2 text-sm text-medium-text-light dark:text-medium-text">No webhooks. Add one to send alerts to a chat or another service.</p>
+                                    )}
+                                    {targets.map(target => (
+                                        <div key={target.id} className={`flex items-center gap-3 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80 ${target.enabled ? '' : 'opacity-60'}`}>
+                                            <input
+                                                type="checkbox"
+                                                checked={target.enabled}
+                                                onChange={() => handleToggleEnabled(target.id)}
+                                                className="w-4 h-4 accent-primary-light dark:accent-primary"
+                                                aria-label={`Enable ${target.name}`}
+                                            />
+                                            <div className="flex-grow min-w-0">
+                                                <p className="font-semibold text-sm text-dark-text dark:text-light-text truncate">{target.name}</p>
+                                                <p className="text-xs font-mono text-medium-text-light dark:text-medium-text truncate">{target.method} {target.url}</p>
+                                            </div>
+                                            <button onClick={() => handleEdit(target)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label={`Edit ${target.name}`}>
+                                                <i className="fa-solid fa-pen text-sm"></i>
+                                            </button>
+                                            <button onClick={() => handleDelete(target)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-red-500 transition-colors" aria-label={`Delete ${target.name}`}>
+                                                <i className="fa-solid fa-trash-can text-sm"></i>
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {/* Footer */}
+                                <div className="flex justify-end items-center p-4 border-t border-light-border dark:border-dark-border">
+                                    <button onClick={handleAdd} className="px-6 py-2 font-bold text-white dark:text-dark-bg bg-primary-light dark:bg-primary rounded-lg hover:opacity-90 transition-opacity flex items-center gap-2">
+                                        <i className="fa-solid fa-plus"></i>
+                                        Add Webhook
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                {/* Delivery log */}
+                                <div className="p-4 space-y-2 overflow-y-auto">
+                                    {deliveries.length === 0 && (
+                                        <p className="p-2 text-sm text-medium-text-light dark:text-medium-text">Nothing sent yet.</p>
+                                    )}
+                                    {deliveries.map(delivery => (
+                                        <div key={delivery.id} className="flex items-center gap-3 p-3 rounded-lg bg-light-bg/80 dark:bg-dark-bg/80">
+                                            <div className="flex-grow min-w-0">
+                                                <p className="flex items-center gap-2 text-sm text-dark-text dark:text-light-text">
+                                                    <span className={`px-1.5 py-0.5 text-xs font-semibold rounded ${STATUS_STYLES[delivery.status].className}`}>
+                                                        {STATUS_STYLES[delivery.status].label}
+                                                    </span>
+                                                    <span className="font-mono text-xs" title="HTTP status">{delivery.statusCode ?? '—'}</span>
+                                                    <span className="font-semibold truncate">{delivery.targetName}</span>
+                                                </p>
+                                                <p className="text-xs text-medium-text-light dark:text-medium-text truncate" title={delivery.summary}>{delivery.summary}</p>
+                                                <p className="text-xs text-medium-text-light dark:text-medium-text">
+                                                    {formatTimeAgo(delivery.updatedAt)} · {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                                                    {delivery.error && ` · ${delivery.error}`}
+                                                    {delivery.status === 'pending' && delivery.nextAttemptAt !== null && delivery.attempts > 0 && ` · next in ${Math.max(0, Math.round((delivery.nextAttemptAt - Date.now()) / 1000))}s`}
+                                                </p>
+                                            </div>
+                                            {delivery.status === 'failed' && (
+                                                <button onClick={() => dispatcher.retry(delivery.id)} className="p-2 text-medium-text-light dark:text-medium-text hover:text-dark-text dark:hover:text-light-text transition-colors" aria-label="Retry delivery" title="Retry">
+                                                    <i className="fa-solid fa-rotate-right text-sm"></i>
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {/* Footer */}
+                                <div className="flex justify-end items-center p-4 border-t border-light-border dark:border-dark-border">
+                                    <button
+                                        onClick={() => dispatcher.clearLog()}
+                                        disabled={finishedCount === 0}
+                                        className="px-3 py-2 text-sm font-semibold rounded-md bg-light-bg/80 dark:bg-dark-bg/80 hover:bg-light-border dark:hover:bg-dark-border transition disabled:opacity-40"
+                                    >
+                                        Clear Log
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default WebhooksModal;
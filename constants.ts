@@ -1,5 +1,5 @@
 
-import type { Timeframe, Settings } from './types';
+import type { Timeframe, ThemeSettings, IndicatorSettings, IndicatorMode, ConfluenceSettings, DivergenceType, AlertRule, AlertConditionType, AlertSeverity, AlertRuleScope, AlertSound, AlertDeliverySettings, SnoozeOption, WebhookMethod, WebhookPreset, WebhookTarget, PriceSource, RsiSmoothing, SignalLineType } from './types';
 
 // Original list with duplicates
 const RAW_SYMBOLS: string[] = [
@@ -152,7 +152,31 @@ export const TIMEFRAMES: { value: Timeframe; label: string }[] = [
     { value: '1w', label: '1w' },
 ];
 
-export const DARK_THEME_SETTINGS: Settings = {
+// Columns shown the first time the matrix view is opened
+export const DEFAULT_MATRIX_TIMEFRAMES: Timeframe[] = ['15m', '1h', '4h', '1d'];
+
+// Candles the detail chart loads and shows when opened; panning left loads more
+export const CHART_LOOKBACKS: number[] = [80, 200, 500, 1000];
+export const DEFAULT_CHART_LOOKBACK = 80;
+
+const MINUTE = 60 * 1000;
+
+export const TIMEFRAME_DURATIONS: Record<Timeframe, number> = {
+    '1m': MINUTE,
+    '3m': 3 * MINUTE,
+    '5m': 5 * MINUTE,
+    '15m': 15 * MINUTE,
+    '30m': 30 * MINUTE,
+    '1h': 60 * MINUTE,
+    '2h': 120 * MINUTE,
+    '4h': 240 * MINUTE,
+    '8h': 480 * MINUTE,
+    '1d': 1440 * MINUTE,
+    '3d': 3 * 1440 * MINUTE,
+    '1w': 7 * 1440 * MINUTE,
+};
+
+export const DARK_THEME_SETTINGS: ThemeSettings = {
     bgColor: '#181c24',
     textColor: '#e5e9f2',
     cellBgColor: '#232a36',
@@ -162,7 +186,7 @@ export const DARK_THEME_SETTINGS: Settings = {
     lineWidth: 2,
 };
 
-export const LIGHT_THEME_SETTINGS: Settings = {
+export const LIGHT_THEME_SETTINGS: ThemeSettings = {
     bgColor: '#f0f2f5',
     textColor: '#181c24',
     cellBgColor: '#ffffff',
@@ -172,6 +196,212 @@ export const LIGHT_THEME_SETTINGS: Settings = {
     lineWidth: 2,
 };
 
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+    mode: 'rsi',
+    rsiLength: 14,
+    smaLength: 14,
+    priceSource: 'close',
+    rsiSmoothing: 'wilder',
+    signalType: 'sma',
+    bbMultiplier: 2,
+    stochLength: 14,
+    stochKSmoothing: 3,
+    stochDSmoothing: 3,
+};
+
+export const DEFAULT_CONFLUENCE_SETTINGS: ConfluenceSettings = {
+    enabled: false,
+    timeframes: ['15m', '1h', '4h'],
+    weights: { '15m': 1, '1h': 2, '4h': 3 },
+    alertThreshold: 75,
+};
+
+export const INDICATOR_MODES: { value: IndicatorMode; label: string }[] = [
+    { value: 'rsi', label: 'RSI' },
+    { value: 'stochRsi', label: 'Stoch RSI' },
+];
+
+// Overbought / oversold levels used for value colouring, chart guides and alerts.
+export const INDICATOR_LEVELS: Record<IndicatorMode, { overbought: number; oversold: number }> = {
+    rsi: { overbought: 70, oversold: 30 },
+    stochRsi: { overbought: 80, oversold: 20 },
+};
+
+export const ALERT_CONDITIONS: { value: AlertConditionType; label: string }[] = [
+    { value: 'above', label: 'Above level' },
+    { value: 'below', label: 'Below level' },
+    { value: 'cross-midline', label: 'Crosses 50' },
+    { value: 'cross-signal', label: 'Crosses signal line' },
+    { value: 'enter-zone', label: 'Enters zone' },
+    { value: 'exit-zone', label: 'Exits zone' },
+];
+
+export const ALERT_SCOPES: { value: AlertRuleScope; label: string }[] = [
+    { value: 'all', label: 'All symbols' },
+    { value: 'favorites', label: 'Favorites' },
+    { value: 'symbols', label: 'Specific symbols' },
+];
+
+export const ALERT_SEVERITIES: { value: AlertSeverity; label: string }[] = [
+    { value: 'info', label: 'Info' },
+    { value: 'warning', label: 'Warning' },
+    { value: 'critical', label: 'Critical' },
+];
+
+export const ALERT_SEVERITY_COLORS: Record<AlertSeverity, { bg: string; text: string }> = {
+    info: { bg: 'bg-sky-500', text: 'text-sky-500' },
+    warning: { bg: 'bg-amber-500', text: 'text-amber-500' },
+    critical: { bg: 'bg-red-500', text: 'text-red-500' },
+};
+
+export const ALERT_SOUNDS: { value: AlertSound; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'chime', label: 'Chime' },
+    { value: 'beep', label: 'Beep' },
+    { value: 'bell', label: 'Bell' },
+    { value: 'alarm', label: 'Alarm' },
+];
+
+export const DEFAULT_ALERT_DELIVERY_SETTINGS: AlertDeliverySettings = {
+    desktopEnabled: false,
+    typeSounds: { overbought: 'chime', oversold: 'chime', divergence: 'bell', confluence: 'bell' },
+    severitySounds: { info: 'none', warning: 'chime', critical: 'alarm' },
+    volume: 0.6,
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+    repeatCritical: false,
+    repeatIntervalSeconds: 30,
+};
+
+export const SNOOZE_OPTIONS: { value: SnoozeOption; label: string }[] = [
+    { value: '15m', label: 'Snooze 15 minutes' },
+    { value: '1h', label: 'Snooze 1 hour' },
+    { value: '4h', label: 'Snooze 4 hours' },
+    { value: 'candle', label: 'Snooze until candle close' },
+    { value: 'mute', label: 'Mute' },
+];
+
+export const WEBHOOK_METHODS: WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Placeholders available in webhook body templates, as {{name}}
+export const WEBHOOK_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+    { name: 'symbol', description: 'Symbol, e.g. BTCUSDT' },
+    { name: 'timeframe', description: 'Timeframe, e.g. 1h' },
+    { name: 'rsi', description: 'Indicator value, as a number' },
+    { name: 'indicator', description: 'RSI or Stoch RSI' },
+    { name: 'type', description: 'overbought, oversold, divergence, confluence or rule' },
+    { name: 'rule', description: 'Rule name, empty for built-in alerts' },
+    { name: 'severity', description: 'Rule severity, empty for built-in alerts' },
+    { name: 'message', description: 'One-line description of the alert' },
+    { name: 'timestamp', description: 'ISO 8601 time of the alert' },
+    { name: 'time', description: 'Epoch milliseconds, as a number' },
+];
+
+export const WEBHOOK_PRESETS: Record<WebhookPreset, { label: string; url: string; bodyTemplate: string }> = {
+    generic: {
+        label: 'Generic JSON',
+        url: 'http://localhost:8787/alerts',
+        bodyTemplate: `{
+  "symbol": "{{symbol}}",
+  "timeframe": "{{timeframe}}",
+  "rsi": {{rsi}},
+  "indicator": "{{indicator}}",
+  "type": "{{type}}",
+  "rule": "{{rule}}",
+  "severity": "{{severity}}",
+  "message": "{{message}}",
+  "timestamp": "{{timestamp}}"
+}`,
+    },
+    discord: {
+        label: 'Discord',
+        url: 'https://discord.com/api/webhooks/<id>/<token>',
+        bodyTemplate: `{
+  "username": "RSI Scanner",
+  "content": "**{{symbol}} {{timeframe}}** {{message}} ({{timestamp}})"
+}`,
+    },
+    telegram: {
+        label: 'Telegram',
+        url: 'https://api.telegram.org/bot<token>/sendMessage',
+        bodyTemplate: `{
+  "chat_id": "<chat id>",
+  "text": "{{symbol}} {{timeframe}}: {{message}} ({{timestamp}})"
+}`,
+    },
+};
+
+// Starting point for a target created in the webhooks editor
+export const NEW_WEBHOOK_TARGET: Omit<WebhookTarget, 'id'> = {
+    name: '',
+    enabled: true,
+    url: WEBHOOK_PRESETS.generic.url,
+    method: 'POST',
+    headers: [{ name: 'Content-Type', value: 'application/json' }],
+    bodyTemplate: WEBHOOK_PRESETS.generic.bodyTemplate,
+};
+
+// Starting point for a rule created in the rules editor
+export const NEW_ALERT_RULE: Omit<AlertRule, 'id'> = {
+    name: '',
+    enabled: true,
+    scope: 'all',
+    symbols: [],
+    timeframes: [],
+    condition: 'enter-zone',
+    level: 50,
+    zone: 'oversold',
+    direction: 'any',
+    cooldownMinutes: 15,
+    severity: 'warning',
+};
+
+// The scanner's original overbought/oversold alerts, expressed as rules
+const DEFAULT_ALERT_TIMEFRAMES: Timeframe[] = ['5m', '15m', '30m', '1h', '2h', '4h', '8h', '1d', '3d', '1w'];
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+    { ...NEW_ALERT_RULE, id: 'default-overbought', name: 'Overbought', timeframes: DEFAULT_ALERT_TIMEFRAMES, zone: 'overbought', cooldownMinutes: 0 },
+    { ...NEW_ALERT_RULE, id: 'default-oversold', name: 'Oversold', timeframes: DEFAULT_ALERT_TIMEFRAMES, zone: 'oversold', cooldownMinutes: 0 },
+];
+
+export const DIVERGENCE_LABELS: Record<DivergenceType, { label: string; short: string }> = {
+    'regular-bullish': { label: 'Bullish divergence', short: 'Bull Div' },
+    'regular-bearish': { label: 'Bearish divergence', short: 'Bear Div' },
+    'hidden-bullish': { label: 'Hidden bullish divergence', short: 'H. Bull' },
+    'hidden-bearish': { label: 'Hidden bearish divergence', short: 'H. Bear' },
+};
+
+export const getIndicatorLabel = (mode: IndicatorMode | undefined): string =>
+    mode === 'stochRsi' ? 'Stoch RSI' : 'RSI';
+
+export const RSI_SMOOTHINGS: { value: RsiSmoothing; label: string }[] = [
+    { value: 'wilder', label: 'Wilder' },
+    { value: 'cutler', label: 'Cutler (SMA)' },
+];
+
+export const SIGNAL_LINE_TYPES: { value: SignalLineType; label: string }[] = [
+    { value: 'sma', label: 'SMA' },
+    { value: 'ema', label: 'EMA' },
+    { value: 'wma', label: 'WMA' },
+    { value: 'bb', label: 'Bollinger Bands' },
+];
+
+export const PRICE_SOURCES: { value: PriceSource; label: string }[] = [
+    { value: 'close', label: 'Close' },
+    { value: 'open', label: 'Open' },
+    { value: 'high', label: 'High' },
+    { value: 'low', label: 'Low' },
+    { value: 'hl2', label: 'HL2 (high + low) / 2' },
+    { value: 'hlc3', label: 'HLC3 (high + low + close) / 3' },
+    { value: 'ohlc4', label: 'OHLC4 (open + high + low + close) / 4' },
+];
+
+export const getSignalLineLabel = (settings: IndicatorSettings): string => {
+    if (settings.mode === 'stochRsi') return `%D(${settings.stochDSmoothing})`;
+    const type = SIGNAL_LINE_TYPES.find(t => t.value === settings.signalType)?.label ?? 'SMA';
+    return settings.signalType === 'bb'
+        ? `BB(${settings.smaLength}, ${settings.bbMultiplier})`
+        : `${type}(${settings.smaLength})`;
+};
+
 export interface RsiColorInfo {
     bgColor: string;
     textColor: string;
@@ -202,3 +432,34 @@ export const getRsiColorInfo = (rsi: number | undefined): RsiColorInfo => {
     // Extreme Overbought (rsi > 80)
     return { bgColor: 'bg-rose-900', textColor: whiteText, isExtreme: true };
 };
+
+// Stoch RSI swings across the whole 0-100 range, so its bands are wider than plain RSI's.
+const getStochRsiColorInfo = (value: number): RsiColorInfo => {
+    const whiteText = 'text-white/95';
+    const darkText = 'text-black';
+
+    if (value < 5) return { bgColor: 'bg-green-900', textColor: whiteText, isExtreme: true };
+    if (value < 20) return { bgColor: 'bg-green-700', textColor: whiteText, isExtreme: false };
+    if (value < 40) return { bgColor: 'bg-green-500', textColor: darkText, isExtreme: false };
+    if (value < 50) return { bgColor: 'bg-green-400', textColor: darkText, isExtreme: false };
+    if (value < 51) return { bgColor: 'bg-purple-400', textColor: darkText, isExtreme: false };
+    if (value < 60) return { bgColor: 'bg-yellow-400', textColor: darkText, isExtreme: false };
+    if (value < 80) return { bgColor: 'bg-amber-600', textColor: whiteText, isExtreme: false };
+    if (value < 90) return { bgColor: 'bg-rose-500', textColor: whiteText, isExtreme: false };
+    if (value <= 95) return { bgColor: 'bg-rose-700', textColor: whiteText, isExtreme: false };
+    return { bgColor: 'bg-rose-900', textColor: whiteText, isExtreme: true };
+};
+
+export const getIndicatorColorInfo = (value: number | undefined, mode: IndicatorMode): RsiColorInfo => {
+    if (mode === 'stochRsi' && value !== undefined && value !== null) return getStochRsiColorInfo(value);
+    return getRsiColorInfo(value);
+};
+
+export const formatTimeAgo = (timestamp: number | null): string => {
+    if (timestamp === null) return 'never';
+    const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+    if (seconds < 60) return `${seconds}s ago`;
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m ago`;
+    return `${Math.round(minutes / 60)}h ago`;
+};
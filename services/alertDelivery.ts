@@ -0,0 +1,93 @@
+import type { AlertDeliverySettings, AlertSound, Notification as ScannerNotification } from '../types';
+import { DIVERGENCE_LABELS, getIndicatorLabel } from '../constants';
+import { formatConfluenceScore } from './confluence';
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+/**
+ * One-line description of an alert, as shown in the notification panel and desktop notifications.
+ */
+export const describeNotification = (notification: ScannerNotification): string => {
+    const label = getIndicatorLabel(notification.indicator);
+    const value = notification.rsi.toFixed(2);
+    switch (notification.type) {
+        case 'rule':
+            return `${notification.ruleName}: ${notification.ruleCondition} at ${value}`;
+        case 'divergence':
+            return notification.divergence
+                ? `${DIVERGENCE_LABELS[notification.divergence].label} on ${label} at ${value}`
+                : `Divergence on ${label} at ${value}`;
+        case 'confluence': {
+            const score = notification.score ?? 0;
+            return `${score > 0 ? 'Bullish' : 'Bearish'} ${label} confluence, score ${formatConfluenceScore(score)}`;
+        }
+        default:
+            return `${label} ${notification.type} at ${value}`;
+    }
+};
+
+export const getAlertSound = (notification: ScannerNotification, settings: AlertDeliverySettings): AlertSound =>
+    notification.type === 'rule'
+        ? settings.severitySounds[notification.severity ?? 'warning']
+        : settings.typeSounds[notification.type];
+
+/** Critical rule alerts keep sounding until acknowledged when `repeatCritical` is on. */
+export const needsAcknowledgement = (notification: ScannerNotification, settings: AlertDeliverySettings): boolean =>
+    settings.repeatCritical && notification.type === 'rule' && notification.severity === 'critical';
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Whether `date` falls in the quiet hours. The window may wrap past midnight, e.g. 22:00 to 07:00;
+ * identical start and end times mean no quiet hours.
+ */
+export const isWithinQuietHours = (quietHours: AlertDeliverySettings['quietHours'], date: Date = new Date()): boolean => {
+    if (!quietHours.enabled) return false;
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    const now = date.getHours() * 60 + date.getMinutes();
+    if (start === end) return false;
+    return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+export const getDesktopPermission = (): DesktopPermission =>
+    typeof window.Notification === 'undefined' ? 'unsupported' : window.Notification.permission;
+
+export const requestDesktopPermission = async (): Promise<DesktopPermission> => {
+    if (typeof window.Notification === 'undefined') return 'unsupported';
+    try {
+        return await window.Notification.requestPermission();
+    } catch (error) {
+        console.error('Failed to request notification permission', error);
+        return window.Notification.permission;
+    }
+};
+
+/**
+ * Shows a native notification if permission has been granted. Critical alerts awaiting acknowledgement
+ * stay on screen until clicked; clicking any notification focuses the scanner.
+ */
+export const showDesktopNotification = (
+    notification: ScannerNotification,
+    { requireInteraction = false, onClick }: { requireInteraction?: boolean; onClick?: () => void } = {},
+): void => {
+    if (getDesktopPermission() !== 'granted') return;
+    try {
+        const desktopNotification = new window.Notification(`${notification.symbol} (${notification.timeframe})`, {
+            body: describeNotification(notification),
+            tag: `${notification.id}`,
+            requireInteraction,
+        });
+        desktopNotification.onclick = () => {
+            window.focus();
+            desktopNotification.close();
+            onClick?.();
+        };
+    } catch (error) {
+        // Some mobile browsers expose the constructor but only allow notifications from a service worker
+        console.error('Failed to show desktop notification', error);
+    }
+};
@@ -0,0 +1,54 @@
+import type { AlertMute, SnoozeOption, Timeframe } from '../types';
+import { TIMEFRAME_DURATIONS } from '../constants';
+
+const MINUTE = 60 * 1000;
+const SNOOZE_DURATIONS: Record<Exclude<SnoozeOption, 'candle' | 'mute'>, number> = {
+    '15m': 15 * MINUTE,
+    '1h': 60 * MINUTE,
+    '4h': 240 * MINUTE,
+};
+// Epoch ms 0 is a Thursday; weekly candles open on Monday 00:00 UTC
+const WEEK_OFFSET = 4 * 24 * 60 * MINUTE;
+
+/** Close time of the candle open at `now`. Candles are aligned to UTC, weekly ones to Monday. */
+export const getCandleCloseTime = (timeframe: Timeframe, now: number = Date.now()): number => {
+    const duration = TIMEFRAME_DURATIONS[timeframe];
+    const offset = timeframe === '1w' ? WEEK_OFFSET : 0;
+    return Math.floor((now - offset) / duration) * duration + offset + duration;
+};
+
+/** When a snooze chosen now ends, or null for an indefinite mute. */
+export const getMuteUntil = (option: SnoozeOption, timeframe: Timeframe, now: number = Date.now()): number | null => {
+    switch (option) {
+        case 'mute':
+            return null;
+        case 'candle':
+            return getCandleCloseTime(timeframe, now);
+        default:
+            return now + SNOOZE_DURATIONS[option];
+    }
+};
+
+export const isMuteActive = (mute: AlertMute | undefined, now: number = Date.now()): boolean =>
+    mute !== undefined && (mute.until === null || mute.until > now);
+
+export const describeMute = (mute: AlertMute): string => {
+    if (mute.until === null) return 'Muted';
+    const until = new Date(mute.until);
+    // Snoozes ending on another day show the date too
+    const sameDay = until.toDateString() === new Date().toDateString();
+    const time = until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `Snoozed until ${sameDay ? time : `${until.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`}`;
+};
+
+/** Drops snoozes that have ended, returning `mutes` itself when nothing changed. */
+export const pruneExpiredMutes = (mutes: Record<string, AlertMute>, now: number = Date.now()): Record<string, AlertMute> => {
+    const active = Object.entries(mutes).filter(([, mute]) => isMuteActive(mute, now));
+    return active.length === Object.keys(mutes).length ? mutes : Object.fromEntries(active);
+};
+
+/** Epoch ms of the next snooze to end, or null if none will. */
+export const getNextMuteExpiry = (mutes: Record<string, AlertMute>): number | null => {
+    const ends = Object.values(mutes).map(mute => mute.until).filter((until): until is number => until !== null);
+    return ends.length > 0 ? Math.min(...ends) : null;
+};
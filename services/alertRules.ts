@@ -0,0 +1,144 @@
+import type { AlertRule, CrossDirection, IndicatorMode, SymbolData, Timeframe } from '../types';
+import { INDICATOR_LEVELS, getIndicatorLabel } from '../constants';
+
+export interface AlertRuleMatch {
+    rule: AlertRule;
+    symbol: string;
+    timeframe: Timeframe;
+    /** Latest indicator value when the rule fired. */
+    value: number;
+}
+
+export interface AlertRuleContext {
+    favorites: string[];
+    mode: IndicatorMode;
+    now?: number;
+}
+
+export interface AlertRuleEngine {
+    /** Rules that started to match since the previous call, respecting each rule's cooldown. */
+    evaluate: (
+        rules: AlertRule[],
+        dataByTimeframe: Partial<Record<Timeframe, Record<string, SymbolData>>>,
+        context: AlertRuleContext,
+    ) => AlertRuleMatch[];
+    /** Forgets all state, e.g. after the indicator changes and old values no longer compare. */
+    reset: () => void;
+}
+
+const MIDLINE = 50;
+
+export const crossed = (previous: number, current: number, previousRef: number, currentRef: number, direction: CrossDirection): boolean => {
+    const up = previous <= previousRef && current > currentRef;
+    const down = previous >= previousRef && current < currentRef;
+    if (direction === 'up') return up;
+    if (direction === 'down') return down;
+    return up || down;
+};
+
+export const ruleAppliesTo = (rule: AlertRule, symbol: string, timeframe: Timeframe, favorites: string[]): boolean => {
+    if (rule.timeframes.length > 0 && !rule.timeframes.includes(timeframe)) return false;
+    if (rule.scope === 'favorites') return favorites.includes(symbol);
+    if (rule.scope === 'symbols') return rule.symbols.includes(symbol);
+    return true;
+};
+
+/**
+ * Whether the rule's condition holds on the latest value. Crossing and exit conditions compare the
+ * last two values, so they hold for the candle on which the cross happened.
+ */
+export const matchesCondition = (rule: AlertRule, data: SymbolData, mode: IndicatorMode): boolean => {
+    const { rsi, sma } = data;
+    if (rsi.length === 0) return false;
+    const current = rsi[rsi.length - 1].value;
+    const previous = rsi.length > 1 ? rsi[rsi.length - 2].value : undefined;
+    const levels = INDICATOR_LEVELS[mode];
+
+    switch (rule.condition) {
+        case 'above':
+            return current > rule.level;
+        case 'below':
+            return current < rule.level;
+        case 'enter-zone':
+            return rule.zone === 'overbought' ? current >= levels.overbought : current <= levels.oversold;
+        case 'exit-zone':
+            if (previous === undefined) return false;
+            return rule.zone === 'overbought'
+                ? previous >= levels.overbought && current < levels.overbought
+                : previous <= levels.oversold && current > levels.oversold;
+        case 'cross-midline':
+            return previous !== undefined && crossed(previous, current, MIDLINE, MIDLINE, rule.direction);
+        case 'cross-signal': {
+            // The signal line starts later than the oscillator but ends on the same candle
+            if (previous === undefined || sma.length < 2 || sma[sma.length - 1].time !== rsi[rsi.length - 1].time) return false;
+            return crossed(previous, current, sma[sma.length - 2].value, sma[sma.length - 1].value, rule.direction);
+        }
+    }
+};
+
+const describeDirection = (direction: CrossDirection) => (direction === 'any' ? 'crossed' : `crossed ${direction === 'up' ? 'above' : 'below'}`);
+
+/**
+ * Human-readable condition, e.g. "RSI crossed above 50" or "Stoch RSI entered the overbought zone (80)".
+ */
+export const describeAlertCondition = (rule: Pick<AlertRule, 'condition' | 'level' | 'zone' | 'direction'>, mode: IndicatorMode): string => {
+    const label = getIndicatorLabel(mode);
+    const zoneLevel = INDICATOR_LEVELS[mode][rule.zone];
+    switch (rule.condition) {
+        case 'above':
+            return `${label} above ${rule.level}`;
+        case 'below':
+            return `${label} below ${rule.level}`;
+        case 'enter-zone':
+            return `${label} entered the ${rule.zone} zone (${zoneLevel})`;
+        case 'exit-zone':
+            return `${label} left the ${rule.zone} zone (${zoneLevel})`;
+        case 'cross-midline':
+            return `${label} ${describeDirection(rule.direction)} ${MIDLINE}`;
+        case 'cross-signal':
+            return `${label} ${describeDirection(rule.direction)} its signal line`;
+    }
+};
+
+/**
+ * Evaluates alert rules against every loaded timeframe, remembering per rule, symbol and timeframe
+ * whether the condition held last time and when the rule last fired there.
+ */
+export const createAlertRuleEngine = (): AlertRuleEngine => {
+    const states = new Map<string, { matched: boolean; lastFiredAt: number | null }>();
+
+    const evaluate: AlertRuleEngine['evaluate'] = (rules, dataByTimeframe, { favorites, mode, now = Date.now() }) => {
+        const matches: AlertRuleMatch[] = [];
+
+        rules.forEach(rule => {
+            if (!rule.enabled) return;
+            (Object.keys(dataByTimeframe) as Timeframe[]).forEach(timeframe => {
+                const bySymbol = dataByTimeframe[timeframe] ?? {};
+                Object.keys(bySymbol).forEach(symbol => {
+                    const data: SymbolData = bySymbol[symbol];
+                    // Stale and failed data would raise alerts on values that are no longer current
+                    if (data.status !== 'ok' || !ruleAppliesTo(rule, symbol, timeframe, favorites)) return;
+
+                    const key = `${rule.id}:${symbol}:${timeframe}`;
+                    const previous = states.get(key);
+                    const matched = matchesCondition(rule, data, mode);
+                    let lastFiredAt = previous?.lastFiredAt ?? null;
+
+                    const cooledDown = lastFiredAt === null || now - lastFiredAt >= rule.cooldownMinutes * 60 * 1000;
+                    if (matched && !previous?.matched && cooledDown) {
+                        lastFiredAt = now;
+                        matches.push({ rule, symbol, timeframe, value: data.rsi[data.rsi.length - 1].value });
+                    }
+                    states.set(key, { matched, lastFiredAt });
+                });
+            });
+        });
+
+        return matches;
+    };
+
+    return {
+        evaluate,
+        reset: () => states.clear(),
+    };
+};
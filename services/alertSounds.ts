@@ -0,0 +1,69 @@
+import type { AlertSound } from '../types';
+
+interface Tone {
+    frequency: number;
+    /** Offset from the start of the sound, in seconds. */
+    start: number;
+    duration: number;
+    type?: OscillatorType;
+}
+
+// Sounds are synthesized so the app ships without audio assets
+const SOUND_PATTERNS: Record<Exclude<AlertSound, 'none'>, Tone[]> = {
+    chime: [
+        { frequency: 880, start: 0, duration: 0.18 },
+        { frequency: 1320, start: 0.14, duration: 0.35 },
+    ],
+    beep: [
+        { frequency: 1000, start: 0, duration: 0.12, type: 'square' },
+    ],
+    bell: [
+        { frequency: 660, start: 0, duration: 0.9, type: 'triangle' },
+        { frequency: 1320, start: 0, duration: 0.5 },
+    ],
+    alarm: [0, 0.28, 0.56].flatMap(start => [
+        { frequency: 960, start, duration: 0.11, type: 'sawtooth' as const },
+        { frequency: 720, start: start + 0.13, duration: 0.11, type: 'sawtooth' as const },
+    ]),
+};
+
+const PEAK_GAIN = 0.3;
+// A burst of alerts, e.g. on the first load, plays a single sound
+const MIN_SOUND_GAP = 1000;
+
+let context: AudioContext | null = null;
+let lastPlayedAt = 0;
+
+/**
+ * Plays one of the built-in alert sounds. Browsers keep audio suspended until the page has had a user
+ * gesture, so a sound may stay silent until the user has interacted with the scanner once.
+ */
+export const playAlertSound = (sound: AlertSound, volume: number): void => {
+    if (sound === 'none' || volume <= 0 || typeof AudioContext === 'undefined') return;
+    if (Date.now() - lastPlayedAt < MIN_SOUND_GAP) return;
+    lastPlayedAt = Date.now();
+
+    try {
+        context ??= new AudioContext();
+        if (context.state === 'suspended') {
+            context.resume().catch(() => {});
+        }
+        const audio = context;
+        const now = audio.currentTime;
+        SOUND_PATTERNS[sound].forEach(({ frequency, start, duration, type = 'sine' }) => {
+            const oscillator = audio.createOscillator();
+            const gain = audio.createGain();
+            oscillator.type = type;
+            oscillator.frequency.value = frequency;
+            // Short attack and exponential decay avoid clicks at either end
+            gain.gain.setValueAtTime(0.0001, now + start);
+            gain.gain.exponentialRampToValueAtTime(PEAK_GAIN * volume, now + start + 0.01);
+            gain.gain.exponentialRampToValueAtTime(0.0001, now + start + duration);
+            oscillator.connect(gain).connect(audio.destination);
+            oscillator.start(now + start);
+            oscillator.stop(now + start + duration + 0.05);
+        });
+    } catch (error) {
+        console.error('Failed to play alert sound', error);
+    }
+};
@@ -0,0 +1,43 @@
+import type { Candle, IndicatorSettings, Kline, SymbolData, Timeframe } from '../types';
+import { TIMEFRAME_DURATIONS } from '../constants';
+import { getKlineWindowSize } from './marketData';
+
+/**
+ * Candles still to fetch so the history yields `points` indicator points. The oldest candles of the history
+ * only warm the indicator up, so each further page of candles adds as many points.
+ */
+export const getMissingHistoryCount = (history: Kline[], points: number, params: IndicatorSettings): number =>
+    points > 0 ? Math.max(0, getKlineWindowSize(params, points) - history.length) : 0;
+
+/**
+ * Moves candles that scrolled out of the live window onto the end of the history, so no gap opens between
+ * the two when a new candle starts. `candles` is the live window as it was before `liveStart` moved.
+ */
+export const appendScrolledOutCandles = (history: Kline[], candles: Candle[], liveStart: number, timeframe: Timeframe): Kline[] => {
+    const last = history[history.length - 1];
+    if (!last) return history;
+    const scrolledOut = candles.filter(candle => candle.time > last.openTime && candle.time < liveStart);
+    if (scrolledOut.length === 0) return history;
+    return history.concat(scrolledOut.map(({ time, ...candle }) => ({
+        ...candle,
+        openTime: time,
+        closeTime: time + TIMEFRAME_DURATIONS[timeframe] - 1,
+    })));
+};
+
+/**
+ * The part of the indicator computed over the history that lies before the live window. Live points are kept
+ * as they are, so the newest values match the grid and the alerts; the history only fills in the time before them.
+ */
+export const getHistoryBefore = (history: SymbolData, liveStart: number): SymbolData => {
+    const before = <T extends { time: number }>(points: T[]): T[] => points.filter(point => point.time < liveStart);
+    return {
+        ...history,
+        rsi: before(history.rsi),
+        sma: before(history.sma),
+        bbUpper: history.bbUpper && before(history.bbUpper),
+        bbLower: history.bbLower && before(history.bbLower),
+        candles: before(history.candles),
+        divergences: history.divergences.filter(divergence => divergence.end.time < liveStart),
+    };
+};
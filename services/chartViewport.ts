@@ -0,0 +1,48 @@
+/** The candles in view, counted from the newest so new candles and loaded history don't move it. */
+export interface ChartViewport {
+    /** Candles hidden to the right of the view. */
+    offset: number;
+    /** Candles in view. */
+    count: number;
+}
+
+// Zooming in stops here so candles stay readable and drawings keep two distinct time anchors
+export const MIN_VISIBLE_CANDLES = 20;
+
+const clampCount = (count: number, total: number) =>
+    Math.max(Math.min(MIN_VISIBLE_CANDLES, total), Math.min(Math.round(count), total));
+
+export const clampViewport = ({ offset, count }: ChartViewport, total: number): ChartViewport => {
+    const clampedCount = clampCount(count, total);
+    return { count: clampedCount, offset: Math.max(0, Math.min(Math.round(offset), total - clampedCount)) };
+};
+
+/** Index range of the candles in view; `end` is exclusive. */
+export const getVisibleRange = (viewport: ChartViewport, total: number): { start: number; end: number } => {
+    const { offset, count } = clampViewport(viewport, total);
+    return { start: total - offset - count, end: total - offset };
+};
+
+/**
+ * Scales the number of candles in view by `factor` while the candle at `anchor` stays put, where 0 is the
+ * left edge of the view and 1 the right edge.
+ */
+export const zoomViewport = (viewport: ChartViewport, total: number, factor: number, anchor: number): ChartViewport => {
+    const current = clampViewport(viewport, total);
+    const count = clampCount(current.count * factor, total);
+    const { start } = getVisibleRange(current, total);
+    const newStart = start + anchor * (current.count - count);
+    return clampViewport({ count, offset: total - newStart - count }, total);
+};
+
+/** Moves the view by `candles`; positive values move it back in time. */
+export const panViewport = (viewport: ChartViewport, total: number, candles: number): ChartViewport => {
+    const current = clampViewport(viewport, total);
+    return clampViewport({ ...current, offset: current.offset + candles }, total);
+};
+
+/** Keeps the number of candles in view and moves the view so the candle at `index` is in its middle. */
+export const centerViewport = (viewport: ChartViewport, total: number, index: number): ChartViewport => {
+    const current = clampViewport(viewport, total);
+    return clampViewport({ ...current, offset: total - index - Math.ceil(current.count / 2) }, total);
+};
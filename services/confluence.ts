@@ -0,0 +1,65 @@
+import type { ConfluenceSettings, IndicatorMode, SymbolData, Timeframe } from '../types';
+import { INDICATOR_LEVELS } from '../constants';
+
+export type ConfluenceBias = 'bullish' | 'bearish';
+
+const getLastValue = (data: SymbolData | undefined) => data?.rsi?.[data.rsi.length - 1]?.value;
+
+/**
+ * Weighted agreement of the oscillator across the configured timeframes, from +100 (oversold on
+ * every one) to -100 (overbought on every one). Each timeframe contributes its distance from the
+ * midline, scaled so reaching the oversold or overbought level counts in full. Timeframes without
+ * data are left out of the average; undefined if none have data.
+ */
+export const getConfluenceScore = (
+    symbol: string,
+    dataByTimeframe: Partial<Record<Timeframe, Record<string, SymbolData>>>,
+    settings: ConfluenceSettings,
+    mode: IndicatorMode,
+): number | undefined => {
+    const { overbought, oversold } = INDICATOR_LEVELS[mode];
+    const midline = (overbought + oversold) / 2;
+    const halfRange = (overbought - oversold) / 2;
+
+    let weighted = 0;
+    let totalWeight = 0;
+    settings.timeframes.forEach(tf => {
+        const value = getLastValue(dataByTimeframe[tf]?.[symbol]);
+        const weight = settings.weights[tf] ?? 1;
+        if (value === undefined || weight <= 0) return;
+        const state = Math.max(-1, Math.min(1, (midline - value) / halfRange));
+        weighted += state * weight;
+        totalWeight += weight;
+    });
+
+    return totalWeight > 0 ? (weighted / totalWeight) * 100 : undefined;
+};
+
+export const getConfluenceScores = (
+    symbols: string[],
+    dataByTimeframe: Partial<Record<Timeframe, Record<string, SymbolData>>>,
+    settings: ConfluenceSettings,
+    mode: IndicatorMode,
+): Record<string, number> => {
+    const scores: Record<string, number> = {};
+    symbols.forEach(symbol => {
+        const score = getConfluenceScore(symbol, dataByTimeframe, settings, mode);
+        if (score !== undefined) scores[symbol] = score;
+    });
+    return scores;
+};
+
+export const formatConfluenceScore = (score: number): string => {
+    const rounded = Math.round(score);
+    return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+/**
+ * Direction of a score that has reached the alert threshold, or null while it is below it.
+ */
+export const getConfluenceBias = (score: number | undefined, threshold: number): ConfluenceBias | null => {
+    if (score === undefined) return null;
+    if (score >= threshold) return 'bullish';
+    if (score <= -threshold) return 'bearish';
+    return null;
+};
@@ -0,0 +1,54 @@
+const DB_NAME = 'crypto-rsi-scanner';
+const DB_VERSION = 2;
+
+export const KLINE_STORE = 'klines';
+export const NOTIFICATION_STORE = 'notifications';
+
+// Each step upgrades from the version before it, so a database left at any older version ends up complete
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const klines = db.createObjectStore(KLINE_STORE, { keyPath: 'key' });
+        klines.createIndex('accessedAt', 'accessedAt');
+    }
+    if (oldVersion < 2) {
+        const notifications = db.createObjectStore(NOTIFICATION_STORE, { keyPath: 'id' });
+        notifications.createIndex('timestamp', 'timestamp');
+    }
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the scanner's IndexedDB database, shared by the kline cache and the notification history.
+ * Resolves to null where IndexedDB is unavailable (private mode, old browsers) so callers just skip it.
+ */
+export const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let a newer version of the app in another tab upgrade the database
+                db.onversionchange = () => db.close();
+                resolve(db);
+            };
+            request.onerror = () => {
+                console.error('Failed to open database', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
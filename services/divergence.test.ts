@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Candle, RsiDataPoint } from '../types';
+import { detectDivergences, type DivergenceOptions } from './divergence';
+
+const MINUTE = 60000;
+// Two pivots per series, at bars 2 and 7, confirmed by two bars on each side
+const FIRST_PIVOT = 2;
+const SECOND_PIVOT = 7;
+const OPTIONS: DivergenceOptions = { pivotLeft: 2, pivotRight: 2, minRange: 3, maxRange: 10 };
+
+// RSI with two troughs (or peaks) of the given depths, and candles whose lows (or highs) at those bars are `prices`
+const createSeries = (kind: 'low' | 'high', rsiPivots: [number, number], pricePivots: [number, number]) => {
+    const shape = kind === 'low' ? [50, 45, 0, 45, 50, 50, 45, 0, 45, 50] : [50, 55, 0, 55, 50, 50, 55, 0, 55, 50];
+    shape[FIRST_PIVOT] = rsiPivots[0];
+    shape[SECOND_PIVOT] = rsiPivots[1];
+    const rsi: RsiDataPoint[] = shape.map((value, index) => ({ time: index * MINUTE, value }));
+    const candles: Candle[] = shape.map((_, index) => {
+        const price = index === FIRST_PIVOT ? pricePivots[0] : index === SECOND_PIVOT ? pricePivots[1] : 100;
+        return { time: index * MINUTE, open: price, high: price, low: price, close: price, volume: 1 };
+    });
+    return { candles, rsi };
+};
+
+describe('detectDivergences', () => {
+    it('finds a regular bullish divergence: lower price low, higher RSI low', () => {
+        const { candles, rsi } = createSeries('low', [30, 35], [90, 80]);
+        expect(detectDivergences(candles, rsi, OPTIONS)).toEqual([{
+            type: 'regular-bullish',
+            start: { time: FIRST_PIVOT * MINUTE, price: 90, rsi: 30 },
+            end: { time: SECOND_PIVOT * MINUTE, price: 80, rsi: 35 },
+        }]);
+    });
+
+    it('finds a hidden bullish divergence: higher price low, lower RSI low', () => {
+        const { candles, rsi } = createSeries('low', [35, 30], [80, 90]);
+        expect(detectDivergences(candles, rsi, OPTIONS).map(divergence => divergence.type)).toEqual(['hidden-bullish']);
+    });
+
+    it('finds a regular bearish divergence: higher price high, lower RSI high', () => {
+        const { candles, rsi } = createSeries('high', [70, 65], [110, 120]);
+        expect(detectDivergences(candles, rsi, OPTIONS)).toEqual([{
+            type: 'regular-bearish',
+            start: { time: FIRST_PIVOT * MINUTE, price: 110, rsi: 70 },
+            end: { time: SECOND_PIVOT * MINUTE, price: 120, rsi: 65 },
+        }]);
+    });
+
+    it('finds a hidden bearish divergence: lower price high, higher RSI high', () => {
+        const { candles, rsi } = createSeries('high', [65, 70], [120, 110]);
+        expect(detectDivergences(candles, rsi, OPTIONS).map(divergence => divergence.type)).toEqual(['hidden-bearish']);
+    });
+
+    it('reports nothing when price and RSI agree', () => {
+        const lows = createSeries('low', [30, 35], [80, 90]);
+        const highs = createSeries('high', [65, 70], [110, 120]);
+        expect(detectDivergences(lows.candles, lows.rsi, OPTIONS)).toEqual([]);
+        expect(detectDivergences(highs.candles, highs.rsi, OPTIONS)).toEqual([]);
+    });
+
+    it('only compares pivots at least `minRange` bars apart', () => {
+        const { candles, rsi } = createSeries('low', [30, 35], [90, 80]);
+        const distance = SECOND_PIVOT - FIRST_PIVOT;
+        expect(detectDivergences(candles, rsi, { ...OPTIONS, minRange: distance })).toHaveLength(1);
+        expect(detectDivergences(candles, rsi, { ...OPTIONS, minRange: distance + 1 })).toEqual([]);
+    });
+
+    it('only compares pivots at most `maxRange` bars apart', () => {
+        const { candles, rsi } = createSeries('high', [70, 65], [110, 120]);
+        const distance = SECOND_PIVOT - FIRST_PIVOT;
+        expect(detectDivergences(candles, rsi, { ...OPTIONS, maxRange: distance })).toHaveLength(1);
+        expect(detectDivergences(candles, rsi, { ...OPTIONS, maxRange: distance - 1 })).toEqual([]);
+    });
+
+    it('waits for `pivotRight` bars to confirm the second pivot', () => {
+        const { candles, rsi } = createSeries('low', [30, 35], [90, 80]);
+        expect(detectDivergences(candles.slice(0, -1), rsi.slice(0, -1), OPTIONS)).toEqual([]);
+    });
+
+    it('skips RSI points without a candle at the same time', () => {
+        const { candles, rsi } = createSeries('low', [30, 35], [90, 80]);
+        const withoutSecondPivot = candles.filter(candle => candle.time !== SECOND_PIVOT * MINUTE);
+        expect(detectDivergences(withoutSecondPivot, rsi, OPTIONS)).toEqual([]);
+    });
+});
@@ -0,0 +1,100 @@
+import type { Candle, Divergence, DivergenceType, RsiDataPoint, SymbolData } from '../types';
+
+export interface DivergenceOptions {
+    /** Bars on each side a pivot must dominate; a pivot is only confirmed `pivotRight` bars after it forms. */
+    pivotLeft?: number;
+    pivotRight?: number;
+    /** Allowed distance in bars between the two pivots being compared. */
+    minRange?: number;
+    maxRange?: number;
+}
+
+const DEFAULT_OPTIONS: Required<DivergenceOptions> = {
+    pivotLeft: 5,
+    pivotRight: 5,
+    minRange: 5,
+    maxRange: 60,
+};
+
+// A divergence counts as current while its second pivot is at most this many bars old.
+const RECENT_DIVERGENCE_BARS = 10;
+
+/**
+ * Indices of pivot lows (or highs): values strictly below (above) the `left` values before them and
+ * not above (below) the `right` values after them, so a flat extreme yields a single pivot.
+ */
+const findPivots = (values: number[], left: number, right: number, kind: 'low' | 'high'): number[] => {
+    const beyond = (a: number, b: number) => (kind === 'low' ? a < b : a > b);
+    const pivots: number[] = [];
+    for (let i = left; i < values.length - right; i++) {
+        let isPivot = true;
+        for (let j = i - left; j < i && isPivot; j++) {
+            isPivot = beyond(values[i], values[j]);
+        }
+        for (let j = i + 1; j <= i + right && isPivot; j++) {
+            isPivot = !beyond(values[j], values[i]);
+        }
+        if (isPivot) pivots.push(i);
+    }
+    return pivots;
+};
+
+/**
+ * Finds regular and hidden divergences by comparing consecutive oscillator pivots with the candle
+ * lows (bullish) or highs (bearish) at the same bars. Points are joined on time, so `candles` and
+ * `rsi` may cover slightly different spans.
+ */
+export const detectDivergences = (candles: Candle[], rsi: RsiDataPoint[], options: DivergenceOptions = {}): Divergence[] => {
+    const { pivotLeft, pivotRight, minRange, maxRange } = { ...DEFAULT_OPTIONS, ...options };
+    const candleByTime = new Map(candles.map(candle => [candle.time, candle]));
+    const points = rsi.filter(point => candleByTime.has(point.time));
+    const values = points.map(point => point.value);
+    const divergences: Divergence[] = [];
+
+    const compare = (kind: 'low' | 'high') => {
+        const pivots = findPivots(values, pivotLeft, pivotRight, kind);
+        for (let k = 1; k < pivots.length; k++) {
+            const previous = pivots[k - 1];
+            const current = pivots[k];
+            const distance = current - previous;
+            if (distance < minRange || distance > maxRange) continue;
+
+            const toPoint = (index: number) => {
+                const candle = candleByTime.get(points[index].time)!;
+                return { time: points[index].time, price: kind === 'low' ? candle.low : candle.high, rsi: values[index] };
+            };
+            const start = toPoint(previous);
+            const end = toPoint(current);
+            const priceRising = end.price > start.price;
+            const rsiRising = end.rsi > start.rsi;
+            const priceFalling = end.price < start.price;
+            const rsiFalling = end.rsi < start.rsi;
+
+            let type: DivergenceType | null = null;
+            if (kind === 'low') {
+                if (priceFalling && rsiRising) type = 'regular-bullish';
+                else if (priceRising && rsiFalling) type = 'hidden-bullish';
+            } else {
+                if (priceRising && rsiFalling) type = 'regular-bearish';
+                else if (priceFalling && rsiRising) type = 'hidden-bearish';
+            }
+            if (type) divergences.push({ type, start, end });
+        }
+    };
+
+    compare('low');
+    compare('high');
+    return divergences.sort((a, b) => a.end.time - b.end.time || a.start.time - b.start.time);
+};
+
+/**
+ * The newest divergence whose second pivot lies within the last few candles, if any.
+ */
+export const getRecentDivergence = (data: Pick<SymbolData, 'candles' | 'divergences'> | undefined): Divergence | null => {
+    if (!data || !data.divergences || data.divergences.length === 0 || data.candles.length === 0) return null;
+    const cutoff = data.candles[Math.max(0, data.candles.length - RECENT_DIVERGENCE_BARS)].time;
+    const latest = data.divergences[data.divergences.length - 1];
+    return latest.end.time >= cutoff ? latest : null;
+};
+
+export const isBullishDivergence = (type: DivergenceType): boolean => type.endsWith('bullish');
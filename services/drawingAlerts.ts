@@ -0,0 +1,83 @@
+import type { Drawing, IndicatorMode, SymbolData, Timeframe } from '../types';
+import { getIndicatorLabel } from '../constants';
+import { crossed } from './alertRules';
+import { getLineValueAt, isAlertableDrawing, type ChartDrawings } from './drawings';
+
+const LINE_NAMES: Partial<Record<Drawing['tool'], string>> = {
+    trendline: 'Trendline',
+    ray: 'Ray',
+    hline: 'Level',
+};
+
+export interface DrawingAlertMatch {
+    symbol: string;
+    timeframe: Timeframe;
+    drawing: Drawing;
+    /** Latest indicator value when the alert fired. */
+    value: number;
+    /** Where the line was on the latest candle. */
+    lineValue: number;
+}
+
+export interface DrawingAlertEngine {
+    /** Drawings whose line the indicator crossed since the previous call. */
+    evaluate: (charts: ChartDrawings[], dataByTimeframe: Partial<Record<Timeframe, Record<string, SymbolData>>>) => DrawingAlertMatch[];
+    /** Forgets all state, e.g. after the indicator changes and old values no longer compare. */
+    reset: () => void;
+}
+
+/** Name used as the rule name of the alert's notifications, e.g. "Trendline alert". */
+export const getDrawingAlertName = (drawing: Drawing): string => `${LINE_NAMES[drawing.tool] ?? 'Drawing'} alert`;
+
+/** What an alert watches, e.g. "RSI crosses 30.00" or "Stoch RSI crosses the trendline". */
+export const describeDrawingAlert = (drawing: Drawing, mode: IndicatorMode): string => {
+    const label = getIndicatorLabel(mode);
+    return drawing.tool === 'hline'
+        ? `${label} crosses ${drawing.points[0].value.toFixed(2)}`
+        : `${label} crosses the ${(LINE_NAMES[drawing.tool] ?? 'drawing').toLowerCase()}`;
+};
+
+export const describeDrawingAlertMatch = ({ drawing, value, lineValue }: DrawingAlertMatch, mode: IndicatorMode): string =>
+    `${getIndicatorLabel(mode)} crossed ${value > lineValue ? 'above' : 'below'} the ${(LINE_NAMES[drawing.tool] ?? 'drawing').toLowerCase()} (${lineValue.toFixed(2)})`;
+
+/**
+ * Checks the enabled drawing alerts against the last two candles of their chart, with the line extended to
+ * those candles. A cross only holds on the candle it happened on, and each drawing fires at most once per
+ * candle so a value hovering around the line doesn't repeat the alert with every update.
+ */
+export const createDrawingAlertEngine = (): DrawingAlertEngine => {
+    // Open time of the candle each drawing last fired on
+    const firedCandles = new Map<string, number>();
+
+    const evaluate: DrawingAlertEngine['evaluate'] = (charts, dataByTimeframe) => {
+        const matches: DrawingAlertMatch[] = [];
+
+        charts.forEach(({ symbol, timeframe, drawings }) => {
+            const data = dataByTimeframe[timeframe]?.[symbol];
+            // Stale and failed data would raise alerts on values that are no longer current
+            if (!data || data.status !== 'ok' || data.rsi.length < 2) return;
+            const previous = data.rsi[data.rsi.length - 2];
+            const current = data.rsi[data.rsi.length - 1];
+
+            drawings.forEach(drawing => {
+                if (!drawing.alert?.enabled || !isAlertableDrawing(drawing)) return;
+                const previousLine = getLineValueAt(drawing, previous.time);
+                const currentLine = getLineValueAt(drawing, current.time);
+                const matched = previousLine !== null && currentLine !== null && crossed(previous.value, current.value, previousLine, currentLine, 'any');
+
+                const key = `${symbol}:${timeframe}:${drawing.id}`;
+                if (matched && firedCandles.get(key) !== current.time) {
+                    firedCandles.set(key, current.time);
+                    matches.push({ symbol, timeframe, drawing, value: current.value, lineValue: currentLine! });
+                }
+            });
+        });
+
+        return matches;
+    };
+
+    return {
+        evaluate,
+        reset: () => firedCandles.clear(),
+    };
+};
@@ -0,0 +1,68 @@
+import type { Drawing } from '../types';
+
+// Oldest commands beyond this can no longer be undone
+const MAX_HISTORY = 100;
+
+/** One reversible change to a chart's drawings. */
+export type DrawingCommand =
+    | { type: 'add'; drawing: Drawing }
+    | { type: 'move' | 'edit'; before: Drawing; after: Drawing }
+    // Deleted drawings with their positions, in ascending order, so undo restores the stacking
+    | { type: 'delete'; removed: { drawing: Drawing; index: number }[] }
+    | { type: 'clear'; drawings: Drawing[] };
+
+export interface DrawingHistory {
+    /** Oldest first; the last entry is the next to undo. */
+    past: DrawingCommand[];
+    /** The first entry is the next to redo. */
+    future: DrawingCommand[];
+}
+
+export const EMPTY_DRAWING_HISTORY: DrawingHistory = { past: [], future: [] };
+
+const replaceDrawing = (drawings: Drawing[], replacement: Drawing) =>
+    drawings.map(drawing => (drawing.id === replacement.id ? replacement : drawing));
+
+export const createDeleteCommand = (drawings: Drawing[], ids: Set<string>): DrawingCommand => ({
+    type: 'delete',
+    removed: drawings.map((drawing, index) => ({ drawing, index })).filter(({ drawing }) => ids.has(drawing.id)),
+});
+
+export const applyDrawingCommand = (drawings: Drawing[], command: DrawingCommand): Drawing[] => {
+    switch (command.type) {
+        case 'add':
+            return [...drawings, command.drawing];
+        case 'move':
+        case 'edit':
+            return replaceDrawing(drawings, command.after);
+        case 'delete': {
+            const ids = new Set(command.removed.map(({ drawing }) => drawing.id));
+            return drawings.filter(drawing => !ids.has(drawing.id));
+        }
+        case 'clear':
+            return [];
+    }
+};
+
+export const revertDrawingCommand = (drawings: Drawing[], command: DrawingCommand): Drawing[] => {
+    switch (command.type) {
+        case 'add':
+            return drawings.filter(drawing => drawing.id !== command.drawing.id);
+        case 'move':
+        case 'edit':
+            return replaceDrawing(drawings, command.before);
+        case 'delete': {
+            const restored = [...drawings];
+            command.removed.forEach(({ drawing, index }) => restored.splice(index, 0, drawing));
+            return restored;
+        }
+        case 'clear':
+            return command.drawings;
+    }
+};
+
+/** Records a command that has just been applied. Anything that was undone can no longer be redone. */
+export const pushDrawingCommand = (history: DrawingHistory, command: DrawingCommand): DrawingHistory => ({
+    past: [...history.past, command].slice(-MAX_HISTORY),
+    future: [],
+});
@@ -0,0 +1,281 @@
+import type { Drawing, DrawingPoint, Timeframe } from '../types';
+
+const STORAGE_KEY = 'crypto-drawings';
+
+// How far from a line, in pixels, a click still picks it
+const HIT_TOLERANCE = 6;
+const HANDLE_HIT_RADIUS = 8;
+
+export interface PixelPoint {
+    x: number;
+    y: number;
+}
+
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Maps chart coordinates to pixels in the chart's SVG and back. */
+export interface ChartProjection {
+    toPixel: (point: DrawingPoint) => PixelPoint;
+    fromPixel: (pixel: PixelPoint) => DrawingPoint;
+    /** The plot area, which levels and rays extend to and drawings are clipped to. */
+    area: PixelRect;
+}
+
+/** Saved drawings of one chart. */
+export interface ChartDrawings {
+    symbol: string;
+    timeframe: Timeframe;
+    drawings: Drawing[];
+}
+
+/** A draggable point on a drawing; `index` is what `moveDrawingHandle` expects. */
+export interface DrawingHandle {
+    index: number;
+    pixel: PixelPoint;
+}
+
+interface AxisAnchor {
+    value: number;
+    pixel: number;
+}
+
+const interpolate = (from: AxisAnchor, to: AxisAnchor) => (value: number) =>
+    from.pixel + ((value - from.value) / (to.value - from.value)) * (to.pixel - from.pixel);
+
+/**
+ * Builds a projection from two anchors on each axis, e.g. the first and last candle and the bottom and top
+ * of the value domain. Time is treated as continuous so points between candles or past the newest one
+ * still have a position. Returns null when either pair of anchors doesn't span a range.
+ */
+export const createChartProjection = (timeAnchors: [AxisAnchor, AxisAnchor], valueAnchors: [AxisAnchor, AxisAnchor], area: PixelRect): ChartProjection | null => {
+    const [timeStart, timeEnd] = timeAnchors;
+    const [valueStart, valueEnd] = valueAnchors;
+    if (timeStart.value === timeEnd.value || timeStart.pixel === timeEnd.pixel) return null;
+    if (valueStart.value === valueEnd.value || valueStart.pixel === valueEnd.pixel) return null;
+
+    const timeToX = interpolate(timeStart, timeEnd);
+    const valueToY = interpolate(valueStart, valueEnd);
+    const xToTime = interpolate({ value: timeStart.pixel, pixel: timeStart.value }, { value: timeEnd.pixel, pixel: timeEnd.value });
+    const yToValue = interpolate({ value: valueStart.pixel, pixel: valueStart.value }, { value: valueEnd.pixel, pixel: valueEnd.value });
+
+    return {
+        toPixel: ({ time, value }) => ({ x: timeToX(time), y: valueToY(value) }),
+        fromPixel: ({ x, y }) => ({ time: xToTime(x), value: yToValue(y) }),
+        area,
+    };
+};
+
+export const getLabelFontSize = (size: number) => 10 + size * 2;
+
+/** Approximate box of a label, measured without a canvas so hit-testing stays pure. */
+export const getLabelBox = (drawing: Drawing, projection: ChartProjection): PixelRect => {
+    const { x, y } = projection.toPixel(drawing.points[0]);
+    const fontSize = getLabelFontSize(drawing.size);
+    return { x, y, width: (drawing.text ?? '').length * fontSize * 0.6, height: fontSize };
+};
+
+/** Where a ray starting at `from` and passing through `through` leaves the plot area. */
+export const getRayEnd = (from: PixelPoint, through: PixelPoint, area: PixelRect): PixelPoint => {
+    const dx = through.x - from.x;
+    const dy = through.y - from.y;
+    if (dx === 0 && dy === 0) return through;
+    const exits = [
+        dx > 0 ? (area.x + area.width - from.x) / dx : dx < 0 ? (area.x - from.x) / dx : Infinity,
+        dy > 0 ? (area.y + area.height - from.y) / dy : dy < 0 ? (area.y - from.y) / dy : Infinity,
+    ];
+    const t = Math.max(1, Math.min(...exits));
+    return { x: from.x + dx * t, y: from.y + dy * t };
+};
+
+const distance = (a: PixelPoint, b: PixelPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToSegment = (point: PixelPoint, a: PixelPoint, b: PixelPoint) => {
+    const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    if (lengthSquared === 0) return distance(point, a);
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+    return distance(point, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const isInsideRect = (point: PixelPoint, rect: PixelRect, margin = 0) =>
+    point.x >= rect.x - margin && point.x <= rect.x + rect.width + margin &&
+    point.y >= rect.y - margin && point.y <= rect.y + rect.height + margin;
+
+const getRectangleBox = (drawing: Drawing, projection: ChartProjection): PixelRect => {
+    const a = projection.toPixel(drawing.points[0]);
+    const b = projection.toPixel(drawing.points[1] ?? drawing.points[0]);
+    return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) };
+};
+
+export const hitTestDrawing = (drawing: Drawing, projection: ChartProjection, pixel: PixelPoint): boolean => {
+    const tolerance = HIT_TOLERANCE + drawing.size / 2;
+    const pixels = drawing.points.map(projection.toPixel);
+    switch (drawing.tool) {
+        case 'hline':
+            return Math.abs(pixels[0].y - pixel.y) <= tolerance;
+        case 'rectangle':
+            return isInsideRect(pixel, getRectangleBox(drawing, projection), tolerance);
+        case 'text':
+            return isInsideRect(pixel, getLabelBox(drawing, projection), HIT_TOLERANCE);
+        case 'ray':
+            return pixels.length > 1 && distanceToSegment(pixel, pixels[0], getRayEnd(pixels[0], pixels[1], projection.area)) <= tolerance;
+        default:
+            if (pixels.length === 1) return distance(pixel, pixels[0]) <= tolerance;
+            return pixels.some((point, index) => index > 0 && distanceToSegment(pixel, pixels[index - 1], point) <= tolerance);
+    }
+};
+
+/** The topmost drawing under `pixel`, i.e. the last one drawn. */
+export const findDrawingAt = (drawings: Drawing[], projection: ChartProjection, pixel: PixelPoint): Drawing | null => {
+    for (let index = drawings.length - 1; index >= 0; index--) {
+        if (hitTestDrawing(drawings[index], projection, pixel)) return drawings[index];
+    }
+    return null;
+};
+
+/**
+ * Resize handles: both ends of trendlines and rays, and all four corners of rectangles. Brush strokes,
+ * levels and labels can only be moved as a whole.
+ */
+export const getDrawingHandles = (drawing: Drawing, projection: ChartProjection): DrawingHandle[] => {
+    if (drawing.points.length < 2) return [];
+    const [a, b] = drawing.points;
+    switch (drawing.tool) {
+        case 'trendline':
+        case 'ray':
+            return [a, b].map((point, index) => ({ index, pixel: projection.toPixel(point) }));
+        case 'rectangle':
+            return [a, b, { time: a.time, value: b.value }, { time: b.time, value: a.value }]
+                .map((point, index) => ({ index, pixel: projection.toPixel(point) }));
+        default:
+            return [];
+    }
+};
+
+export const findHandleAt = (drawing: Drawing, projection: ChartProjection, pixel: PixelPoint): number | null =>
+    getDrawingHandles(drawing, projection).find(handle => distance(handle.pixel, pixel) <= HANDLE_HIT_RADIUS)?.index ?? null;
+
+export const moveDrawingHandle = (drawing: Drawing, index: number, point: DrawingPoint): Drawing => {
+    const [a, b] = drawing.points;
+    switch (index) {
+        case 0:
+            return { ...drawing, points: [point, b] };
+        case 1:
+            return { ...drawing, points: [a, point] };
+        // The corners a rectangle doesn't store take their time from one stored corner and value from the other
+        case 2:
+            return { ...drawing, points: [{ time: point.time, value: a.value }, { time: b.time, value: point.value }] };
+        case 3:
+            return { ...drawing, points: [{ time: a.time, value: point.value }, { time: point.time, value: b.value }] };
+        default:
+            return drawing;
+    }
+};
+
+export const translateDrawing = (drawing: Drawing, timeDelta: number, valueDelta: number): Drawing => ({
+    ...drawing,
+    points: drawing.points.map(point => ({ time: point.time + timeDelta, value: point.value + valueDelta })),
+});
+
+export const isAlertableDrawing = (drawing: Drawing): boolean =>
+    drawing.tool === 'trendline' || drawing.tool === 'ray' || drawing.tool === 'hline';
+
+/**
+ * Value of a line drawing at `time`, extended the way its alert sees it. Null where a ray doesn't reach,
+ * for vertical lines and for drawings that aren't lines.
+ */
+export const getLineValueAt = (drawing: Drawing, time: number): number | null => {
+    const [a, b] = drawing.points;
+    if (drawing.tool === 'hline') return a.value;
+    if ((drawing.tool !== 'trendline' && drawing.tool !== 'ray') || !b || a.time === b.time) return null;
+    if (drawing.tool === 'ray' && (time - a.time) * (b.time - a.time) < 0) return null;
+    return a.value + ((time - a.time) / (b.time - a.time)) * (b.value - a.value);
+};
+
+const listeners = new Set<() => void>();
+
+/** Calls `listener` whenever a chart's drawings are saved. Returns the unsubscribe function. */
+export const subscribeToDrawings = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const getDrawingsKey = (symbol: string, timeframe: Timeframe) => `${symbol}:${timeframe}`;
+
+const isValidPoint = (point: unknown): point is DrawingPoint =>
+    typeof point === 'object' && point !== null &&
+    Number.isFinite((point as DrawingPoint).time) && Number.isFinite((point as DrawingPoint).value);
+
+const isValidDrawing = (drawing: unknown): drawing is Drawing => {
+    if (typeof drawing !== 'object' || drawing === null) return false;
+    const { points } = drawing as { points?: unknown };
+    return Array.isArray(points) && points.length > 0 && points.every(isValidPoint);
+};
+
+// Drawings saved before they had ids get one, written back so it stays the same on every later load
+const assignMissingIds = (allDrawings: Record<string, unknown>) => {
+    let hasNewIds = false;
+    Object.values(allDrawings).forEach(drawings => {
+        if (!Array.isArray(drawings)) return;
+        drawings.forEach(drawing => {
+            if (typeof drawing === 'object' && drawing !== null && !(drawing as Partial<Drawing>).id) {
+                (drawing as Partial<Drawing>).id = crypto.randomUUID();
+                hasNewIds = true;
+            }
+        });
+    });
+    if (!hasNewIds) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(allDrawings));
+    } catch (error) {
+        console.error('Failed to save drawing ids to localStorage', error);
+    }
+};
+
+const loadAllDrawings = (): Record<string, Drawing[]> => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        const allDrawings = saved ? JSON.parse(saved) : {};
+        assignMissingIds(allDrawings);
+        return allDrawings;
+    } catch (error) {
+        console.error('Failed to parse drawings from localStorage', error);
+        return {};
+    }
+};
+
+// Anything not in chart coordinates is dropped
+const normalizeDrawings = (drawings: unknown): Drawing[] =>
+    Array.isArray(drawings) ? drawings.filter(isValidDrawing) : [];
+
+export const loadDrawings = (symbol: string, timeframe: Timeframe): Drawing[] =>
+    normalizeDrawings(loadAllDrawings()[getDrawingsKey(symbol, timeframe)]);
+
+/** Every chart that has drawings. Symbols never contain a colon, so the key splits at the last one. */
+export const loadAllChartDrawings = (): ChartDrawings[] =>
+    Object.entries(loadAllDrawings()).map(([key, drawings]) => {
+        const separator = key.lastIndexOf(':');
+        return { symbol: key.slice(0, separator), timeframe: key.slice(separator + 1) as Timeframe, drawings: normalizeDrawings(drawings) };
+    });
+
+export const saveDrawings = (symbol: string, timeframe: Timeframe, drawings: Drawing[]) => {
+    const allDrawings = loadAllDrawings();
+    const key = getDrawingsKey(symbol, timeframe);
+    if (drawings.length > 0) {
+        allDrawings[key] = drawings;
+    } else {
+        delete allDrawings[key];
+    }
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(allDrawings));
+    } catch (error) {
+        console.error('Failed to save drawings to localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
@@ -0,0 +1,27 @@
+export type MarketDataErrorKind = 'invalid-symbol' | 'rate-limited' | 'http' | 'network';
+
+/**
+ * A failed market data request, classified so the UI can tell a bad symbol from a transient failure.
+ */
+export class MarketDataError extends Error {
+    kind: MarketDataErrorKind;
+
+    constructor(kind: MarketDataErrorKind, message: string) {
+        super(message);
+        this.name = 'MarketDataError';
+        this.kind = kind;
+    }
+}
+
+/**
+ * A screener expression that failed to parse. `position` is the 0-based offset of the offending token.
+ */
+export class ScreenerError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ScreenerError';
+        this.position = position;
+    }
+}
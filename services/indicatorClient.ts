@@ -0,0 +1,119 @@
+import type { IndicatorSettings, Kline, SymbolData } from '../types';
+import { computeSymbolData } from './marketData';
+
+// Symbols per worker message; small enough that a cancelled run stops soon after the current batch.
+const BATCH_SIZE = 50;
+
+export interface IndicatorWorkerRequest {
+    id: number;
+    klinesBySymbol: Record<string, Kline[]>;
+    params: IndicatorSettings;
+    /** Indicator points per symbol; the grid's default window when omitted. */
+    limit?: number;
+}
+
+export type IndicatorWorkerResponse =
+    | { id: number; results: Record<string, SymbolData> }
+    | { id: number; error: string };
+
+export interface IndicatorComputer {
+    /**
+     * Computes up to `limit` points of SymbolData for every symbol, in batches. Resolves to null if `signal`
+     * is aborted first; results of a batch already in flight are then discarded.
+     */
+    compute: (klinesBySymbol: Record<string, Kline[]>, params: IndicatorSettings, signal?: AbortSignal, limit?: number) => Promise<Record<string, SymbolData> | null>;
+    dispose: () => void;
+}
+
+interface PendingBatch {
+    request: IndicatorWorkerRequest;
+    resolve: (results: Record<string, SymbolData>) => void;
+}
+
+const computeSync = ({ klinesBySymbol, params, limit }: Omit<IndicatorWorkerRequest, 'id'>): Record<string, SymbolData> => {
+    const results: Record<string, SymbolData> = {};
+    Object.entries(klinesBySymbol).forEach(([symbol, klines]) => {
+        results[symbol] = computeSymbolData(klines, params, limit);
+    });
+    return results;
+};
+
+// Lets the UI paint between batches when computing on the main thread.
+const yieldToMainThread = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const createWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined') return null;
+    try {
+        return new Worker(new URL('./indicatorWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.error('Failed to start indicator worker, computing on the main thread', error);
+        return null;
+    }
+};
+
+/**
+ * Creates a compute pipeline backed by a Web Worker. Where workers are unavailable, or once the
+ * worker fails, batches are computed synchronously on the main thread instead.
+ */
+export const createIndicatorComputer = (): IndicatorComputer => {
+    let worker = createWorker();
+    let nextId = 0;
+    const pending = new Map<number, PendingBatch>();
+
+    const fallBackToSync = (reason: unknown) => {
+        console.error('Indicator worker failed, computing on the main thread', reason);
+        worker?.terminate();
+        worker = null;
+        pending.forEach(({ request, resolve }) => resolve(computeSync(request)));
+        pending.clear();
+    };
+
+    if (worker) {
+        worker.onmessage = (event: MessageEvent<IndicatorWorkerResponse>) => {
+            const response = event.data;
+            const batch = pending.get(response.id);
+            if (!batch) return;
+            pending.delete(response.id);
+            if ('error' in response) {
+                console.error('Indicator worker failed on a batch, computing it on the main thread', response.error);
+                batch.resolve(computeSync(batch.request));
+            } else {
+                batch.resolve(response.results);
+            }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            fallBackToSync(event.message);
+        };
+    }
+
+    const runBatch = async (klinesBySymbol: Record<string, Kline[]>, params: IndicatorSettings, limit?: number): Promise<Record<string, SymbolData>> => {
+        if (!worker) {
+            await yieldToMainThread();
+            return computeSync({ klinesBySymbol, params, limit });
+        }
+        const request: IndicatorWorkerRequest = { id: nextId++, klinesBySymbol, params, limit };
+        return new Promise(resolve => {
+            pending.set(request.id, { request, resolve });
+            worker!.postMessage(request);
+        });
+    };
+
+    return {
+        compute: async (klinesBySymbol, params, signal, limit) => {
+            const entries = Object.entries(klinesBySymbol);
+            const results: Record<string, SymbolData> = {};
+            for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+                if (signal?.aborted) return null;
+                const batch = Object.fromEntries(entries.slice(start, start + BATCH_SIZE));
+                Object.assign(results, await runBatch(batch, params, limit));
+            }
+            return signal?.aborted ? null : results;
+        },
+        dispose: () => {
+            worker?.terminate();
+            worker = null;
+            pending.clear();
+        },
+    };
+};
@@ -0,0 +1,21 @@
+import type { SymbolData } from '../types';
+import { computeSymbolData } from './marketData';
+import type { IndicatorWorkerRequest, IndicatorWorkerResponse } from './indicatorClient';
+
+// Worker entry point: turns one batch of raw klines into SymbolData per message.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<IndicatorWorkerRequest>) => {
+    const { id, klinesBySymbol, params, limit } = event.data;
+    let response: IndicatorWorkerResponse;
+    try {
+        const results: Record<string, SymbolData> = {};
+        Object.entries(klinesBySymbol).forEach(([symbol, klines]) => {
+            results[symbol] = computeSymbolData(klines, params, limit);
+        });
+        response = { id, results };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : 'Indicator computation failed' };
+    }
+    ctx.postMessage(response);
+};
@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest';
+import { bollingerBands, cutlerRsi, ema, sma, stochRsi, stochastic, wilderRsi, wma } from './indicators';
+
+// Wilder's 14-period sample, as reproduced in StockCharts' RSI spreadsheet
+const WILDER_CLOSES = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03,
+    46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+];
+// StockCharts rounds its average gain and loss to two decimals, so its RSI drifts from the exact one by up to ~0.07
+const WILDER_RSI = [
+    70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87, 45.46,
+    37.30, 33.08, 37.77,
+];
+
+// StockCharts' moving average spreadsheet, with its 10-day SMA and EMA
+const MA_CLOSES = [
+    22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75,
+    23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+const MA_SMA_10 = [
+    22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21, 23.38, 23.53, 23.65, 23.71, 23.69,
+    23.61, 23.51, 23.43, 23.28, 23.13,
+];
+const MA_EMA_10 = [
+    22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34, 23.43, 23.51, 23.54, 23.47, 23.40,
+    23.39, 23.26, 23.23, 23.08, 22.92,
+];
+
+// StockCharts' Bollinger Bands spreadsheet, with its 20-day bands
+const BB_CLOSES = [
+    86.16, 89.09, 88.78, 90.32, 89.07, 91.15, 89.44, 89.18, 86.93, 87.68, 86.96, 89.43, 89.32, 88.72, 87.45, 87.26, 89.50,
+    87.90, 89.13, 90.70, 92.90, 92.98, 91.80, 92.66, 92.68, 92.30, 92.77, 92.54, 92.95, 93.20, 91.07, 89.83, 89.74, 90.40,
+    90.74, 88.02, 88.09, 88.84, 90.78, 90.54, 91.39, 90.65,
+];
+const BB_BASIS_20 = [
+    88.71, 89.05, 89.24, 89.39, 89.51, 89.69, 89.75, 89.91, 90.08, 90.38, 90.66, 90.86, 90.88, 90.90, 90.99, 91.15,
+    91.19, 91.12, 91.17, 91.25, 91.24, 91.17, 91.05,
+];
+const BB_UPPER_20 = [
+    91.29, 91.95, 92.61, 92.93, 93.31, 93.73, 93.90, 94.26, 94.56, 94.79, 95.04, 94.91, 94.90, 94.89, 94.86, 94.67,
+    94.55, 94.68, 94.57, 94.53, 94.53, 94.37, 94.15,
+];
+const BB_LOWER_20 = [
+    86.13, 86.14, 85.87, 85.85, 85.70, 85.65, 85.59, 85.56, 85.60, 85.98, 86.27, 86.82, 86.86, 86.91, 87.12, 87.63,
+    87.83, 87.56, 87.76, 87.97, 87.95, 87.96, 87.95,
+];
+
+// No published sheet covers these, so they come from independent implementations over the sheets above:
+// Cutler RSI from trading-signals' RSI with SMA smoothing, the 10-day WMA from technicalindicators
+const CUTLER_RSI = [
+    70.46, 70.02, 69.83, 80.57, 73.33, 59.81, 62.53, 60.00, 48.48, 53.88, 48.95, 43.86, 37.73, 32.26, 32.72, 38.14,
+    31.75, 25.10, 30.22,
+];
+const MA_WMA_10 = [
+    22.24, 22.23, 22.26, 22.29, 22.35, 22.55, 22.84, 23.05, 23.24, 23.43, 23.53, 23.64, 23.73, 23.76, 23.67, 23.56,
+    23.50, 23.33, 23.25, 23.07, 22.87,
+];
+// technicalindicators' StochasticRSI(14, 14, 3, 3) over the Bollinger Bands closes, from where %D starts. It
+// rounds RSI to two decimals first, so it drifts from the exact values by a few hundredths.
+const STOCH_RSI_K = [28.41, 0.12, 5.30, 13.32, 13.32, 8.50, 6.21, 23.84, 39.43, 54.68, 52.95];
+const STOCH_RSI_D = [53.88, 27.84, 11.28, 6.25, 10.65, 11.71, 9.34, 12.85, 23.16, 39.32, 49.02];
+
+const expectSeriesClose = (actual: number[], expected: number[], tolerance: number) => {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((value, index) => {
+        expect(Math.abs(value - expected[index]), `index ${index}: ${value} vs ${expected[index]}`).toBeLessThanOrEqual(tolerance);
+    });
+};
+
+const countLeadingNaN = (values: number[]) => {
+    const first = values.findIndex(value => !Number.isNaN(value));
+    return first === -1 ? values.length : first;
+};
+
+describe('wilderRsi', () => {
+    it('matches Wilder\'s 14-period example', () => {
+        const rsi = wilderRsi(WILDER_CLOSES, 14);
+        expect(rsi[14]).toBeCloseTo(70.46, 2);
+        expectSeriesClose(rsi.slice(14), WILDER_RSI, 0.1);
+    });
+
+    it('is undefined until `length` changes are available', () => {
+        expect(countLeadingNaN(wilderRsi(WILDER_CLOSES, 14))).toBe(14);
+    });
+
+    it('reads 50 on a flat series, 100 when only rising and 0 when only falling', () => {
+        expect(wilderRsi(new Array(20).fill(10), 14).slice(14)).toEqual(new Array(6).fill(50));
+        expect(wilderRsi(Array.from({ length: 20 }, (_, i) => i), 14)[19]).toBe(100);
+        expect(wilderRsi(Array.from({ length: 20 }, (_, i) => -i), 14)[19]).toBe(0);
+    });
+
+    it('returns only NaN for input too short to warm up', () => {
+        expect(wilderRsi(WILDER_CLOSES.slice(0, 14), 14).every(Number.isNaN)).toBe(true);
+        expect(wilderRsi([], 14)).toEqual([]);
+    });
+});
+
+describe('cutlerRsi', () => {
+    it('matches the reference over Wilder\'s example', () => {
+        expectSeriesClose(cutlerRsi(WILDER_CLOSES, 14).slice(14), CUTLER_RSI, 0.006);
+    });
+
+    it('starts where Wilder\'s RSI does, then averages the last `length` changes only', () => {
+        const rsi = cutlerRsi(WILDER_CLOSES, 14);
+        expect(countLeadingNaN(rsi)).toBe(14);
+        expect(rsi[14]).toBeCloseTo(70.46, 2);
+        expect(rsi[15]).toBeCloseTo(70.02, 2);
+        expect(rsi[16]).toBeCloseTo(69.83, 2);
+    });
+
+    it('does not depend on the history before its window', () => {
+        const full = cutlerRsi(WILDER_CLOSES, 14);
+        const trimmed = cutlerRsi(WILDER_CLOSES.slice(10), 14);
+        expect(trimmed[trimmed.length - 1]).toBeCloseTo(full[full.length - 1], 10);
+    });
+
+    it('reads 50 on a flat series and NaN for input too short to warm up', () => {
+        expect(cutlerRsi(new Array(16).fill(3), 14).slice(14)).toEqual([50, 50]);
+        expect(cutlerRsi([1, 2, 3], 14).every(Number.isNaN)).toBe(true);
+    });
+});
+
+describe('sma', () => {
+    it('matches the 10-day reference', () => {
+        const result = sma(MA_CLOSES, 10);
+        expect(countLeadingNaN(result)).toBe(9);
+        expectSeriesClose(result.slice(9), MA_SMA_10, 0.011);
+    });
+
+    it('is flat on a flat series and NaN for input too short', () => {
+        expect(sma([5, 5, 5, 5], 3).slice(2)).toEqual([5, 5]);
+        expect(sma([1, 2], 3).every(Number.isNaN)).toBe(true);
+    });
+
+    it('restarts its window after a gap', () => {
+        const result = sma([1, 2, 3, NaN, 4, 5, 6], 3);
+        expect(result.map(value => (Number.isNaN(value) ? null : value))).toEqual([null, null, 2, null, null, null, 5]);
+    });
+});
+
+describe('ema', () => {
+    it('matches the 10-day reference, seeded with the SMA', () => {
+        const result = ema(MA_CLOSES, 10);
+        expect(countLeadingNaN(result)).toBe(9);
+        expectSeriesClose(result.slice(9), MA_EMA_10, 0.011);
+    });
+
+    it('is flat on a flat series and NaN for input too short', () => {
+        expect(ema([7, 7, 7, 7, 7], 3).slice(2)).toEqual([7, 7, 7]);
+        expect(ema([1, 2], 3).every(Number.isNaN)).toBe(true);
+    });
+
+    it('starts after leading warm-up NaNs of its input', () => {
+        expect(countLeadingNaN(ema([NaN, NaN, 1, 2, 3, 4], 3))).toBe(4);
+    });
+});
+
+describe('wma', () => {
+    it('matches the 10-day reference', () => {
+        const result = wma(MA_CLOSES, 10);
+        expect(countLeadingNaN(result)).toBe(9);
+        expectSeriesClose(result.slice(9), MA_WMA_10, 0.006);
+    });
+
+    it('weights the newest value most', () => {
+        // (1·1 + 2·2 + 3·3) / 6 and (2·1 + 3·2 + 4·3) / 6
+        const result = wma([1, 2, 3, 4], 3);
+        expect(countLeadingNaN(result)).toBe(2);
+        expect(result[2]).toBeCloseTo(14 / 6, 10);
+        expect(result[3]).toBeCloseTo(20 / 6, 10);
+    });
+
+    it('is flat on a flat series and NaN for input too short or with gaps in the window', () => {
+        expect(wma([4, 4, 4, 4], 3).slice(2)).toEqual([4, 4]);
+        expect(wma([1, 2], 3).every(Number.isNaN)).toBe(true);
+        expect(Number.isNaN(wma([1, NaN, 3, 4], 3)[3])).toBe(true);
+    });
+});
+
+describe('bollingerBands', () => {
+    it('matches the 20-day, two standard deviation reference', () => {
+        const { basis, upper, lower } = bollingerBands(BB_CLOSES, 20, 2);
+        expect(countLeadingNaN(basis)).toBe(19);
+        expectSeriesClose(basis.slice(19), BB_BASIS_20, 0.006);
+        expectSeriesClose(upper.slice(19), BB_UPPER_20, 0.006);
+        expectSeriesClose(lower.slice(19), BB_LOWER_20, 0.006);
+    });
+
+    it('uses the population standard deviation', () => {
+        // The textbook example: mean 5, population standard deviation 2
+        const { basis, upper, lower } = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+        expect(countLeadingNaN(basis)).toBe(7);
+        expect(basis[7]).toBeCloseTo(5, 10);
+        expect(upper[7]).toBeCloseTo(9, 10);
+        expect(lower[7]).toBeCloseTo(1, 10);
+    });
+
+    it('collapses onto the basis on a flat series and is NaN for input too short', () => {
+        const { basis, upper, lower } = bollingerBands([3, 3, 3, 3], 3);
+        expect(upper.slice(2)).toEqual(basis.slice(2));
+        expect(lower.slice(2)).toEqual(basis.slice(2));
+        expect(bollingerBands([1, 2], 3).upper.every(Number.isNaN)).toBe(true);
+    });
+});
+
+describe('stochRsi', () => {
+    it('matches the 14, 14, 3, 3 reference', () => {
+        const { k, d } = stochRsi(wilderRsi(BB_CLOSES, 14), 14, 3, 3);
+        expect(countLeadingNaN(d)).toBe(31);
+        expectSeriesClose(k.slice(31), STOCH_RSI_K, 0.05);
+        expectSeriesClose(d.slice(31), STOCH_RSI_D, 0.05);
+    });
+
+    it('places each value within the range of its window', () => {
+        expect(stochastic([10, 20, 15], 3)[2]).toBeCloseTo(50, 10);
+        expect(stochastic([10, 20, 30], 3)[2]).toBe(100);
+        expect(stochastic([30, 20, 10], 3)[2]).toBe(0);
+    });
+
+    it('smooths %K with an SMA and takes %D as the SMA of %K', () => {
+        const rsi = [NaN, 10, 20, 30, 20, 10, 20];
+        const { k, d } = stochRsi(rsi, 3, 2, 2);
+        // Raw stochastic from index 3: 100, 0, 0, 100
+        expect(countLeadingNaN(k)).toBe(4);
+        expect(k.slice(4)).toEqual([50, 0, 50]);
+        expect(countLeadingNaN(d)).toBe(5);
+        expect(d.slice(5)).toEqual([25, 25]);
+    });
+
+    it('warms up over RSI, stochastic, %K and %D lengths', () => {
+        const rsi = wilderRsi(WILDER_CLOSES, 14);
+        const { k, d } = stochRsi(rsi, 5, 3, 3);
+        expect(countLeadingNaN(k)).toBe(14 + 4 + 2);
+        expect(countLeadingNaN(d)).toBe(14 + 4 + 2 + 2);
+    });
+
+    it('reads 50 on a flat RSI and NaN for input too short', () => {
+        const { k, d } = stochRsi(new Array(10).fill(40), 3, 2, 2);
+        expect(k.slice(3)).toEqual(new Array(7).fill(50));
+        expect(d.slice(4)).toEqual(new Array(6).fill(50));
+        expect(stochRsi([50, 60], 3, 2, 2).k.every(Number.isNaN)).toBe(true);
+    });
+});
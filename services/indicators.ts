@@ -0,0 +1,210 @@
+/**
+ * Pure indicator math over plain number series. Every function returns a series aligned with its
+ * input, with `NaN` wherever the indicator is not yet defined (warm-up bars or gaps in the input).
+ * Conventions follow TradingView's built-ins so values can be checked against its charts.
+ */
+
+export type MovingAverageType = 'sma' | 'ema' | 'wma';
+
+export interface BollingerBands {
+    basis: number[];
+    upper: number[];
+    lower: number[];
+}
+
+const nanSeries = (length: number): number[] => new Array(length).fill(NaN);
+
+// Index of the first defined value, or -1 if there is none.
+const firstDefinedIndex = (values: number[]): number => values.findIndex(value => !Number.isNaN(value));
+
+const toRsi = (averageGain: number, averageLoss: number): number => {
+    if (averageLoss === 0) return averageGain === 0 ? 50 : 100;
+    if (averageGain === 0) return 0;
+    return 100 - 100 / (1 + averageGain / averageLoss);
+};
+
+/**
+ * Simple moving average. Defined once `length` consecutive values are available.
+ */
+export const sma = (values: number[], length: number): number[] => {
+    const result = nanSeries(values.length);
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (Number.isNaN(value)) {
+            sum = 0;
+            count = 0;
+            continue;
+        }
+        sum += value;
+        count++;
+        if (count > length) {
+            sum -= values[i - length];
+            count = length;
+        }
+        if (count === length) {
+            result[i] = sum / length;
+        }
+    }
+    return result;
+};
+
+/**
+ * Exponential moving average with alpha = 2 / (length + 1), seeded with the SMA of the first `length` values.
+ */
+export const ema = (values: number[], length: number): number[] => {
+    const result = nanSeries(values.length);
+    const start = firstDefinedIndex(values);
+    if (start === -1 || values.length - start < length) return result;
+
+    const alpha = 2 / (length + 1);
+    let previous = values.slice(start, start + length).reduce((sum, value) => sum + value, 0) / length;
+    result[start + length - 1] = previous;
+    for (let i = start + length; i < values.length; i++) {
+        previous = alpha * values[i] + (1 - alpha) * previous;
+        result[i] = previous;
+    }
+    return result;
+};
+
+/**
+ * Wilder's moving average (RMA): alpha = 1 / length, seeded with the SMA of the first `length` values.
+ */
+export const rma = (values: number[], length: number): number[] => {
+    const result = nanSeries(values.length);
+    const start = firstDefinedIndex(values);
+    if (start === -1 || values.length - start < length) return result;
+
+    let previous = values.slice(start, start + length).reduce((sum, value) => sum + value, 0) / length;
+    result[start + length - 1] = previous;
+    for (let i = start + length; i < values.length; i++) {
+        previous = (previous * (length - 1) + values[i]) / length;
+        result[i] = previous;
+    }
+    return result;
+};
+
+/**
+ * Linearly weighted moving average; the newest value has weight `length`, the oldest weight 1.
+ */
+export const wma = (values: number[], length: number): number[] => {
+    const result = nanSeries(values.length);
+    const denominator = (length * (length + 1)) / 2;
+    for (let i = length - 1; i < values.length; i++) {
+        let weighted = 0;
+        let defined = true;
+        for (let j = 0; j < length; j++) {
+            const value = values[i - j];
+            if (Number.isNaN(value)) {
+                defined = false;
+                break;
+            }
+            weighted += value * (length - j);
+        }
+        if (defined) {
+            result[i] = weighted / denominator;
+        }
+    }
+    return result;
+};
+
+export const movingAverage = (values: number[], length: number, type: MovingAverageType): number[] => {
+    switch (type) {
+        case 'ema': return ema(values, length);
+        case 'wma': return wma(values, length);
+        default: return sma(values, length);
+    }
+};
+
+/**
+ * Population standard deviation over a rolling window, as used for Bollinger Bands.
+ */
+export const stdev = (values: number[], length: number): number[] => {
+    const means = sma(values, length);
+    return means.map((mean, i) => {
+        if (Number.isNaN(mean)) return NaN;
+        let squares = 0;
+        for (let j = i - length + 1; j <= i; j++) {
+            squares += (values[j] - mean) ** 2;
+        }
+        return Math.sqrt(squares / length);
+    });
+};
+
+/**
+ * Bollinger Bands: an SMA basis with bands `multiplier` standard deviations above and below.
+ */
+export const bollingerBands = (values: number[], length: number, multiplier: number = 2): BollingerBands => {
+    const basis = sma(values, length);
+    const deviations = stdev(values, length);
+    return {
+        basis,
+        upper: basis.map((mid, i) => mid + multiplier * deviations[i]),
+        lower: basis.map((mid, i) => mid - multiplier * deviations[i]),
+    };
+};
+
+// Per-bar gains and losses; index 0 has no previous bar and stays undefined.
+const priceChanges = (prices: number[]): { gains: number[]; losses: number[] } => {
+    const gains = nanSeries(prices.length);
+    const losses = nanSeries(prices.length);
+    for (let i = 1; i < prices.length; i++) {
+        const change = prices[i] - prices[i - 1];
+        gains[i] = Math.max(0, change);
+        losses[i] = Math.max(0, -change);
+    }
+    return { gains, losses };
+};
+
+/**
+ * Wilder's RSI, smoothing gains and losses with RMA. The first value is at index `length`.
+ * With Wilder's 14-period sample closes (44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42,
+ * 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28) the value at index 14 is 70.46.
+ */
+export const wilderRsi = (prices: number[], length: number): number[] => {
+    const { gains, losses } = priceChanges(prices);
+    const averageGains = rma(gains, length);
+    const averageLosses = rma(losses, length);
+    return averageGains.map((gain, i) => (Number.isNaN(gain) ? NaN : toRsi(gain, averageLosses[i])));
+};
+
+/**
+ * Cutler's RSI, which averages gains and losses with a plain SMA instead of Wilder smoothing,
+ * so the result doesn't depend on how much history precedes the window.
+ */
+export const cutlerRsi = (prices: number[], length: number): number[] => {
+    const { gains, losses } = priceChanges(prices);
+    const averageGains = sma(gains, length);
+    const averageLosses = sma(losses, length);
+    return averageGains.map((gain, i) => (Number.isNaN(gain) ? NaN : toRsi(gain, averageLosses[i])));
+};
+
+/**
+ * Stochastic of a single series: where each value sits within the range of the last `length` values, 0-100.
+ * A flat window has no range, so it reads as the midpoint rather than leaving a gap.
+ */
+export const stochastic = (values: number[], length: number): number[] => {
+    const result = nanSeries(values.length);
+    for (let i = length - 1; i < values.length; i++) {
+        const window = values.slice(i - length + 1, i + 1);
+        if (window.some(value => Number.isNaN(value))) continue;
+        const lowest = Math.min(...window);
+        const highest = Math.max(...window);
+        result[i] = highest === lowest ? 50 : ((values[i] - lowest) / (highest - lowest)) * 100;
+    }
+    return result;
+};
+
+export interface StochRsi {
+    k: number[];
+    d: number[];
+}
+
+/**
+ * Stochastic RSI from an RSI series: %K is the SMA-smoothed stochastic of RSI and %D the SMA of %K.
+ */
+export const stochRsi = (rsiValues: number[], stochLength: number, kSmoothing: number, dSmoothing: number): StochRsi => {
+    const k = sma(stochastic(rsiValues, stochLength), kSmoothing);
+    return { k, d: sma(k, dSmoothing) };
+};
@@ -0,0 +1,111 @@
+import type { Kline, ProviderId, Timeframe } from '../types';
+import { openDatabase, transactionDone, KLINE_STORE } from './database';
+
+// Eviction policy: entries unused for a week go, then the least recently used beyond the entry cap.
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 2000;
+const MAX_KLINES_PER_ENTRY = 1000;
+
+interface CacheEntry {
+    key: string;
+    klines: Kline[];
+    updatedAt: number;
+    accessedAt: number;
+}
+
+export interface CachedKlines {
+    klines: Kline[];
+    /** Epoch ms when the entry was last written. */
+    updatedAt: number;
+}
+
+const getCacheKey = (providerId: ProviderId, symbol: string, timeframe: Timeframe) => `${providerId}:${symbol}:${timeframe}`;
+
+/**
+ * Reads the cached kline windows for the given symbols and marks them as recently used.
+ * Symbols without an entry are left out of the result.
+ */
+export const readCachedKlines = async (providerId: ProviderId, timeframe: Timeframe, symbols: string[]): Promise<Record<string, CachedKlines>> => {
+    const db = await openDatabase();
+    const result: Record<string, CachedKlines> = {};
+    if (!db) return result;
+
+    try {
+        const transaction = db.transaction(KLINE_STORE, 'readwrite');
+        const store = transaction.objectStore(KLINE_STORE);
+        const now = Date.now();
+        symbols.forEach(symbol => {
+            const request = store.get(getCacheKey(providerId, symbol, timeframe));
+            request.onsuccess = () => {
+                const entry: CacheEntry | undefined = request.result;
+                if (!entry) return;
+                result[symbol] = { klines: entry.klines, updatedAt: entry.updatedAt };
+                store.put({ ...entry, accessedAt: now });
+            };
+        });
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to read kline cache', error);
+    }
+    return result;
+};
+
+/**
+ * Stores kline windows, keeping at most the newest `MAX_KLINES_PER_ENTRY` candles per entry.
+ */
+export const writeCachedKlines = async (providerId: ProviderId, timeframe: Timeframe, klinesBySymbol: Record<string, Kline[]>): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(KLINE_STORE, 'readwrite');
+        const store = transaction.objectStore(KLINE_STORE);
+        const now = Date.now();
+        Object.entries(klinesBySymbol).forEach(([symbol, klines]) => {
+            if (klines.length === 0) return;
+            const entry: CacheEntry = {
+                key: getCacheKey(providerId, symbol, timeframe),
+                klines: klines.slice(-MAX_KLINES_PER_ENTRY),
+                updatedAt: now,
+                accessedAt: now,
+            };
+            store.put(entry);
+        });
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to write kline cache', error);
+    }
+};
+
+/**
+ * Deletes entries not used within `MAX_AGE`, then the least recently used ones beyond `MAX_ENTRIES`.
+ */
+export const evictKlineCache = async (): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(KLINE_STORE, 'readwrite');
+        const store = transaction.objectStore(KLINE_STORE);
+        const cutoff = Date.now() - MAX_AGE;
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - MAX_ENTRIES;
+            // The index walks entries from least to most recently used
+            const cursorRequest = store.index('accessedAt').openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) return;
+                const entry: CacheEntry = cursor.value;
+                if (entry.accessedAt < cutoff || excess > 0) {
+                    cursor.delete();
+                    excess--;
+                    cursor.continue();
+                }
+            };
+        };
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to evict kline cache', error);
+    }
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import type { Kline } from '../types';
+import { openKlineStream, type KlineStream, type StreamStatus } from './klineStream';
+import { binanceSpotProvider } from './providers/binanceSpot';
+
+const klineMessage = (symbol: string, openTime: number, close: number) => JSON.stringify({
+    stream: `${symbol.toLowerCase()}@kline_1m`,
+    data: {
+        e: 'kline',
+        s: symbol,
+        k: { t: openTime, T: openTime + 59999, o: '1', h: '2', l: '0.5', c: String(close), v: '10', x: false },
+    },
+});
+
+describe('openKlineStream against a local mock server', () => {
+    let server: WebSocketServer;
+    let stream: KlineStream | null = null;
+    // Sockets the server accepted, in order, with the URL each one asked for
+    let connections: { socket: NodeWebSocket; url: string }[];
+
+    beforeEach(async () => {
+        connections = [];
+        server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+        server.on('connection', (socket, request) => connections.push({ socket, url: request.url ?? '' }));
+        await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    });
+
+    afterEach(async () => {
+        stream?.close();
+        stream = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const open = (onKline: (symbol: string, kline: Kline) => void, onStatusChange: (status: StreamStatus) => void) => {
+        const { port } = server.address() as AddressInfo;
+        stream = openKlineStream({
+            spec: binanceSpotProvider.stream,
+            symbols: ['BTCUSDT', 'ETHUSDT'],
+            timeframe: '1m',
+            onKline,
+            onStatusChange,
+            baseUrl: `ws://127.0.0.1:${port}/stream`,
+            createSocket: url => new NodeWebSocket(url) as unknown as WebSocket,
+        });
+    };
+
+    it('subscribes to every symbol and reports klines', async () => {
+        const klines: [string, Kline][] = [];
+        const statuses: StreamStatus[] = [];
+        open((symbol, kline) => klines.push([symbol, kline]), status => statuses.push(status));
+
+        await vi.waitFor(() => expect(statuses.at(-1)).toBe('open'));
+        expect(connections).toHaveLength(1);
+        expect(connections[0].url).toBe('/stream?streams=btcusdt@kline_1m/ethusdt@kline_1m');
+
+        connections[0].socket.send(klineMessage('ETHUSDT', 60000, 3000));
+        await vi.waitFor(() => expect(klines).toHaveLength(1));
+        expect(klines[0][0]).toBe('ETHUSDT');
+        expect(klines[0][1]).toMatchObject({ openTime: 60000, close: 3000, closeTime: 119999 });
+    });
+
+    it('reconnects after the server drops the socket and resumes delivering klines', async () => {
+        const klines: [string, Kline][] = [];
+        const statuses: StreamStatus[] = [];
+        open((symbol, kline) => klines.push([symbol, kline]), status => statuses.push(status));
+        await vi.waitFor(() => expect(statuses.at(-1)).toBe('open'));
+
+        connections[0].socket.terminate();
+        await vi.waitFor(() => expect(statuses.at(-1)).toBe('closed'));
+
+        // The first retry waits between half a second and a second
+        await vi.waitFor(() => expect(statuses.at(-1)).toBe('open'), { timeout: 3000 });
+        expect(connections).toHaveLength(2);
+        expect(statuses).toEqual(['connecting', 'open', 'closed', 'connecting', 'open']);
+
+        connections[1].socket.send(klineMessage('BTCUSDT', 120000, 65000));
+        await vi.waitFor(() => expect(klines).toHaveLength(1));
+        expect(klines[0]).toEqual(['BTCUSDT', expect.objectContaining({ openTime: 120000, close: 65000 })]);
+    });
+
+    it('stops reconnecting once closed', async () => {
+        const statuses: StreamStatus[] = [];
+        open(() => {}, status => statuses.push(status));
+        await vi.waitFor(() => expect(statuses.at(-1)).toBe('open'));
+
+        stream?.close();
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        expect(connections).toHaveLength(1);
+    });
+});
@@ -0,0 +1,159 @@
+import type { Kline, KlineStreamSpec, Timeframe } from '../types';
+
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+// A socket that has been silent this long is treated as dead and reconnected.
+const IDLE_TIMEOUT = 60000;
+
+export type StreamStatus = 'connecting' | 'open' | 'closed';
+
+export interface KlineStreamOptions {
+    spec: KlineStreamSpec;
+    symbols: string[];
+    timeframe: Timeframe;
+    onKline: (symbol: string, kline: Kline) => void;
+    onStatusChange?: (status: StreamStatus) => void;
+    /** Overrides the provider's stream endpoint, e.g. to point at a local mock server. */
+    baseUrl?: string;
+    createSocket?: (url: string) => WebSocket;
+}
+
+export interface KlineStream {
+    close: () => void;
+}
+
+interface SocketState {
+    url: string;
+    symbols: string[];
+    socket: WebSocket | null;
+    status: StreamStatus;
+    attempt: number;
+    reconnectTimer: ReturnType<typeof setTimeout> | null;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export const getReconnectDelay = (attempt: number): number => {
+    const delay = Math.min(MAX_RECONNECT_DELAY, INITIAL_RECONNECT_DELAY * 2 ** attempt);
+    // Jitter spreads out reconnects when several sockets drop at once.
+    return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Opens a provider's kline streams for the given symbols and reports every kline update.
+ * Sockets reconnect with exponential backoff until `close` is called.
+ */
+export const openKlineStream = ({
+    spec,
+    symbols,
+    timeframe,
+    onKline,
+    onStatusChange,
+    baseUrl = spec.baseUrl,
+    createSocket = (url: string) => new WebSocket(url),
+}: KlineStreamOptions): KlineStream => {
+    let closed = false;
+    let lastStatus: StreamStatus | null = null;
+
+    const states: SocketState[] = [];
+    for (let i = 0; i < symbols.length; i += spec.maxSymbolsPerSocket) {
+        const chunk = symbols.slice(i, i + spec.maxSymbolsPerSocket);
+        states.push({
+            url: spec.getUrl(baseUrl, chunk, timeframe),
+            symbols: chunk,
+            socket: null,
+            status: 'connecting',
+            attempt: 0,
+            reconnectTimer: null,
+            idleTimer: null,
+        });
+    }
+
+    const reportStatus = () => {
+        let status: StreamStatus = 'open';
+        if (states.some(state => state.status === 'closed')) {
+            status = 'closed';
+        } else if (states.some(state => state.status === 'connecting')) {
+            status = 'connecting';
+        }
+        if (status !== lastStatus) {
+            lastStatus = status;
+            onStatusChange?.(status);
+        }
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data !== 'string') return;
+        // Frames that are not kline events (subscription acks, pongs) parse to null
+        const update = spec.parseMessage(event.data);
+        if (update) {
+            onKline(update.symbol, update.kline);
+        }
+    };
+
+    const resetIdleTimer = (state: SocketState) => {
+        if (state.idleTimer) clearTimeout(state.idleTimer);
+        state.idleTimer = setTimeout(() => state.socket?.close(), IDLE_TIMEOUT);
+    };
+
+    const connect = (state: SocketState) => {
+        if (closed) return;
+        state.status = 'connecting';
+        reportStatus();
+
+        let socket: WebSocket;
+        try {
+            socket = createSocket(state.url);
+        } catch {
+            scheduleReconnect(state);
+            return;
+        }
+        state.socket = socket;
+
+        socket.onopen = () => {
+            spec.getSubscribeMessages?.(state.symbols, timeframe).forEach(message => socket.send(message));
+            state.attempt = 0;
+            state.status = 'open';
+            resetIdleTimer(state);
+            reportStatus();
+        };
+        socket.onmessage = (event) => {
+            resetIdleTimer(state);
+            handleMessage(event);
+        };
+        socket.onerror = () => {
+            socket.close();
+        };
+        socket.onclose = () => {
+            if (state.socket !== socket) return;
+            state.socket = null;
+            scheduleReconnect(state);
+        };
+    };
+
+    const scheduleReconnect = (state: SocketState) => {
+        if (state.idleTimer) clearTimeout(state.idleTimer);
+        if (closed) return;
+        state.status = 'closed';
+        reportStatus();
+        state.reconnectTimer = setTimeout(() => {
+            state.reconnectTimer = null;
+            connect(state);
+        }, getReconnectDelay(state.attempt));
+        state.attempt++;
+    };
+
+    states.forEach(connect);
+
+    return {
+        close: () => {
+            closed = true;
+            states.forEach(state => {
+                if (state.reconnectTimer) clearTimeout(state.reconnectTimer);
+                if (state.idleTimer) clearTimeout(state.idleTimer);
+                const socket = state.socket;
+                state.socket = null;
+                socket?.close();
+            });
+        },
+    };
+};
@@ -0,0 +1,221 @@
+import type { Candle, IndicatorSettings, Kline, MarketDataProvider, PriceSource, ScheduleOptions, SymbolData, Timeframe, RsiDataPoint } from '../types';
+import { MarketDataError } from './errors';
+import { TIMEFRAME_DURATIONS } from '../constants';
+import { wilderRsi, cutlerRsi, movingAverage, bollingerBands, stochRsi, type BollingerBands } from './indicators';
+import { detectDivergences } from './divergence';
+
+const DEFAULT_LIMIT = 80;
+// Most candles the exchanges return for one kline request
+const MAX_KLINES_PER_REQUEST = 1000;
+
+const EMPTY_SYMBOL_DATA: SymbolData = { rsi: [], sma: [], candles: [], divergences: [], price: 0, volume: 0, status: 'error', lastUpdated: null };
+
+export const getSourcePrice = (kline: Kline, source: PriceSource): number => {
+    switch (source) {
+        case 'open': return kline.open;
+        case 'high': return kline.high;
+        case 'low': return kline.low;
+        case 'hl2': return (kline.high + kline.low) / 2;
+        case 'hlc3': return (kline.high + kline.low + kline.close) / 3;
+        case 'ohlc4': return (kline.open + kline.high + kline.low + kline.close) / 4;
+        default: return kline.close;
+    }
+};
+
+// Converts an indicator series aligned with `klines` to chart points, skipping undefined values.
+const toDataPoints = (values: number[], klines: Kline[]): RsiDataPoint[] => {
+    const points: RsiDataPoint[] = [];
+    values.forEach((value, index) => {
+        if (!Number.isNaN(value)) {
+            points.push({ time: klines[index].openTime, value });
+        }
+    });
+    return points;
+};
+
+/**
+ * Number of candles needed to produce `limit` points of the indicator and its signal line.
+ */
+export const getKlineWindowSize = (params: IndicatorSettings, limit: number = DEFAULT_LIMIT): number =>
+    params.mode === 'stochRsi'
+        ? limit + params.rsiLength + params.stochLength + params.stochKSmoothing + params.stochDSmoothing
+        : limit + params.rsiLength + params.smaLength;
+
+/**
+ * Fetches the klines for a symbol, sized so that `limit` RSI points can be derived from them.
+ */
+export const fetchKlines = async (
+    provider: MarketDataProvider,
+    symbol: string,
+    timeframe: Timeframe,
+    params: IndicatorSettings,
+    limit: number = DEFAULT_LIMIT,
+    options?: ScheduleOptions,
+): Promise<Kline[]> => {
+    const klines = await provider.fetchKlines(symbol, timeframe, getKlineWindowSize(params, limit), options);
+    if (klines.length === 0) {
+        throw new MarketDataError('invalid-symbol', `No candles for ${symbol}; it may be delisted`);
+    }
+    return klines;
+};
+
+/**
+ * Fetches up to `count` candles opening before `before`, oldest first, paging back through `endTime` when one
+ * request can't hold them all. Fewer are returned once the market's history runs out.
+ */
+export const fetchKlinesBefore = async (
+    provider: MarketDataProvider,
+    symbol: string,
+    timeframe: Timeframe,
+    before: number,
+    count: number,
+    options?: ScheduleOptions,
+): Promise<Kline[]> => {
+    let klines: Kline[] = [];
+    let cursor = before;
+    while (klines.length < count) {
+        const limit = Math.min(MAX_KLINES_PER_REQUEST, count - klines.length);
+        const page = (await provider.fetchKlines(symbol, timeframe, limit, { ...options, endTime: cursor - 1 }))
+            .filter(kline => kline.openTime < cursor);
+        klines = page.concat(klines);
+        if (page.length < limit) break;
+        cursor = page[0].openTime;
+    }
+    return klines;
+};
+
+/**
+ * Brings a cached kline window up to date by requesting only the candles from the last cached
+ * open time onwards; that last candle is requested again since it may have been cached while still open.
+ * Falls back to a full fetch when there is no cache or the gap is wider than the window.
+ */
+export const fetchKlinesIncremental = async (
+    provider: MarketDataProvider,
+    symbol: string,
+    timeframe: Timeframe,
+    cached: Kline[] | undefined,
+    params: IndicatorSettings,
+    limit: number = DEFAULT_LIMIT,
+    options?: ScheduleOptions,
+): Promise<Kline[]> => {
+    const windowSize = getKlineWindowSize(params, limit);
+    const last = cached?.[cached.length - 1];
+    if (!cached || !last) {
+        return fetchKlines(provider, symbol, timeframe, params, limit, options);
+    }
+
+    const missing = Math.ceil((Date.now() - last.openTime) / TIMEFRAME_DURATIONS[timeframe]) + 1;
+    if (missing >= windowSize || cached.length + missing - 1 < windowSize) {
+        return fetchKlines(provider, symbol, timeframe, params, limit, options);
+    }
+
+    const fresh = await provider.fetchKlines(symbol, timeframe, missing, { ...options, startTime: last.openTime });
+    const merged = cached.filter(kline => kline.openTime < last.openTime).concat(fresh);
+    return merged.slice(-windowSize);
+};
+
+/**
+ * Derives the indicator and signal line (RSI/SMA, or Stoch RSI %K/%D), the matching candles, their
+ * divergences and the latest price/volume from a window of raw klines.
+ */
+export const computeSymbolData = (klines: Kline[], params: IndicatorSettings, limit: number = DEFAULT_LIMIT): SymbolData => {
+    if (!klines || klines.length === 0) {
+        return { ...EMPTY_SYMBOL_DATA, error: 'No candles' };
+    }
+
+    const prices = klines.map(kline => getSourcePrice(kline, params.priceSource));
+    const rsiValues = params.rsiSmoothing === 'cutler'
+        ? cutlerRsi(prices, params.rsiLength)
+        : wilderRsi(prices, params.rsiLength);
+    let bands: BollingerBands | null = null;
+    let lineValues = rsiValues;
+    let signalValues: number[];
+    if (params.mode === 'stochRsi') {
+        const { k, d } = stochRsi(rsiValues, params.stochLength, params.stochKSmoothing, params.stochDSmoothing);
+        lineValues = k;
+        signalValues = d;
+    } else if (params.signalType === 'bb') {
+        bands = bollingerBands(rsiValues, params.smaLength, params.bbMultiplier);
+        signalValues = bands.basis;
+    } else {
+        signalValues = movingAverage(rsiValues, params.smaLength, params.signalType);
+    }
+    const latestKline = klines[klines.length - 1];
+    const rsi = toDataPoints(lineValues, klines).slice(-limit);
+    const candles: Candle[] = klines.slice(klines.length - rsi.length).map(kline => ({
+        time: kline.openTime,
+        open: kline.open,
+        high: kline.high,
+        low: kline.low,
+        close: kline.close,
+        volume: kline.volume,
+    }));
+
+    return {
+        rsi,
+        sma: toDataPoints(signalValues, klines).slice(-limit),
+        ...(bands ? {
+            bbUpper: toDataPoints(bands.upper, klines).slice(-limit),
+            bbLower: toDataPoints(bands.lower, klines).slice(-limit),
+        } : {}),
+        candles,
+        divergences: detectDivergences(candles, rsi),
+        price: latestKline.close,
+        volume: latestKline.volume,
+        status: 'ok',
+        lastUpdated: Date.now(),
+    };
+};
+
+/**
+ * Transient failures are worth retrying; an invalid symbol will keep failing.
+ */
+export const isRetryableError = (error: unknown): boolean =>
+    !(error instanceof MarketDataError && error.kind === 'invalid-symbol');
+
+/**
+ * Records a failed refresh. A symbol with a previous good series keeps it and is marked stale;
+ * otherwise it becomes an error, or invalid when the exchange rejected the symbol.
+ */
+export const toFailedSymbolData = (previous: SymbolData | undefined, error: unknown): SymbolData => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof MarketDataError && error.kind === 'invalid-symbol') {
+        return { ...EMPTY_SYMBOL_DATA, status: 'invalid', error: message };
+    }
+    if (previous && previous.rsi.length > 0) {
+        return { ...previous, status: 'stale', error: message };
+    }
+    return { ...EMPTY_SYMBOL_DATA, status: 'error', error: message };
+};
+
+/**
+ * Applies a streamed kline to a kline window in place. An update for the current candle replaces it;
+ * a newer candle is appended and the oldest one dropped so the window keeps its size.
+ * Returns false when the kline is older than the window and was ignored.
+ */
+export const mergeKline = (klines: Kline[], kline: Kline): boolean => {
+    const last = klines[klines.length - 1];
+    if (!last) {
+        klines.push(kline);
+        return true;
+    }
+    if (kline.openTime === last.openTime) {
+        klines[klines.length - 1] = kline;
+        return true;
+    }
+    if (kline.openTime > last.openTime) {
+        klines.push(kline);
+        klines.shift();
+        return true;
+    }
+    return false;
+};
+
+export const fetchRsiForSymbol = async (provider: MarketDataProvider, symbol: string, timeframe: Timeframe, params: IndicatorSettings, limit: number = DEFAULT_LIMIT): Promise<SymbolData> => {
+    try {
+        const klines = await fetchKlines(provider, symbol, timeframe, params, limit);
+        return computeSymbolData(klines, params, limit);
+    } catch (error) {
+        return toFailedSymbolData(undefined, error);
+    }
+};
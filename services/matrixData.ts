@@ -0,0 +1,45 @@
+import type { IndicatorSettings, Kline, MarketDataProvider, SymbolData, Timeframe } from '../types';
+import { fetchKlinesIncremental, toFailedSymbolData } from './marketData';
+import { readCachedKlines, writeCachedKlines } from './klineCache';
+import type { IndicatorComputer } from './indicatorClient';
+
+export interface LoadTimeframeOptions {
+    /** Data from the previous load, kept as stale when a refresh fails. */
+    previous?: Record<string, SymbolData>;
+    getPriority?: (symbol: string) => number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Loads SymbolData for every symbol at one timeframe, topping up cached klines where possible.
+ * Used for every timeframe other than the main one, which has its own live pipeline.
+ * Resolves to null if `signal` is aborted.
+ */
+export const loadTimeframeData = async (
+    provider: MarketDataProvider,
+    timeframe: Timeframe,
+    symbols: string[],
+    params: IndicatorSettings,
+    computer: IndicatorComputer,
+    { previous = {}, getPriority = () => 0, signal }: LoadTimeframeOptions = {},
+): Promise<Record<string, SymbolData> | null> => {
+    const cached = await readCachedKlines(provider.id, timeframe, symbols);
+    if (signal?.aborted) return null;
+
+    const fetched: Record<string, Kline[]> = {};
+    const errors: Record<string, unknown> = {};
+    await Promise.all(symbols.map(symbol =>
+        fetchKlinesIncremental(provider, symbol, timeframe, cached[symbol]?.klines, params, undefined, { priority: getPriority(symbol), signal })
+            .then(klines => { fetched[symbol] = klines; }, (error: unknown) => { errors[symbol] = error; })
+    ));
+    if (signal?.aborted) return null;
+    writeCachedKlines(provider.id, timeframe, fetched);
+
+    const computed = await computer.compute(fetched, params, signal);
+    if (!computed) return null;
+    const result: Record<string, SymbolData> = {};
+    symbols.forEach(symbol => {
+        result[symbol] = computed[symbol] ?? toFailedSymbolData(previous[symbol], errors[symbol]);
+    });
+    return result;
+};
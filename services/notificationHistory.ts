@@ -0,0 +1,154 @@
+import type { Notification, NotificationType, Timeframe } from '../types';
+import { getIndicatorLabel } from '../constants';
+import { openDatabase, transactionDone, NOTIFICATION_STORE } from './database';
+import { describeNotification } from './alertDelivery';
+
+// Oldest entries beyond this are dropped when the history is pruned
+const MAX_ENTRIES = 10000;
+
+export interface NotificationHistoryFilter {
+    /** Exact symbol, case-insensitive. */
+    symbol?: string;
+    timeframe?: Timeframe;
+    type?: NotificationType;
+    /** Exact rule name, case-insensitive. */
+    rule?: string;
+    /** Case-insensitive text matched against the symbol, timeframe, rule and description. */
+    search?: string;
+}
+
+export interface NotificationHistoryPage {
+    /** Newest first. */
+    entries: Notification[];
+    /** Number of entries matching the filter, including those beyond the limit. */
+    total: number;
+}
+
+export const matchesHistoryFilter = (notification: Notification, { symbol, timeframe, type, rule, search }: NotificationHistoryFilter): boolean => {
+    if (symbol && notification.symbol.toUpperCase() !== symbol.trim().toUpperCase()) return false;
+    if (timeframe && notification.timeframe !== timeframe) return false;
+    if (type && notification.type !== type) return false;
+    if (rule && (notification.ruleName ?? '').toLowerCase() !== rule.trim().toLowerCase()) return false;
+    if (search) {
+        const text = `${notification.symbol} ${notification.timeframe} ${notification.ruleName ?? ''} ${describeNotification(notification)}`.toLowerCase();
+        if (!text.includes(search.trim().toLowerCase())) return false;
+    }
+    return true;
+};
+
+/** Appends an alert to the history. Failures are logged; the alert itself has already been shown. */
+export const addToHistory = async (notification: Notification): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(NOTIFICATION_STORE, 'readwrite');
+        transaction.objectStore(NOTIFICATION_STORE).put(notification);
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to write notification history', error);
+    }
+};
+
+/**
+ * Walks the history from newest to oldest and returns up to `limit` entries matching the filter,
+ * along with the total number of matches.
+ */
+export const queryHistory = async (filter: NotificationHistoryFilter, limit: number = Infinity): Promise<NotificationHistoryPage> => {
+    const db = await openDatabase();
+    const page: NotificationHistoryPage = { entries: [], total: 0 };
+    if (!db) return page;
+
+    try {
+        const transaction = db.transaction(NOTIFICATION_STORE, 'readonly');
+        const cursorRequest = transaction.objectStore(NOTIFICATION_STORE).index('timestamp').openCursor(null, 'prev');
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const notification: Notification = cursor.value;
+            if (matchesHistoryFilter(notification, filter)) {
+                if (page.entries.length < limit) page.entries.push(notification);
+                page.total++;
+            }
+            cursor.continue();
+        };
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to read notification history', error);
+    }
+    return page;
+};
+
+export const clearHistory = async (): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(NOTIFICATION_STORE, 'readwrite');
+        transaction.objectStore(NOTIFICATION_STORE).clear();
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to clear notification history', error);
+    }
+};
+
+/**
+ * Deletes the oldest entries beyond `MAX_ENTRIES`.
+ */
+export const pruneHistory = async (): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(NOTIFICATION_STORE, 'readwrite');
+        const store = transaction.objectStore(NOTIFICATION_STORE);
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - MAX_ENTRIES;
+            if (excess <= 0) return;
+            const cursorRequest = store.index('timestamp').openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || excess <= 0) return;
+                cursor.delete();
+                excess--;
+                cursor.continue();
+            };
+        };
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error('Failed to prune notification history', error);
+    }
+};
+
+const CSV_COLUMNS: { header: string; value: (notification: Notification) => string | number | undefined }[] = [
+    { header: 'timestamp', value: n => new Date(n.timestamp).toISOString() },
+    { header: 'symbol', value: n => n.symbol },
+    { header: 'timeframe', value: n => n.timeframe },
+    { header: 'type', value: n => n.type },
+    { header: 'indicator', value: n => getIndicatorLabel(n.indicator) },
+    { header: 'value', value: n => n.rsi.toFixed(2) },
+    { header: 'rule', value: n => n.ruleName },
+    { header: 'condition', value: n => n.ruleCondition },
+    { header: 'severity', value: n => n.severity },
+    { header: 'divergence', value: n => n.divergence },
+    { header: 'score', value: n => n.score?.toFixed(0) },
+    { header: 'message', value: n => describeNotification(n) },
+];
+
+const escapeCsv = (value: string | number | undefined) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatHistoryCsv = (notifications: Notification[]): string =>
+    [
+        CSV_COLUMNS.map(column => column.header).join(','),
+        ...notifications.map(n => CSV_COLUMNS.map(column => escapeCsv(column.value(n))).join(',')),
+    ].join('\r\n');
+
+export const formatHistoryJson = (notifications: Notification[]): string =>
+    JSON.stringify(notifications.map(notification => {
+        const { read, ...entry } = notification;
+        return { ...entry, time: new Date(notification.timestamp).toISOString(), message: describeNotification(notification) };
+    }), null, 2);
@@ -0,0 +1,183 @@
+import type { Kline, KlineRequestOptions, MarketDataProvider, ProviderId, StreamedKline, Ticker, Timeframe } from '../../types';
+import { createRequestScheduler } from '../requestScheduler';
+import { MarketDataError } from '../errors';
+
+interface BinanceProviderConfig {
+    id: ProviderId;
+    label: string;
+    /** REST root including the API version path, e.g. `https://api.binance.com/api/v3`. */
+    restBaseUrl: string;
+    streamBaseUrl: string;
+    /** Request weight allowed per minute per IP. */
+    weightLimit: number;
+    weights: {
+        klines: (limit: number) => number;
+        exchangeInfo: number;
+        tickers: number;
+    };
+}
+
+// Binance allows up to 1024 streams per connection; smaller chunks keep the URL short.
+const MAX_STREAMS_PER_SOCKET = 200;
+
+// Binance error code for unknown or delisted symbols
+const INVALID_SYMBOL_CODE = -1121;
+
+const toRequestError = async (response: Response, symbol: string): Promise<MarketDataError> => {
+    if (response.status === 429 || response.status === 418) {
+        return new MarketDataError('rate-limited', 'Rate limited by Binance');
+    }
+    try {
+        const body = await response.json();
+        if (body?.code === INVALID_SYMBOL_CODE) {
+            return new MarketDataError('invalid-symbol', `${symbol} is not listed`);
+        }
+        if (body?.msg) {
+            return new MarketDataError('http', `${body.msg} (HTTP ${response.status})`);
+        }
+    } catch {
+        // Non-JSON error body
+    }
+    return new MarketDataError('http', `HTTP ${response.status}`);
+};
+
+// REST klines are arrays: [openTime, open, high, low, close, volume, closeTime, ...], with prices as strings
+type RestKline = [number, string, string, string, string, string, number, ...unknown[]];
+
+interface ExchangeInfoSymbol {
+    symbol: string;
+    status: string;
+}
+
+interface Ticker24hr {
+    symbol: string;
+    lastPrice: string;
+    priceChangePercent: string;
+    quoteVolume: string;
+}
+
+const isRestKline = (raw: unknown): raw is RestKline =>
+    Array.isArray(raw) && raw.length >= 7 && typeof raw[0] === 'number' && typeof raw[6] === 'number';
+
+const isExchangeInfoSymbol = (raw: unknown): raw is ExchangeInfoSymbol =>
+    typeof raw === 'object' && raw !== null
+    && typeof (raw as ExchangeInfoSymbol).symbol === 'string' && typeof (raw as ExchangeInfoSymbol).status === 'string';
+
+const isTicker24hr = (raw: unknown): raw is Ticker24hr =>
+    typeof raw === 'object' && raw !== null && typeof (raw as Ticker24hr).symbol === 'string';
+
+const parseRestKline = (raw: RestKline): Kline => ({
+    openTime: raw[0],
+    open: parseFloat(raw[1]),
+    high: parseFloat(raw[2]),
+    low: parseFloat(raw[3]),
+    close: parseFloat(raw[4]),
+    volume: parseFloat(raw[5]),
+    closeTime: raw[6],
+});
+
+const parseStreamMessage = (data: string): StreamedKline | null => {
+    try {
+        const message = JSON.parse(data);
+        const payload = message.data ?? message;
+        if (payload?.e !== 'kline' || !payload.k) return null;
+        const k = payload.k;
+        return {
+            symbol: payload.s,
+            isClosed: Boolean(k.x),
+            kline: {
+                openTime: k.t,
+                open: parseFloat(k.o),
+                high: parseFloat(k.h),
+                low: parseFloat(k.l),
+                close: parseFloat(k.c),
+                volume: parseFloat(k.v),
+                closeTime: k.T,
+            },
+        };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Builds an adapter for one of Binance's markets. Spot and USDⓈ-M Futures share payload formats
+ * and differ only in hosts and API paths.
+ */
+export const createBinanceProvider = ({ id, label, restBaseUrl, streamBaseUrl, weightLimit, weights }: BinanceProviderConfig): MarketDataProvider => {
+    const scheduler = createRequestScheduler({
+        weightLimit,
+        usedWeightHeader: 'X-MBX-USED-WEIGHT-1M',
+    });
+
+    return {
+        id,
+        label,
+        scheduler,
+
+        fetchKlines: async (symbol: string, timeframe: Timeframe, limit: number, { startTime, endTime, ...options }: KlineRequestOptions = {}): Promise<Kline[]> => {
+            let url = `${restBaseUrl}/klines?symbol=${symbol}&interval=${timeframe}&limit=${limit}`;
+            if (startTime !== undefined) url += `&startTime=${startTime}`;
+            if (endTime !== undefined) url += `&endTime=${endTime}`;
+            let response: Response;
+            try {
+                response = await scheduler.fetch(url, { ...options, weight: weights.klines(limit) });
+            } catch (error) {
+                if (options.signal?.aborted) throw error;
+                throw new MarketDataError('network', 'Network error');
+            }
+            if (!response.ok) {
+                throw await toRequestError(response, symbol);
+            }
+            const raw: unknown = await response.json();
+            if (!Array.isArray(raw) || !raw.every(isRestKline)) {
+                throw new MarketDataError('http', `Malformed klines for ${symbol}`);
+            }
+            return raw.map(parseRestKline);
+        },
+
+        fetchSymbols: async (): Promise<string[]> => {
+            const response = await scheduler.fetch(`${restBaseUrl}/exchangeInfo`, { weight: weights.exchangeInfo });
+            if (!response.ok) {
+                throw new Error(`Failed to fetch symbols from ${label}`);
+            }
+            const info: { symbols?: unknown } = await response.json();
+            if (!Array.isArray(info?.symbols)) {
+                throw new Error(`Malformed symbol list from ${label}`);
+            }
+            return info.symbols
+                .filter(isExchangeInfoSymbol)
+                .filter(s => s.status === 'TRADING')
+                .map(s => s.symbol);
+        },
+
+        fetchTickers: async (): Promise<Record<string, Ticker>> => {
+            const response = await scheduler.fetch(`${restBaseUrl}/ticker/24hr`, { weight: weights.tickers });
+            if (!response.ok) {
+                throw new Error(`Failed to fetch tickers from ${label}`);
+            }
+            const raw: unknown = await response.json();
+            if (!Array.isArray(raw)) {
+                throw new Error(`Malformed tickers from ${label}`);
+            }
+            const tickers: Record<string, Ticker> = {};
+            raw.filter(isTicker24hr).forEach(t => {
+                tickers[t.symbol] = {
+                    symbol: t.symbol,
+                    lastPrice: parseFloat(t.lastPrice),
+                    priceChangePercent: parseFloat(t.priceChangePercent),
+                    quoteVolume: parseFloat(t.quoteVolume),
+                };
+            });
+            return tickers;
+        },
+
+        stream: {
+            baseUrl: streamBaseUrl,
+            maxSymbolsPerSocket: MAX_STREAMS_PER_SOCKET,
+            getUrl: (baseUrl: string, symbols: string[], timeframe: Timeframe) =>
+                `${baseUrl}?streams=${symbols.map(symbol => `${symbol.toLowerCase()}@kline_${timeframe}`).join('/')}`,
+            parseMessage: parseStreamMessage,
+        },
+    };
+};
@@ -0,0 +1,15 @@
+import { createBinanceProvider } from './binance';
+
+export const binanceFuturesProvider = createBinanceProvider({
+    id: 'binance-futures',
+    label: 'Binance USDⓈ-M Futures',
+    restBaseUrl: 'https://fapi.binance.com/fapi/v1',
+    streamBaseUrl: 'wss://fstream.binance.com/stream',
+    weightLimit: 2400,
+    weights: {
+        // Futures klines are charged by the requested limit
+        klines: (limit: number) => (limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10),
+        exchangeInfo: 1,
+        tickers: 40,
+    },
+});
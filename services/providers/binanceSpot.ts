@@ -0,0 +1,14 @@
+import { createBinanceProvider } from './binance';
+
+export const binanceSpotProvider = createBinanceProvider({
+    id: 'binance-spot',
+    label: 'Binance Spot',
+    restBaseUrl: 'https://api.binance.com/api/v3',
+    streamBaseUrl: 'wss://stream.binance.com:9443/stream',
+    weightLimit: 6000,
+    weights: {
+        klines: () => 2,
+        exchangeInfo: 20,
+        tickers: 80,
+    },
+});
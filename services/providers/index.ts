@@ -0,0 +1,14 @@
+import type { MarketDataProvider, ProviderId } from '../../types';
+import { binanceSpotProvider } from './binanceSpot';
+import { binanceFuturesProvider } from './binanceFutures';
+
+// Register new exchange adapters here; the settings panel lists them in this order.
+export const PROVIDERS: MarketDataProvider[] = [
+    binanceSpotProvider,
+    binanceFuturesProvider,
+];
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'binance-spot';
+
+export const getProvider = (id: ProviderId): MarketDataProvider =>
+    PROVIDERS.find(provider => provider.id === id) ?? binanceSpotProvider;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createRequestScheduler } from './requestScheduler';
+
+// A fetch whose responses are released by hand, recording the order requests were sent in
+const createManualFetch = () => {
+    const sent: string[] = [];
+    const pending = new Map<string, (response: Response) => void>();
+    return {
+        sent,
+        fetchImpl: (url: string) => new Promise<Response>(resolve => {
+            sent.push(url);
+            pending.set(url, resolve);
+        }),
+        respond: (url: string, status = 200) => pending.get(url)?.(new Response('[]', { status })),
+    };
+};
+
+describe('createRequestScheduler', () => {
+    it('drops aborted requests from the queue so they never run', async () => {
+        const { sent, fetchImpl, respond } = createManualFetch();
+        const scheduler = createRequestScheduler({ weightLimit: 1000, maxConcurrent: 1, fetchImpl });
+        const controller = new AbortController();
+
+        const first = scheduler.fetch('/current-1');
+        const stale = scheduler.fetch('/stale', { signal: controller.signal });
+        const second = scheduler.fetch('/current-2');
+        expect(scheduler.getStats().queued).toBe(2);
+
+        controller.abort();
+        await expect(stale).rejects.toMatchObject({ name: 'AbortError' });
+        expect(scheduler.getStats().queued).toBe(1);
+
+        respond('/current-1');
+        await first;
+        respond('/current-2');
+        await second;
+        expect(sent).toEqual(['/current-1', '/current-2']);
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+        const { sent, fetchImpl } = createManualFetch();
+        const scheduler = createRequestScheduler({ weightLimit: 1000, fetchImpl });
+
+        await expect(scheduler.fetch('/late', { signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+        expect(sent).toEqual([]);
+        expect(scheduler.getStats().queued).toBe(0);
+    });
+
+    it('lets a request that was already sent complete', async () => {
+        const { fetchImpl, respond } = createManualFetch();
+        const scheduler = createRequestScheduler({ weightLimit: 1000, fetchImpl });
+        const controller = new AbortController();
+
+        const request = scheduler.fetch('/sent', { signal: controller.signal });
+        controller.abort();
+        respond('/sent');
+        await expect(request).resolves.toBeInstanceOf(Response);
+    });
+
+    it('does not retry a rate-limited request whose caller gave up while it was in flight', async () => {
+        const { sent, fetchImpl, respond } = createManualFetch();
+        const scheduler = createRequestScheduler({ weightLimit: 1000, fetchImpl });
+        const controller = new AbortController();
+
+        const request = scheduler.fetch('/limited', { signal: controller.signal });
+        controller.abort();
+        respond('/limited', 429);
+        await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+        expect(sent).toEqual(['/limited']);
+        expect(scheduler.getStats()).toMatchObject({ queued: 0, inFlight: 0 });
+        expect(scheduler.getStats().backoffUntil).not.toBeNull();
+    });
+
+    it('runs lower priorities first', async () => {
+        const { sent, fetchImpl, respond } = createManualFetch();
+        const scheduler = createRequestScheduler({ weightLimit: 1000, maxConcurrent: 1, fetchImpl });
+
+        const requests = [
+            scheduler.fetch('/busy'),
+            scheduler.fetch('/background', { priority: 5 }),
+            scheduler.fetch('/visible', { priority: 1 }),
+        ];
+        respond('/busy');
+        await requests[0];
+        respond('/visible');
+        await requests[2];
+        respond('/background');
+        await requests[1];
+        expect(sent).toEqual(['/busy', '/visible', '/background']);
+    });
+});
@@ -0,0 +1,201 @@
+import type { RequestScheduler, RequestStats, ScheduleOptions } from '../types';
+
+// Exchanges count request weight in fixed one-minute windows.
+const WEIGHT_WINDOW = 60000;
+// Keep some of the budget free for other tabs or tools sharing the same IP.
+const WEIGHT_HEADROOM = 0.9;
+const DEFAULT_MAX_CONCURRENT = 8;
+const DEFAULT_BACKOFF = 60000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export interface RequestSchedulerConfig {
+    weightLimit: number;
+    maxConcurrent?: number;
+    /** Response header reporting the weight used in the current window, e.g. `X-MBX-USED-WEIGHT-1M`. */
+    usedWeightHeader?: string;
+    fetchImpl?: (url: string) => Promise<Response>;
+}
+
+interface QueuedRequest {
+    url: string;
+    weight: number;
+    priority: number;
+    seq: number;
+    attempts: number;
+    signal?: AbortSignal;
+    resolve: (response: Response) => void;
+    reject: (error: unknown) => void;
+}
+
+const currentWindowStart = () => Math.floor(Date.now() / WEIGHT_WINDOW) * WEIGHT_WINDOW;
+
+/**
+ * Creates a priority queue for REST calls to one exchange. It caps concurrency, keeps the per-minute
+ * request weight under the exchange limit, and pauses everything when the exchange answers 429 or 418.
+ */
+export const createRequestScheduler = ({
+    weightLimit,
+    maxConcurrent = DEFAULT_MAX_CONCURRENT,
+    usedWeightHeader,
+    fetchImpl = (url: string) => fetch(url),
+}: RequestSchedulerConfig): RequestScheduler => {
+    const queue: QueuedRequest[] = [];
+    const listeners = new Set<(stats: RequestStats) => void>();
+    const budget = Math.floor(weightLimit * WEIGHT_HEADROOM);
+
+    let inFlight = 0;
+    let usedWeight = 0;
+    let windowStart = currentWindowStart();
+    let backoffUntil: number | null = null;
+    let seq = 0;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const getStats = (): RequestStats => ({
+        queued: queue.length,
+        inFlight,
+        usedWeight,
+        weightLimit,
+        backoffUntil,
+    });
+
+    const notify = () => {
+        const stats = getStats();
+        listeners.forEach(listener => listener(stats));
+    };
+
+    const rollWindow = () => {
+        const start = currentWindowStart();
+        if (start !== windowStart) {
+            windowStart = start;
+            usedWeight = 0;
+        }
+    };
+
+    const enqueue = (request: QueuedRequest) => {
+        const index = queue.findIndex(queued =>
+            queued.priority > request.priority || (queued.priority === request.priority && queued.seq > request.seq)
+        );
+        if (index === -1) {
+            queue.push(request);
+        } else {
+            queue.splice(index, 0, request);
+        }
+    };
+
+    const wakeAt = (time: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, time - Date.now()));
+    };
+
+    const readUsedWeight = (response: Response) => {
+        if (!usedWeightHeader) return;
+        const reported = parseInt(response.headers.get(usedWeightHeader) ?? '', 10);
+        // Our own estimate also covers requests the exchange hasn't counted yet, so keep the larger one
+        if (Number.isFinite(reported)) {
+            usedWeight = Math.max(usedWeight, reported);
+        }
+    };
+
+    const getRetryDelay = (response: Response): number => {
+        const retryAfter = parseFloat(response.headers.get('Retry-After') ?? '');
+        return Number.isFinite(retryAfter) ? retryAfter * 1000 : DEFAULT_BACKOFF;
+    };
+
+    const dispatch = async (request: QueuedRequest) => {
+        inFlight++;
+        usedWeight += request.weight;
+        try {
+            const response = await fetchImpl(request.url);
+            readUsedWeight(response);
+            if ((response.status === 429 || response.status === 418) && request.attempts < MAX_RATE_LIMIT_RETRIES) {
+                backoffUntil = Math.max(backoffUntil ?? 0, Date.now() + getRetryDelay(response));
+                // A caller that gave up while the request was in flight doesn't get it retried
+                if (request.signal?.aborted) {
+                    request.reject(request.signal.reason);
+                } else {
+                    request.attempts++;
+                    enqueue(request);
+                }
+            } else {
+                request.resolve(response);
+            }
+        } catch (error) {
+            request.reject(error);
+        } finally {
+            inFlight--;
+            pump();
+        }
+    };
+
+    const pump = () => {
+        rollWindow();
+        if (backoffUntil !== null) {
+            if (Date.now() < backoffUntil) {
+                wakeAt(backoffUntil);
+                notify();
+                return;
+            }
+            backoffUntil = null;
+        }
+
+        while (queue.length > 0 && inFlight < maxConcurrent) {
+            const next = queue[0];
+            // A single request heavier than the whole budget may still run in an otherwise empty window
+            if (usedWeight > 0 && usedWeight + next.weight > budget) {
+                wakeAt(windowStart + WEIGHT_WINDOW);
+                break;
+            }
+            queue.shift();
+            dispatch(next);
+        }
+        notify();
+    };
+
+    return {
+        fetch: (url: string, { weight = 1, priority = 0, signal }: ScheduleOptions = {}) =>
+            new Promise<Response>((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(signal.reason);
+                    return;
+                }
+                // Stale work, e.g. for a timeframe the user has left, gives its place in the queue to current requests
+                const handleAbort = () => {
+                    const index = queue.indexOf(request);
+                    if (index === -1) return;
+                    queue.splice(index, 1);
+                    reject(signal!.reason);
+                    notify();
+                };
+                const settle = () => signal?.removeEventListener('abort', handleAbort);
+                const request: QueuedRequest = {
+                    url,
+                    weight,
+                    priority,
+                    seq: seq++,
+                    attempts: 0,
+                    signal,
+                    resolve: response => {
+                        settle();
+                        resolve(response);
+                    },
+                    reject: error => {
+                        settle();
+                        reject(error);
+                    },
+                };
+                signal?.addEventListener('abort', handleAbort);
+                enqueue(request);
+                pump();
+            }),
+        getStats,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { SymbolData } from '../types';
+import { ScreenerError } from './errors';
+import { compileScreener, type ScreenerContext } from './screener';
+
+const createData = ({ rsi, sma = 50, price = 100, volume = 1000 }: { rsi: number; sma?: number; price?: number; volume?: number }): SymbolData => ({
+    rsi: [{ time: 0, value: rsi }],
+    sma: [{ time: 0, value: sma }],
+    candles: [],
+    divergences: [],
+    price,
+    volume,
+    status: 'ok',
+    lastUpdated: 0,
+});
+
+const matches = (source: string, context: ScreenerContext) => compileScreener(source)(context);
+
+// The error `source` fails to compile with
+const getError = (source: string): ScreenerError => {
+    try {
+        compileScreener(source);
+    } catch (error) {
+        if (error instanceof ScreenerError) return error;
+        throw error;
+    }
+    throw new Error(`'${source}' compiled`);
+};
+
+const btc = (fields: Parameters<typeof createData>[0]): ScreenerContext => ({ symbol: 'BTCUSDT', data: createData(fields) });
+
+describe('compileScreener', () => {
+    describe('precedence', () => {
+        it('binds and tighter than or', () => {
+            const source = 'rsi < 30 or rsi > 70 and price > 100';
+            expect(matches(source, btc({ rsi: 20, price: 50 }))).toBe(true);
+            expect(matches(source, btc({ rsi: 80, price: 50 }))).toBe(false);
+            expect(matches(source, btc({ rsi: 80, price: 150 }))).toBe(true);
+        });
+
+        it('binds not tighter than and, but looser than a comparison', () => {
+            expect(matches('not rsi < 30 and price > 100', btc({ rsi: 50, price: 150 }))).toBe(true);
+            expect(matches('not rsi < 30 and price > 100', btc({ rsi: 20, price: 150 }))).toBe(false);
+        });
+
+        it('multiplies before adding and evaluates arithmetic before comparing', () => {
+            expect(matches('price == 2 + 3 * 4', btc({ rsi: 50, price: 14 }))).toBe(true);
+            expect(matches('price == 10 - 4 / 2', btc({ rsi: 50, price: 8 }))).toBe(true);
+            expect(matches('-rsi < -40', btc({ rsi: 50 }))).toBe(true);
+        });
+    });
+
+    describe('parentheses', () => {
+        it('group conditions', () => {
+            const source = '(rsi < 30 or rsi > 70) and price > 100';
+            expect(matches(source, btc({ rsi: 20, price: 50 }))).toBe(false);
+            expect(matches(source, btc({ rsi: 80, price: 150 }))).toBe(true);
+        });
+
+        it('group arithmetic', () => {
+            expect(matches('price == (2 + 3) * 4', btc({ rsi: 50, price: 20 }))).toBe(true);
+            expect(matches('(rsi + sma) / 2 > 50', btc({ rsi: 60, sma: 50 }))).toBe(true);
+        });
+
+        it('still need a condition around a grouped value', () => {
+            expect(getError('(rsi + sma)')).toMatchObject({
+                message: "Expected a comparison such as '<' or '~' but found end of expression at column 12",
+                position: 11,
+            });
+            expect(getError('(rsi) && rsi < 30')).toMatchObject({ message: "Expected a comparison such as '<' or '~' but found '&&' at column 7", position: 6 });
+        });
+
+        it('must be closed', () => {
+            expect(getError('(rsi < 30 or rsi > 70')).toMatchObject({
+                message: "Expected ')' to close the '(' at column 1 but found end of expression at column 22",
+                position: 21,
+            });
+        });
+    });
+
+    it('accepts symbols and keywords alike for logic, and = for ==', () => {
+        const context = btc({ rsi: 20, price: 50 });
+        expect(matches('!(rsi > 30) && (price = 50 || rsi > 90)', context)).toBe(true);
+        expect(matches('NOT (rsi > 30) AND (price == 50 OR rsi > 90)', context)).toBe(true);
+    });
+
+    it('compares fields with each other', () => {
+        expect(matches('rsi > sma', btc({ rsi: 60, sma: 55 }))).toBe(true);
+        expect(matches('rsi > signal', btc({ rsi: 50, sma: 55 }))).toBe(false);
+    });
+
+    describe('~ and !~', () => {
+        it('test whether text contains other text, ignoring case', () => {
+            const context: ScreenerContext = { symbol: 'SOLUSDT', data: createData({ rsi: 50 }) };
+            expect(matches('symbol ~ "sol"', context)).toBe(true);
+            expect(matches("symbol ~ 'BTC'", context)).toBe(false);
+            expect(matches('symbol !~ "btc"', context)).toBe(true);
+            expect(matches('symbol !~ "Usdt"', context)).toBe(false);
+        });
+
+        it('compare text for equality ignoring case', () => {
+            expect(matches('symbol == "btcusdt" and status != "ERROR"', btc({ rsi: 50 }))).toBe(true);
+        });
+    });
+
+    describe('type errors', () => {
+        it('reject text where a number is expected', () => {
+            expect(getError('symbol < 3')).toMatchObject({ message: "'<' expects a number but got text at column 1", position: 0 });
+            expect(getError('rsi + "a" > 1')).toMatchObject({ message: "'+' expects a number but got text at column 7", position: 6 });
+        });
+
+        it('reject a number where text is expected', () => {
+            expect(getError('symbol ~ 30')).toMatchObject({ message: "'~' expects text but got a number at column 10", position: 9 });
+            expect(getError('rsi !~ "a"')).toMatchObject({ message: "'!~' expects text but got a number at column 1", position: 0 });
+        });
+
+        it('reject equality between text and a number', () => {
+            expect(getError('symbol == 1')).toMatchObject({ message: "'==' expects text but got a number at column 11", position: 10 });
+        });
+
+        it('reject a value where a condition is expected', () => {
+            expect(getError('rsi < 30 and price')).toMatchObject({
+                message: "Expected a comparison such as '<' or '~' but found end of expression at column 19",
+                position: 18,
+            });
+            expect(getError('not 5')).toMatchObject({ message: "Expected a comparison such as '<' or '~' but found end of expression at column 6" });
+        });
+
+        it('reject chained comparisons', () => {
+            expect(getError('10 < rsi < 30')).toMatchObject({ message: "Comparisons can't be chained; combine them with 'and' at column 10", position: 9 });
+        });
+    });
+
+    it('rejects unknown fields, pointing at them', () => {
+        const error = getError('rsi < 30 and rsx > 5');
+        expect(error.message).toMatch(/^Unknown field 'rsx'; use one of symbol, rsi, sma, .* at column 14$/);
+        expect(error.position).toBe(13);
+    });
+
+    it('rejects unterminated text, pointing at its opening quote', () => {
+        expect(getError('symbol ~ "SOL')).toMatchObject({ message: 'Unterminated text starting at column 10; add a closing "', position: 9 });
+        expect(getError("symbol ~ 'SOL\"")).toMatchObject({ message: "Unterminated text starting at column 10; add a closing '", position: 9 });
+    });
+
+    it('rejects stray characters, missing operands and leftover tokens', () => {
+        expect(getError('rsi # 3')).toMatchObject({ message: "Unexpected character '#' at column 5", position: 4 });
+        expect(getError('rsi <')).toMatchObject({ message: 'Expression is incomplete at column 6', position: 5 });
+        expect(getError('rsi < )')).toMatchObject({ message: "Expected a field, number or text but found ')' at column 7", position: 6 });
+        expect(getError('rsi < 30 rsi > 70')).toMatchObject({ message: "Unexpected 'rsi'; join conditions with 'and' or 'or' at column 10", position: 9 });
+        expect(getError('   ')).toMatchObject({ message: 'Expression is empty at column 4', position: 3 });
+    });
+
+    describe('missing data', () => {
+        const noData: ScreenerContext = { symbol: 'BTCUSDT', data: undefined };
+
+        it('never matches a comparison, nor its negation', () => {
+            expect(matches('rsi < 30', noData)).toBe(false);
+            expect(matches('not rsi < 30', noData)).toBe(false);
+            expect(matches('not (rsi < 30 or price > 5)', noData)).toBe(false);
+        });
+
+        it('lets conditions on other fields decide', () => {
+            expect(matches('rsi < 30 or symbol ~ "btc"', noData)).toBe(true);
+            expect(matches('not (rsi < 30 and symbol ~ "eth")', noData)).toBe(true);
+            expect(matches('rsi < 30 and symbol ~ "btc"', noData)).toBe(false);
+        });
+
+        it('treats division by zero as missing', () => {
+            expect(matches('rsi / 0 > 1', btc({ rsi: 50 }))).toBe(false);
+            expect(matches('not rsi / 0 > 1', btc({ rsi: 50 }))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,398 @@
+import type { SymbolData } from '../types';
+import { ScreenerError } from './errors';
+import { getRecentDivergence } from './divergence';
+
+/**
+ * A small filter language over scan results, e.g. `rsi < 30 and rsi > sma and volume > 1e6 and symbol ~ "SOL"`.
+ *
+ * - Comparisons: `<`, `<=`, `>`, `>=`, `==` (or `=`), `!=`, and `~` / `!~` for case-insensitive "contains"
+ * - Logic: `and`, `or`, `not` (or `&&`, `||`, `!`) and parentheses
+ * - Arithmetic on numbers: `+`, `-`, `*`, `/`
+ * - Text is quoted with single or double quotes; text comparisons ignore case
+ */
+
+export interface ScreenerContext {
+    symbol: string;
+    data: SymbolData | undefined;
+}
+
+type ValueType = 'number' | 'string' | 'boolean';
+type Value = number | string | boolean | undefined;
+
+interface FieldDefinition {
+    type: 'number' | 'string';
+    description: string;
+    get: (context: ScreenerContext) => number | string | undefined;
+}
+
+const lastValue = (points: { value: number }[] | undefined) => points?.[points.length - 1]?.value;
+
+export const SCREENER_FIELDS: Record<string, FieldDefinition> = {
+    symbol: { type: 'string', description: 'Trading pair, e.g. "BTCUSDT"', get: ({ symbol }) => symbol },
+    rsi: { type: 'number', description: 'Latest RSI (or Stoch RSI %K)', get: ({ data }) => lastValue(data?.rsi) },
+    sma: { type: 'number', description: 'Latest signal line value (or %D)', get: ({ data }) => lastValue(data?.sma) },
+    signal: { type: 'number', description: 'Alias of sma', get: ({ data }) => lastValue(data?.sma) },
+    price: { type: 'number', description: 'Last price', get: ({ data }) => data?.price },
+    volume: { type: 'number', description: 'Volume of the latest candle', get: ({ data }) => data?.volume },
+    change: {
+        type: 'number',
+        description: 'Price change in % over the loaded candles',
+        get: ({ data }) => {
+            const candles = data?.candles;
+            if (!candles || candles.length < 2 || candles[0].close === 0) return undefined;
+            return ((candles[candles.length - 1].close - candles[0].close) / candles[0].close) * 100;
+        },
+    },
+    status: { type: 'string', description: 'ok, stale, error or invalid', get: ({ data }) => data?.status },
+    divergence: {
+        type: 'string',
+        description: 'Type of a recent divergence, e.g. "regular-bullish", or empty',
+        get: ({ data }) => getRecentDivergence(data)?.type ?? '',
+    },
+};
+
+// --- Tokenizer ---
+
+type Token =
+    | { kind: 'number'; value: number; position: number }
+    | { kind: 'string'; value: string; position: number }
+    | { kind: 'identifier'; value: string; position: number }
+    | { kind: 'operator'; value: string; position: number }
+    | { kind: 'end'; position: number };
+
+// Longest operators first so `<=` isn't read as `<` followed by `=`
+const OPERATORS = ['<=', '>=', '==', '!=', '!~', '&&', '||', '<', '>', '=', '~', '!', '(', ')', '+', '-', '*', '/'];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const numberMatch = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+        if (numberMatch) {
+            tokens.push({ kind: 'number', value: parseFloat(numberMatch[0]), position: i });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const end = source.indexOf(char, i + 1);
+            if (end === -1) {
+                throw new ScreenerError(`Unterminated text starting at column ${i + 1}; add a closing ${char}`, i);
+            }
+            tokens.push({ kind: 'string', value: source.slice(i + 1, end), position: i });
+            i = end + 1;
+            continue;
+        }
+
+        const identifierMatch = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i));
+        if (identifierMatch) {
+            const word = identifierMatch[0].toLowerCase();
+            tokens.push(word in KEYWORD_OPERATORS
+                ? { kind: 'operator', value: KEYWORD_OPERATORS[word], position: i }
+                : { kind: 'identifier', value: word, position: i });
+            i += identifierMatch[0].length;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (operator) {
+            tokens.push({ kind: 'operator', value: operator === '=' ? '==' : operator, position: i });
+            i += operator.length;
+            continue;
+        }
+
+        throw new ScreenerError(`Unexpected character '${char}' at column ${i + 1}`, i);
+    }
+    tokens.push({ kind: 'end', position: source.length });
+    return tokens;
+};
+
+// --- Parser ---
+
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=' | '~' | '!~';
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+type ScreenerNode =
+    | { type: 'literal'; value: number | string }
+    | { type: 'field'; name: string }
+    | { type: 'negate'; operand: ScreenerNode }
+    | { type: 'arithmetic'; operator: ArithmeticOperator; left: ScreenerNode; right: ScreenerNode }
+    | { type: 'compare'; operator: ComparisonOperator; left: ScreenerNode; right: ScreenerNode }
+    | { type: 'and' | 'or'; left: ScreenerNode; right: ScreenerNode }
+    | { type: 'not'; operand: ScreenerNode };
+
+interface Parsed {
+    node: ScreenerNode;
+    valueType: ValueType;
+    position: number;
+}
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['<', '<=', '>', '>=', '==', '!=', '~', '!~'];
+
+const describeToken = (token: Token): string => {
+    switch (token.kind) {
+        case 'end': return 'end of expression';
+        case 'string': return `"${token.value}"`;
+        default: return `'${token.value}'`;
+    }
+};
+
+const parse = (source: string): ScreenerNode => {
+    const tokens = tokenize(source);
+    let index = 0;
+    // Open parentheses around the current token; inside them a plain value may stand alone, e.g. `(rsi + sma) / 2`
+    let depth = 0;
+
+    const peek = () => tokens[index];
+    const isOperator = (value: string) => {
+        const token = peek();
+        return token.kind === 'operator' && token.value === value;
+    };
+    const fail = (message: string, token: Token = peek()): never => {
+        throw new ScreenerError(`${message} at column ${token.position + 1}`, token.position);
+    };
+    const expectType = (parsed: Parsed, expected: ValueType, context: string) => {
+        if (parsed.valueType !== expected) {
+            const found = parsed.valueType === 'boolean' ? 'a condition' : parsed.valueType === 'string' ? 'text' : 'a number';
+            const wanted = expected === 'boolean' ? 'a condition' : expected === 'string' ? 'text' : 'a number';
+            throw new ScreenerError(`${context} expects ${wanted} but got ${found} at column ${parsed.position + 1}`, parsed.position);
+        }
+    };
+
+    const parseOr = (): Parsed => {
+        let left = parseAnd();
+        while (isOperator('||')) {
+            index++;
+            const right = parseAnd();
+            expectType(left, 'boolean', "'or'");
+            expectType(right, 'boolean', "'or'");
+            left = { node: { type: 'or', left: left.node, right: right.node }, valueType: 'boolean', position: left.position };
+        }
+        return left;
+    };
+
+    const parseAnd = (): Parsed => {
+        let left = parseNot();
+        while (isOperator('&&')) {
+            index++;
+            const right = parseNot();
+            expectType(left, 'boolean', "'and'");
+            expectType(right, 'boolean', "'and'");
+            left = { node: { type: 'and', left: left.node, right: right.node }, valueType: 'boolean', position: left.position };
+        }
+        return left;
+    };
+
+    const parseNot = (): Parsed => {
+        if (isOperator('!')) {
+            const position = peek().position;
+            index++;
+            const operand = parseNot();
+            expectType(operand, 'boolean', "'not'");
+            return { node: { type: 'not', operand: operand.node }, valueType: 'boolean', position };
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = (): Parsed => {
+        const left = parseAdditive();
+        const token = peek();
+        if (token.kind !== 'operator' || !COMPARISON_OPERATORS.includes(token.value as ComparisonOperator)) {
+            if (left.valueType !== 'boolean' && !(depth > 0 && isOperator(')'))) {
+                const expected = token.kind === 'end' ? 'end of expression' : describeToken(token);
+                fail(`Expected a comparison such as '<' or '~' but found ${expected}`);
+            }
+            return left;
+        }
+        const operator = token.value as ComparisonOperator;
+        index++;
+        const right = parseAdditive();
+
+        if (operator === '~' || operator === '!~') {
+            expectType(left, 'string', `'${operator}'`);
+            expectType(right, 'string', `'${operator}'`);
+        } else if (operator === '==' || operator === '!=') {
+            if (left.valueType === 'boolean') expectType(left, 'number', `'${operator}'`);
+            expectType(right, left.valueType, `'${operator}'`);
+        } else {
+            expectType(left, 'number', `'${operator}'`);
+            expectType(right, 'number', `'${operator}'`);
+        }
+
+        const next = peek();
+        if (next.kind === 'operator' && COMPARISON_OPERATORS.includes(next.value as ComparisonOperator)) {
+            fail("Comparisons can't be chained; combine them with 'and'", next);
+        }
+        return { node: { type: 'compare', operator, left: left.node, right: right.node }, valueType: 'boolean', position: left.position };
+    };
+
+    const parseAdditive = (): Parsed => {
+        let left = parseMultiplicative();
+        while (isOperator('+') || isOperator('-')) {
+            const operator = (peek() as { value: string }).value as ArithmeticOperator;
+            index++;
+            const right = parseMultiplicative();
+            expectType(left, 'number', `'${operator}'`);
+            expectType(right, 'number', `'${operator}'`);
+            left = { node: { type: 'arithmetic', operator, left: left.node, right: right.node }, valueType: 'number', position: left.position };
+        }
+        return left;
+    };
+
+    const parseMultiplicative = (): Parsed => {
+        let left = parseUnary();
+        while (isOperator('*') || isOperator('/')) {
+            const operator = (peek() as { value: string }).value as ArithmeticOperator;
+            index++;
+            const right = parseUnary();
+            expectType(left, 'number', `'${operator}'`);
+            expectType(right, 'number', `'${operator}'`);
+            left = { node: { type: 'arithmetic', operator, left: left.node, right: right.node }, valueType: 'number', position: left.position };
+        }
+        return left;
+    };
+
+    const parseUnary = (): Parsed => {
+        if (isOperator('-')) {
+            const position = peek().position;
+            index++;
+            const operand = parseUnary();
+            expectType(operand, 'number', "'-'");
+            return { node: { type: 'negate', operand: operand.node }, valueType: 'number', position };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): Parsed => {
+        const token = peek();
+        switch (token.kind) {
+            case 'number':
+                index++;
+                return { node: { type: 'literal', value: token.value }, valueType: 'number', position: token.position };
+            case 'string':
+                index++;
+                return { node: { type: 'literal', value: token.value }, valueType: 'string', position: token.position };
+            case 'identifier': {
+                const field = SCREENER_FIELDS[token.value];
+                if (!field) {
+                    fail(`Unknown field '${token.value}'; use one of ${Object.keys(SCREENER_FIELDS).join(', ')}`, token);
+                }
+                index++;
+                return { node: { type: 'field', name: token.value }, valueType: field.type, position: token.position };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    index++;
+                    depth++;
+                    const inner = parseOr();
+                    depth--;
+                    if (!isOperator(')')) {
+                        fail(`Expected ')' to close the '(' at column ${token.position + 1} but found ${describeToken(peek())}`);
+                    }
+                    index++;
+                    return { ...inner, position: token.position };
+                }
+                return fail(`Expected a field, number or text but found ${describeToken(token)}`);
+            default:
+                return fail('Expression is incomplete');
+        }
+    };
+
+    if (peek().kind === 'end') {
+        fail('Expression is empty');
+    }
+    const result = parseOr();
+    if (peek().kind !== 'end') {
+        fail(`Unexpected ${describeToken(peek())}; join conditions with 'and' or 'or'`);
+    }
+    expectType(result, 'boolean', 'A filter');
+    return result.node;
+};
+
+// --- Evaluation ---
+
+const evaluate = (node: ScreenerNode, context: ScreenerContext): Value => {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'field':
+            return SCREENER_FIELDS[node.name].get(context);
+        case 'negate': {
+            const value = evaluate(node.operand, context);
+            return typeof value === 'number' ? -value : undefined;
+        }
+        case 'arithmetic': {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            if (typeof left !== 'number' || typeof right !== 'number') return undefined;
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right === 0 ? undefined : left / right;
+            }
+            return undefined;
+        }
+        case 'compare': {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            // Missing data makes the comparison unknown rather than false, so neither it nor its `not` matches
+            if (left === undefined || right === undefined || Number.isNaN(left) || Number.isNaN(right)) return undefined;
+            if (typeof left === 'string' && typeof right === 'string') {
+                const a = left.toLowerCase();
+                const b = right.toLowerCase();
+                switch (node.operator) {
+                    case '~': return a.includes(b);
+                    case '!~': return !a.includes(b);
+                    case '==': return a === b;
+                    case '!=': return a !== b;
+                }
+                return false;
+            }
+            switch (node.operator) {
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                case '>=': return left >= right;
+                case '==': return left === right;
+                case '!=': return left !== right;
+            }
+            return false;
+        }
+        // Unknown conditions follow three-valued logic: `false and unknown` is false, `true or unknown` is true
+        case 'and': {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            if (left === false || right === false) return false;
+            return left === true && right === true ? true : undefined;
+        }
+        case 'or': {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            if (left === true || right === true) return true;
+            return left === false && right === false ? false : undefined;
+        }
+        case 'not': {
+            const value = evaluate(node.operand, context);
+            return value === undefined ? undefined : !value;
+        }
+    }
+};
+
+export type ScreenerPredicate = (context: ScreenerContext) => boolean;
+
+/**
+ * Parses an expression into a predicate over scan results. Throws a `ScreenerError` describing
+ * the first problem found.
+ */
+export const compileScreener = (source: string): ScreenerPredicate => {
+    const node = parse(source);
+    return (context) => evaluate(node, context) === true;
+};
@@ -0,0 +1,77 @@
+import type { Timeframe } from '../types';
+import { TIMEFRAME_DURATIONS } from '../constants';
+
+const MIN_REFRESH_INTERVAL = 60 * 1000;
+const MAX_REFRESH_INTERVAL = 10 * 60 * 1000;
+// How long to wait before checking again while the exchange has us backing off
+const BUSY_RETRY_DELAY = 15 * 1000;
+
+export interface TimeframeMonitorOptions {
+    timeframes: Timeframe[];
+    /** Loads and publishes one timeframe. Should settle promptly once `signal` is aborted. */
+    load: (timeframe: Timeframe, signal: AbortSignal) => Promise<void>;
+    getRefreshInterval?: (timeframe: Timeframe) => number;
+    /** Returning false postpones the next load, e.g. while the request scheduler is backing off. */
+    canLoad?: () => boolean;
+}
+
+export interface TimeframeMonitor {
+    stop: () => void;
+}
+
+/**
+ * Refreshes a timeframe about 15 times per candle, between once a minute and once every 10 minutes,
+ * so slow timeframes don't spend the request budget on values that barely move.
+ */
+export const getRefreshInterval = (timeframe: Timeframe): number =>
+    Math.min(MAX_REFRESH_INTERVAL, Math.max(MIN_REFRESH_INTERVAL, TIMEFRAME_DURATIONS[timeframe] / 15));
+
+/**
+ * Keeps a set of timeframes loaded in the background, independently of the one on screen. Timeframes
+ * are loaded one at a time so they don't compete with each other for the request budget, and each is
+ * rescheduled on its own interval once its load has finished.
+ */
+export const startTimeframeMonitor = ({
+    timeframes,
+    load,
+    getRefreshInterval: getInterval = getRefreshInterval,
+    canLoad = () => true,
+}: TimeframeMonitorOptions): TimeframeMonitor => {
+    const controller = new AbortController();
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let queue: Promise<void> = Promise.resolve();
+
+    const schedule = (timeframe: Timeframe, delay: number) => {
+        const timer = setTimeout(() => {
+            timers.delete(timer);
+            run(timeframe);
+        }, delay);
+        timers.add(timer);
+    };
+
+    const run = (timeframe: Timeframe) => {
+        queue = queue.then(async () => {
+            if (controller.signal.aborted) return;
+            if (!canLoad()) {
+                schedule(timeframe, BUSY_RETRY_DELAY);
+                return;
+            }
+            try {
+                await load(timeframe, controller.signal);
+            } catch (error) {
+                console.error(`Background refresh of ${timeframe} failed`, error);
+            }
+            if (!controller.signal.aborted) schedule(timeframe, getInterval(timeframe));
+        });
+    };
+
+    timeframes.forEach(run);
+
+    return {
+        stop: () => {
+            controller.abort();
+            timers.forEach(timer => clearTimeout(timer));
+            timers.clear();
+        },
+    };
+};
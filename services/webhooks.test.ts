@@ -0,0 +1,349 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { WebhookTarget } from '../types';
+import { createTestNotification, createWebhookDispatcher, type WebhookFetch } from './webhooks';
+
+const STORAGE_KEY = 'crypto-webhook-deliveries';
+
+const createMemoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        },
+    };
+};
+
+const target: WebhookTarget = {
+    id: 'hook',
+    name: 'Local endpoint',
+    enabled: true,
+    url: 'http://localhost:8080/alerts',
+    method: 'POST',
+    headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'X-Token', value: 'secret' }],
+    bodyTemplate: '{"text":"{{symbol}} {{timeframe}} {{rsi}}"}',
+};
+
+// Stands in for the endpoint: answers each request with the next status in `statuses`, repeating the last one
+const createEndpoint = (statuses: (number | Error)[]) => {
+    let calls = 0;
+    const fetchImpl = vi.fn<WebhookFetch>(async () => {
+        const next = statuses[Math.min(calls++, statuses.length - 1)];
+        if (next instanceof Error) throw next;
+        return new Response(null, { status: next });
+    });
+    return fetchImpl;
+};
+
+// Lets the dispatcher's chain of awaits settle without moving the clock
+const settle = async () => {
+    for (let i = 0; i < 20; i++) await Promise.resolve();
+};
+
+describe('createWebhookDispatcher', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('posts the rendered body with the target\'s method and headers', async () => {
+        const fetchImpl = createEndpoint([200]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        const [url, init] = fetchImpl.mock.calls[0];
+        expect(url).toBe(target.url);
+        expect(init).toMatchObject({
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Token': 'secret' },
+            body: '{"text":"BTCUSDT 1h 72.50"}',
+        });
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'delivered', statusCode: 200, attempts: 1 });
+    });
+
+    it('skips disabled targets', async () => {
+        const fetchImpl = createEndpoint([200]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([{ ...target, enabled: false }]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+
+        expect(fetchImpl).not.toHaveBeenCalled();
+        expect(dispatcher.getDeliveries()).toEqual([]);
+    });
+
+    it('retries server errors with exponential backoff until delivered', async () => {
+        const fetchImpl = createEndpoint([500, 503, 200]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'pending', statusCode: 500, attempts: 1, error: 'HTTP 500' });
+
+        // 10s after the first failure, then 20s after the second
+        await vi.advanceTimersByTimeAsync(9999);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await settle();
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(19999);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await settle();
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'delivered', statusCode: 200, attempts: 3, nextAttemptAt: null });
+    });
+
+    it('waits as long as Retry-After asks', async () => {
+        let calls = 0;
+        const fetchImpl = vi.fn<WebhookFetch>(async () =>
+            calls++ === 0 ? new Response(null, { status: 429, headers: { 'Retry-After': '120' } }) : new Response(null, { status: 204 }));
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+        expect(dispatcher.getDeliveries()[0].nextAttemptAt).toBe(Date.now() + 120000);
+
+        await vi.advanceTimersByTimeAsync(119999);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await settle();
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'delivered', statusCode: 204 });
+    });
+
+    it('retries network errors and gives up after six attempts', async () => {
+        const fetchImpl = createEndpoint([new TypeError('Failed to fetch')]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+        // Backoff of 10s, 20s, 40s, 80s and 160s between the six attempts
+        await vi.advanceTimersByTimeAsync(10000 + 20000 + 40000 + 80000 + 160000);
+        await settle();
+
+        expect(fetchImpl).toHaveBeenCalledTimes(6);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'failed', statusCode: null, attempts: 6, nextAttemptAt: null, error: 'Failed to fetch' });
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+        expect(fetchImpl).toHaveBeenCalledTimes(6);
+    });
+
+    it('does not retry client errors', async () => {
+        const fetchImpl = createEndpoint([404]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ status: 'failed', statusCode: 404, error: 'HTTP 404' });
+    });
+
+    it('queues a failed delivery again on retry', async () => {
+        const fetchImpl = createEndpoint([400, 200]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+        dispatcher.setTargets([target]);
+        dispatcher.dispatch(createTestNotification());
+        await settle();
+        const [failed] = dispatcher.getDeliveries();
+        expect(failed.status).toBe('failed');
+
+        dispatcher.retry(failed.id);
+        await settle();
+
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ id: failed.id, status: 'delivered', attempts: 1 });
+    });
+
+    it('persists the retry queue and resumes it after a reload', async () => {
+        const storage = createMemoryStorage();
+        const failing = createEndpoint([500]);
+        const first = createWebhookDispatcher({ fetchImpl: failing, storage });
+        first.setTargets([target]);
+        first.dispatch(createTestNotification());
+        await settle();
+
+        const saved = JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+        expect(saved).toHaveLength(1);
+        expect(saved[0]).toMatchObject({ status: 'pending', attempts: 1, body: '{"text":"BTCUSDT 1h 72.50"}' });
+
+        // A fresh dispatcher, as after a reload, holds the queue until it knows the targets
+        const working = createEndpoint([200]);
+        const second = createWebhookDispatcher({ fetchImpl: working, storage });
+        expect(second.getDeliveries()[0].status).toBe('pending');
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(working).not.toHaveBeenCalled();
+
+        second.setTargets([target]);
+        await settle();
+        expect(working).toHaveBeenCalledTimes(1);
+        expect(second.getDeliveries()[0]).toMatchObject({ status: 'delivered', attempts: 2 });
+        expect(JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]')[0].status).toBe('delivered');
+    });
+
+    it('fails queued deliveries whose target was removed', async () => {
+        const storage = createMemoryStorage();
+        const first = createWebhookDispatcher({ fetchImpl: createEndpoint([500]), storage });
+        first.setTargets([target]);
+        first.dispatch(createTestNotification());
+        await settle();
+
+        const fetchImpl = createEndpoint([200]);
+        const second = createWebhookDispatcher({ fetchImpl, storage });
+        second.setTargets([]);
+        await vi.advanceTimersByTimeAsync(10000);
+        await settle();
+
+        expect(fetchImpl).not.toHaveBeenCalled();
+        expect(second.getDeliveries()[0]).toMatchObject({ status: 'failed', error: 'Target was removed' });
+    });
+
+    it('sends test deliveries once, straight away, and logs them', async () => {
+        const fetchImpl = createEndpoint([500]);
+        const dispatcher = createWebhookDispatcher({ fetchImpl, storage: null });
+
+        const result = await dispatcher.sendTest({ ...target, enabled: false });
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ status: 'failed', statusCode: 500, error: 'HTTP 500' });
+        expect(result.summary.startsWith('Test: ')).toBe(true);
+        expect(dispatcher.getDeliveries()).toEqual([result]);
+    });
+});
+
+describe('createWebhookDispatcher against a local HTTP server', () => {
+    let server: Server;
+    let url: string;
+    // Requests the server received, in order
+    let received: { method: string; headers: IncomingHttpHeaders; body: string; time: number }[];
+    // Answers to successive requests, repeating the last one
+    let replies: { status: number; headers?: Record<string, string> }[];
+
+    beforeEach(async () => {
+        received = [];
+        replies = [{ status: 200 }];
+        server = createServer((request, response) => {
+            let body = '';
+            request.on('data', chunk => {
+                body += chunk;
+            });
+            request.on('end', () => {
+                received.push({ method: request.method ?? '', headers: request.headers, body, time: Date.now() });
+                const reply = replies[Math.min(received.length - 1, replies.length - 1)];
+                response.writeHead(reply.status, reply.headers);
+                response.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/alerts`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const createDispatcher = (overrides: Partial<WebhookTarget> = {}) => {
+        const dispatcher = createWebhookDispatcher({ storage: null });
+        dispatcher.setTargets([{ ...target, url, ...overrides }]);
+        return dispatcher;
+    };
+
+    const waitForStatus = (dispatcher: ReturnType<typeof createWebhookDispatcher>, status: string) =>
+        vi.waitFor(() => expect(dispatcher.getDeliveries()[0]?.status).toBe(status), { timeout: 3000 });
+
+    it('sends the method, custom headers and rendered body, and records a 2xx as delivered', async () => {
+        replies = [{ status: 204 }];
+        const dispatcher = createDispatcher({ method: 'PUT' });
+
+        dispatcher.dispatch(createTestNotification());
+        await waitForStatus(dispatcher, 'delivered');
+
+        expect(received).toHaveLength(1);
+        expect(received[0].method).toBe('PUT');
+        expect(received[0].headers).toMatchObject({ 'content-type': 'application/json', 'x-token': 'secret' });
+        expect(JSON.parse(received[0].body)).toEqual({ text: 'BTCUSDT 1h 72.50' });
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ statusCode: 204, attempts: 1 });
+    });
+
+    it('fails a 4xx without retrying', async () => {
+        replies = [{ status: 401 }, { status: 200 }];
+        const dispatcher = createDispatcher();
+
+        dispatcher.dispatch(createTestNotification());
+        await waitForStatus(dispatcher, 'failed');
+
+        expect(received).toHaveLength(1);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ statusCode: 401, attempts: 1, error: 'HTTP 401', nextAttemptAt: null });
+    });
+
+    it('schedules a retry after a 5xx with the first backoff step', async () => {
+        replies = [{ status: 502 }];
+        const dispatcher = createDispatcher();
+
+        const before = Date.now();
+        dispatcher.dispatch(createTestNotification());
+        await vi.waitFor(() => expect(dispatcher.getDeliveries()[0]?.attempts).toBe(1));
+
+        const delivery = dispatcher.getDeliveries()[0];
+        expect(delivery).toMatchObject({ status: 'pending', statusCode: 502, error: 'HTTP 502' });
+        expect(delivery.nextAttemptAt).toBeGreaterThanOrEqual(before + 10000);
+        expect(received).toHaveLength(1);
+    });
+
+    it('retries once the server\'s Retry-After has passed, then delivers', async () => {
+        replies = [{ status: 503, headers: { 'Retry-After': '1' } }, { status: 200 }];
+        const dispatcher = createDispatcher();
+
+        dispatcher.dispatch(createTestNotification());
+        await waitForStatus(dispatcher, 'delivered');
+
+        expect(received).toHaveLength(2);
+        expect(received[1].time - received[0].time).toBeGreaterThanOrEqual(950);
+        expect(received[1].body).toBe(received[0].body);
+        expect(dispatcher.getDeliveries()[0]).toMatchObject({ statusCode: 200, attempts: 2 });
+    });
+
+    it('keeps a delivery queued when the endpoint can\'t be reached', async () => {
+        const dispatcher = createDispatcher();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+
+        const before = Date.now();
+        dispatcher.dispatch(createTestNotification());
+        await vi.waitFor(() => expect(dispatcher.getDeliveries()[0]?.attempts).toBe(1), { timeout: 3000 });
+
+        const delivery = dispatcher.getDeliveries()[0];
+        expect(delivery).toMatchObject({ status: 'pending', statusCode: null });
+        expect(delivery.error).toBeTruthy();
+        expect(delivery.nextAttemptAt).toBeGreaterThanOrEqual(before + 10000);
+        // Listening again so afterEach has a server to close
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    });
+
+    it('sends test deliveries to the server once, whatever the answer', async () => {
+        replies = [{ status: 500 }];
+        const dispatcher = createWebhookDispatcher({ storage: null });
+
+        const result = await dispatcher.sendTest({ ...target, url, enabled: false });
+
+        expect(received).toHaveLength(1);
+        expect(result).toMatchObject({ status: 'failed', statusCode: 500, error: 'HTTP 500' });
+    });
+});
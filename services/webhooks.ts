@@ -0,0 +1,275 @@
+import type { Notification as ScannerNotification, WebhookDelivery, WebhookTarget } from '../types';
+import { getIndicatorLabel } from '../constants';
+import { describeNotification } from './alertDelivery';
+
+const STORAGE_KEY = 'crypto-webhook-deliveries';
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY = 10 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+const REQUEST_TIMEOUT = 15 * 1000;
+// Finished deliveries kept in the log; pending ones are never dropped
+const MAX_LOG_ENTRIES = 100;
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface WebhookDispatcherConfig {
+    fetchImpl?: WebhookFetch;
+    /** Where the retry queue and delivery log are persisted; null keeps them in memory only. */
+    storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+}
+
+export interface WebhookDispatcher {
+    /** Replaces the targets alerts are sent to. Queued deliveries are only sent once targets are known. */
+    setTargets: (targets: WebhookTarget[]) => void;
+    /** Queues the alert for every enabled target. */
+    dispatch: (notification: ScannerNotification) => void;
+    /** Sends a sample alert to `target` straight away, without retries, whether or not it is enabled or saved. */
+    sendTest: (target: WebhookTarget) => Promise<WebhookDelivery>;
+    /** Queues a failed delivery for another round of attempts. */
+    retry: (deliveryId: string) => void;
+    /** Newest first. */
+    getDeliveries: () => WebhookDelivery[];
+    /** Drops delivered and failed entries from the log; pending ones stay queued. */
+    clearLog: () => void;
+    subscribe: (listener: (deliveries: WebhookDelivery[]) => void) => () => void;
+}
+
+/** A made-up alert for previews and test deliveries. */
+export const createTestNotification = (): ScannerNotification => ({
+    id: Date.now(),
+    timestamp: Date.now(),
+    symbol: 'BTCUSDT',
+    timeframe: '1h',
+    rsi: 72.5,
+    indicator: 'rsi',
+    type: 'rule',
+    ruleName: 'Test alert',
+    ruleCondition: 'Enters overbought',
+    severity: 'warning',
+    read: false,
+});
+
+/** Values for the `{{placeholders}}` listed in `WEBHOOK_TEMPLATE_VARIABLES`. */
+export const getWebhookTemplateValues = (notification: ScannerNotification): Record<string, string> => ({
+    symbol: notification.symbol,
+    timeframe: notification.timeframe,
+    rsi: Number.isFinite(notification.rsi) ? notification.rsi.toFixed(2) : 'null',
+    indicator: getIndicatorLabel(notification.indicator),
+    type: notification.type,
+    rule: notification.ruleName ?? '',
+    severity: notification.severity ?? '',
+    message: describeNotification(notification),
+    timestamp: new Date(notification.timestamp).toISOString(),
+    time: String(notification.timestamp),
+});
+
+/**
+ * Fills in `{{name}}` placeholders. Values are JSON-escaped, so a placeholder inside a string literal
+ * stays valid JSON whatever the value; unknown placeholders are left as they are.
+ */
+export const renderWebhookTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        name in values ? JSON.stringify(values[name]).slice(1, -1) : placeholder);
+
+/** Returns why the template doesn't render to valid JSON, or null when it does. */
+export const validateWebhookTemplate = (template: string): string | null => {
+    try {
+        JSON.parse(renderWebhookTemplate(template, getWebhookTemplateValues(createTestNotification())));
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid JSON';
+    }
+};
+
+// Timeouts, rate limits and server errors are worth another attempt; other client errors are not
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const getRetryDelay = (attempts: number, response?: Response): number => {
+    const retryAfter = parseFloat(response?.headers.get('Retry-After') ?? '');
+    if (Number.isFinite(retryAfter)) return Math.min(MAX_RETRY_DELAY, retryAfter * 1000);
+    return Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempts - 1));
+};
+
+const getErrorMessage = (error: unknown) => {
+    if (error instanceof DOMException && error.name === 'AbortError') return 'Timed out';
+    return error instanceof Error ? error.message : String(error);
+};
+
+const getDefaultStorage = () => (typeof localStorage === 'undefined' ? null : localStorage);
+
+const loadDeliveries = (storage: Pick<Storage, 'getItem'> | null): WebhookDelivery[] => {
+    if (!storage) return [];
+    try {
+        const saved = storage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to parse webhook deliveries from localStorage', error);
+        return [];
+    }
+};
+
+/**
+ * Sends alerts to webhook targets. Each alert becomes one delivery per enabled target, and deliveries are
+ * sent one at a time; failed attempts are retried with exponential backoff, honouring `Retry-After`, up to
+ * six attempts. The queue survives reloads because pending deliveries are persisted along with the log.
+ */
+export const createWebhookDispatcher = ({
+    fetchImpl = (url: string, init: RequestInit) => fetch(url, init),
+    storage = getDefaultStorage(),
+}: WebhookDispatcherConfig = {}): WebhookDispatcher => {
+    const listeners = new Set<(deliveries: WebhookDelivery[]) => void>();
+    let deliveries = loadDeliveries(storage);
+    let targets: WebhookTarget[] | null = null;
+    let sending = false;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let seq = 0;
+
+    const commit = (next: WebhookDelivery[]) => {
+        let finished = 0;
+        deliveries = next.filter(delivery => delivery.status === 'pending' || ++finished <= MAX_LOG_ENTRIES);
+        try {
+            storage?.setItem(STORAGE_KEY, JSON.stringify(deliveries));
+        } catch (error) {
+            console.error('Failed to save webhook deliveries', error);
+        }
+        listeners.forEach(listener => listener(deliveries));
+    };
+
+    const update = (id: string, changes: Partial<WebhookDelivery>) => {
+        commit(deliveries.map(delivery => (delivery.id === id ? { ...delivery, ...changes, updatedAt: Date.now() } : delivery)));
+    };
+
+    const createDelivery = (target: WebhookTarget, notification: ScannerNotification): WebhookDelivery => {
+        const now = Date.now();
+        return {
+            id: `${now}-${seq++}`,
+            targetId: target.id,
+            targetName: target.name || target.url,
+            summary: `${notification.symbol} ${notification.timeframe}: ${describeNotification(notification)}`,
+            body: renderWebhookTemplate(target.bodyTemplate, getWebhookTemplateValues(notification)),
+            status: 'pending',
+            statusCode: null,
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+            nextAttemptAt: now,
+        };
+    };
+
+    const send = async (target: WebhookTarget, body: string): Promise<Response> => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+        const headers: Record<string, string> = {};
+        target.headers.forEach(({ name, value }) => {
+            if (name.trim()) headers[name.trim()] = value;
+        });
+        try {
+            return await fetchImpl(target.url, { method: target.method, headers, body, signal: controller.signal });
+        } finally {
+            clearTimeout(timeout);
+        }
+    };
+
+    const attempt = async (delivery: WebhookDelivery) => {
+        const target = targets?.find(t => t.id === delivery.targetId);
+        if (!target || !target.enabled) {
+            update(delivery.id, { status: 'failed', nextAttemptAt: null, error: target ? 'Target is disabled' : 'Target was removed' });
+            return;
+        }
+
+        const attempts = delivery.attempts + 1;
+        const giveUp = attempts >= MAX_ATTEMPTS;
+        try {
+            const response = await send(target, delivery.body);
+            if (response.ok) {
+                update(delivery.id, { status: 'delivered', statusCode: response.status, attempts, nextAttemptAt: null, error: undefined });
+            } else if (isRetryableStatus(response.status) && !giveUp) {
+                update(delivery.id, { statusCode: response.status, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts, response), error: `HTTP ${response.status}` });
+            } else {
+                update(delivery.id, { status: 'failed', statusCode: response.status, attempts, nextAttemptAt: null, error: `HTTP ${response.status}` });
+            }
+        } catch (error) {
+            // Network errors, CORS rejections and timeouts never produce a status code
+            update(delivery.id, giveUp
+                ? { status: 'failed', statusCode: null, attempts, nextAttemptAt: null, error: getErrorMessage(error) }
+                : { statusCode: null, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts), error: getErrorMessage(error) });
+        }
+    };
+
+    const wakeAt = (time: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, time - Date.now()));
+    };
+
+    const pump = async () => {
+        if (sending || targets === null) return;
+        const pending = deliveries.filter(delivery => delivery.status === 'pending');
+        if (pending.length === 0) return;
+
+        // Oldest first, so a burst of alerts arrives in the order it fired
+        const now = Date.now();
+        const due = pending
+            .filter(delivery => (delivery.nextAttemptAt ?? 0) <= now)
+            .sort((a, b) => a.createdAt - b.createdAt)[0];
+        if (!due) {
+            wakeAt(Math.min(...pending.map(delivery => delivery.nextAttemptAt ?? now)));
+            return;
+        }
+
+        sending = true;
+        try {
+            await attempt(due);
+        } finally {
+            sending = false;
+        }
+        pump();
+    };
+
+    return {
+        setTargets: (next) => {
+            targets = next;
+            pump();
+        },
+        dispatch: (notification) => {
+            const enabled = (targets ?? []).filter(target => target.enabled);
+            if (enabled.length === 0) return;
+            commit([...enabled.map(target => createDelivery(target, notification)), ...deliveries]);
+            pump();
+        },
+        sendTest: async (target) => {
+            const delivery = { ...createDelivery(target, createTestNotification()), status: 'failed' as const, nextAttemptAt: null, attempts: 1 };
+            let result: WebhookDelivery;
+            try {
+                const response = await send(target, delivery.body);
+                result = {
+                    ...delivery,
+                    status: response.ok ? 'delivered' : 'failed',
+                    statusCode: response.status,
+                    error: response.ok ? undefined : `HTTP ${response.status}`,
+                };
+            } catch (error) {
+                result = { ...delivery, error: getErrorMessage(error) };
+            }
+            result = { ...result, summary: `Test: ${result.summary}`, updatedAt: Date.now() };
+            commit([result, ...deliveries]);
+            return result;
+        },
+        retry: (deliveryId) => {
+            const delivery = deliveries.find(d => d.id === deliveryId);
+            if (!delivery || delivery.status !== 'failed') return;
+            update(deliveryId, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined });
+            pump();
+        },
+        getDeliveries: () => deliveries,
+        clearLog: () => commit(deliveries.filter(delivery => delivery.status === 'pending')),
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
@@ -1,17 +1,14 @@
-
+/**
+ * A candle normalized from any market data provider.
+ */
 export interface Kline {
     openTime: number;
-    open: string;
-    high: string;
-    low: string;
-    close: string;
-    volume: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
     closeTime: number;
-    quoteAssetVolume: string;
-    numberOfTrades: number;
-    takerBuyBaseAssetVolume: string;
-    takerBuyQuoteAssetVolume:string;
-    ignore: string;
 }
 
 export interface RsiDataPoint {
@@ -19,16 +16,65 @@ export interface RsiDataPoint {
     value: number;
 }
 
+/** OHLCV of one candle, kept alongside the indicator series it lines up with. */
+export interface Candle {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * Regular divergences signal a possible reversal (price makes a new extreme the oscillator doesn't confirm);
+ * hidden ones signal trend continuation (the oscillator makes the new extreme while price doesn't).
+ */
+export type DivergenceType = 'regular-bullish' | 'regular-bearish' | 'hidden-bullish' | 'hidden-bearish';
+
+export interface DivergencePoint {
+    time: number;
+    /** Candle low for bullish divergences, high for bearish ones. */
+    price: number;
+    rsi: number;
+}
+
+export interface Divergence {
+    type: DivergenceType;
+    start: DivergencePoint;
+    end: DivergencePoint;
+}
+
+/**
+ * `stale` keeps the last good series on screen after a failed or overdue refresh;
+ * `error` and `invalid` have no usable series.
+ */
+export type SymbolStatus = 'ok' | 'stale' | 'error' | 'invalid';
+
 export interface SymbolData {
+    /** RSI, or Stoch RSI %K when `IndicatorSettings.mode` is 'stochRsi'. */
     rsi: RsiDataPoint[];
+    /** The signal line, averaged as configured by `IndicatorSettings.signalType`, or %D in Stoch RSI mode. */
     sma: RsiDataPoint[];
+    /** Bollinger Bands around the signal line, only when `signalType` is 'bb'. */
+    bbUpper?: RsiDataPoint[];
+    bbLower?: RsiDataPoint[];
+    /** Candles covering the same span as `rsi`. */
+    candles: Candle[];
+    /** Divergences between price and `rsi` found in the window, oldest first. */
+    divergences: Divergence[];
     price: number;
     volume: number;
+    status: SymbolStatus;
+    /** Reason for the last failure, set for every status except `ok`. */
+    error?: string;
+    /** Epoch ms of the last successful update, or null if the symbol never loaded. */
+    lastUpdated: number | null;
 }
 
 export type Timeframe = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '8h' | '1d' | '3d' | '1w';
 
-export interface Settings {
+export interface ThemeSettings {
     bgColor: string;
     textColor: string;
     cellBgColor: string;
@@ -38,25 +84,291 @@ export interface Settings {
     lineWidth: number;
 }
 
-export type SortOrder = 'rsi-desc' | 'rsi-asc' | 'default';
+export type PriceSource = 'close' | 'open' | 'high' | 'low' | 'hl2' | 'hlc3' | 'ohlc4';
+export type RsiSmoothing = 'wilder' | 'cutler';
+/** Moving average used for the signal line; 'bb' is the SMA basis of Bollinger Bands on RSI. */
+export type SignalLineType = 'sma' | 'ema' | 'wma' | 'bb';
+/** Which oscillator the scanner ranks, colours and alerts on. */
+export type IndicatorMode = 'rsi' | 'stochRsi';
+
+/**
+ * Parameters that change how `SymbolData` is derived from klines.
+ */
+export interface IndicatorSettings {
+    mode: IndicatorMode;
+    rsiLength: number;
+    /** Length of the signal line, whichever type it is. */
+    smaLength: number;
+    priceSource: PriceSource;
+    rsiSmoothing: RsiSmoothing;
+    signalType: SignalLineType;
+    /** Band width in standard deviations when `signalType` is 'bb'. */
+    bbMultiplier: number;
+    /** Lookback of the stochastic applied to RSI in Stoch RSI mode. */
+    stochLength: number;
+    /** SMA length smoothing the raw stochastic into %K. */
+    stochKSmoothing: number;
+    /** SMA length of %K that forms %D. */
+    stochDSmoothing: number;
+}
 
-export type DrawingTool = 'brush' | 'trendline';
+export interface Settings extends ThemeSettings, IndicatorSettings {}
+
+export type SortOrder = 'rsi-desc' | 'rsi-asc' | 'confluence-desc' | 'confluence-asc' | 'default';
+
+/**
+ * Which timeframes feed the multi-timeframe confluence score and how much each one counts.
+ */
+export interface ConfluenceSettings {
+    enabled: boolean;
+    timeframes: Timeframe[];
+    /** Relative weight per timeframe; timeframes without an entry count as 1. */
+    weights: Partial<Record<Timeframe, number>>;
+    /** Absolute score at or above which a symbol is in confluence and alerts fire. */
+    alertThreshold: number;
+}
+
+export type AlertRuleScope = 'all' | 'favorites' | 'symbols';
+export type AlertConditionType = 'above' | 'below' | 'cross-midline' | 'cross-signal' | 'enter-zone' | 'exit-zone';
+export type AlertZone = 'overbought' | 'oversold';
+export type CrossDirection = 'up' | 'down' | 'any';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * A user-defined alert. Rules are edge-triggered: one fires when its condition starts to hold for a
+ * symbol and timeframe, and not again for that pair until the condition clears and the cooldown has passed.
+ */
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    scope: AlertRuleScope;
+    /** Symbols the rule watches when `scope` is 'symbols'. */
+    symbols: string[];
+    /** Timeframes the rule watches; empty means any timeframe that is loaded. */
+    timeframes: Timeframe[];
+    condition: AlertConditionType;
+    /** Threshold for 'above' and 'below'. */
+    level: number;
+    /** Zone for 'enter-zone' and 'exit-zone', at the levels of the active indicator. */
+    zone: AlertZone;
+    /** Direction for 'cross-midline' and 'cross-signal'. */
+    direction: CrossDirection;
+    /** Minimum minutes between two alerts of this rule for the same symbol and timeframe. */
+    cooldownMinutes: number;
+    severity: AlertSeverity;
+}
+
+export type AlertSound = 'none' | 'chime' | 'beep' | 'bell' | 'alarm';
+export type NotificationType = Notification['type'];
+
+/**
+ * How alerts reach the user beyond the in-page toasts and notification panel.
+ */
+export interface AlertDeliverySettings {
+    /** Show native desktop notifications while the tab is in the background. */
+    desktopEnabled: boolean;
+    /** Sound for each built-in alert type; rule alerts use `severitySounds`. */
+    typeSounds: Record<Exclude<NotificationType, 'rule'>, AlertSound>;
+    severitySounds: Record<AlertSeverity, AlertSound>;
+    /** 0 to 1. */
+    volume: number;
+    /** Daily window, as local "HH:MM" times, in which sounds and desktop notifications are held back. */
+    quietHours: { enabled: boolean; start: string; end: string };
+    /** Replay critical rule alerts until they are dismissed or the notification panel is opened. */
+    repeatCritical: boolean;
+    repeatIntervalSeconds: number;
+}
+
+/** How long a snooze lasts; 'candle' ends when the current candle of the alert's timeframe closes. */
+export type SnoozeOption = '15m' | '1h' | '4h' | 'candle' | 'mute';
+
+/**
+ * Alerts for a muted symbol are dropped on every timeframe. A snooze ends at `until`; a mute has no end.
+ */
+export interface AlertMute {
+    /** Epoch ms when the snooze ends, or null for an indefinite mute. */
+    until: number | null;
+    mutedAt: number;
+}
+
+export type WebhookMethod = 'POST' | 'PUT' | 'PATCH';
+export type WebhookPreset = 'generic' | 'discord' | 'telegram';
+
+/**
+ * An HTTP endpoint that receives every alert. `bodyTemplate` is JSON with `{{placeholders}}`, see
+ * `WEBHOOK_TEMPLATE_VARIABLES`; values are JSON-escaped so they can sit inside string literals.
+ */
+export interface WebhookTarget {
+    id: string;
+    name: string;
+    enabled: boolean;
+    url: string;
+    method: WebhookMethod;
+    headers: { name: string; value: string }[];
+    bodyTemplate: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One alert sent to one target. Pending deliveries double as the retry queue and are persisted, so
+ * they are picked up again after a reload.
+ */
+export interface WebhookDelivery {
+    id: string;
+    targetId: string;
+    targetName: string;
+    /** Short description of the alert, for the delivery log. */
+    summary: string;
+    /** The rendered request body. */
+    body: string;
+    status: WebhookDeliveryStatus;
+    /** HTTP status of the last attempt, or null when it never got a response. */
+    statusCode: number | null;
+    error?: string;
+    attempts: number;
+    createdAt: number;
+    updatedAt: number;
+    /** Epoch ms of the next attempt while pending. */
+    nextAttemptAt: number | null;
+}
+
+/** A named screener expression, reusable from the header. */
+export interface SavedScreen {
+    id: string;
+    name: string;
+    expression: string;
+}
+
+/** Tools that create a drawing of the same kind. */
+export type DrawingShape = 'brush' | 'trendline' | 'ray' | 'hline' | 'rectangle' | 'text';
+/** 'cursor' leaves the chart interactive (crosshair and tooltip) instead of drawing. */
+export type DrawingTool = 'cursor' | 'select' | 'eraser' | DrawingShape;
+
+/** A point in chart coordinates, so drawings stay anchored as the chart resizes or new candles arrive. */
+export interface DrawingPoint {
+    /** Epoch ms; may fall between or beyond the loaded candles. */
+    time: number;
+    /** Indicator value on the RSI pane's scale. */
+    value: number;
+}
 
 export interface Drawing {
-    tool: DrawingTool;
-    points: { x: number; y: number }[];
+    id: string;
+    tool: DrawingShape;
+    /**
+     * Brush strokes keep every point; trendlines and rays run from the first point through the second,
+     * rectangles span two opposite corners, and levels and labels use a single point.
+     */
+    points: DrawingPoint[];
     color: string;
+    /** Line width, or the font scale for labels. */
     size: number;
+    /** Label text, for 'text' drawings. */
+    text?: string;
+    /** Set when a trendline, ray or level also alerts as the indicator crosses it. */
+    alert?: DrawingAlert;
+}
+
+/**
+ * An alert on a drawn line. Trendlines are extended past their ends, so they keep alerting as new
+ * candles arrive; rays only to the side they point to, and levels everywhere.
+ */
+export interface DrawingAlert {
+    enabled: boolean;
 }
 
 export type Theme = 'light' | 'dark';
-export type ViewMode = 'chart' | 'heatmap';
+export type ViewMode = 'chart' | 'heatmap' | 'matrix';
 
 export interface Notification {
   id: number;
+  /** Epoch ms when the alert fired. */
+  timestamp: number;
   symbol: string;
   timeframe: Timeframe;
   rsi: number;
-  type: 'overbought' | 'oversold';
+  /** Oscillator that `rsi` was read from; older notifications predate Stoch RSI mode. */
+  indicator?: IndicatorMode;
+  type: 'overbought' | 'oversold' | 'divergence' | 'confluence' | 'rule';
+  /** Set for `divergence` notifications. */
+  divergence?: DivergenceType;
+  /** Set for `confluence` notifications: the score, positive when oversold across timeframes. */
+  score?: number;
+  /** Set for `rule` notifications: the rule that fired and what it matched. */
+  ruleName?: string;
+  ruleCondition?: string;
+  severity?: AlertSeverity;
   read: boolean;
-}
\ No newline at end of file
+}
+export type ProviderId = 'binance-spot' | 'binance-futures';
+
+export interface Ticker {
+    symbol: string;
+    lastPrice: number;
+    priceChangePercent: number;
+    quoteVolume: number;
+}
+
+export interface StreamedKline {
+    symbol: string;
+    kline: Kline;
+    isClosed: boolean;
+}
+
+export interface KlineStreamSpec {
+    baseUrl: string;
+    maxSymbolsPerSocket: number;
+    /** WebSocket URL for one socket carrying the given symbols. */
+    getUrl: (baseUrl: string, symbols: string[], timeframe: Timeframe) => string;
+    /** Frames to send once connected, for exchanges that subscribe over the socket instead of the URL. */
+    getSubscribeMessages?: (symbols: string[], timeframe: Timeframe) => string[];
+    parseMessage: (data: string) => StreamedKline | null;
+}
+
+export interface RequestStats {
+    queued: number;
+    inFlight: number;
+    /** Request weight used in the current one-minute window, as reported by the exchange when available. */
+    usedWeight: number;
+    weightLimit: number;
+    /** Epoch ms until which requests are paused after a 429/418, or null. */
+    backoffUntil: number | null;
+}
+
+export interface ScheduleOptions {
+    /** Request weight charged by the exchange. */
+    weight?: number;
+    /** Lower values run first; requests with equal priority run in order. */
+    priority?: number;
+    /** Drops the request from the queue once aborted, rejecting with the abort reason. A request already sent still completes. */
+    signal?: AbortSignal;
+}
+
+export interface KlineRequestOptions extends ScheduleOptions {
+    /** Only return candles opening at or after this time (epoch ms). */
+    startTime?: number;
+    /** Only return candles opening at or before this time (epoch ms). */
+    endTime?: number;
+}
+
+export interface RequestScheduler {
+    fetch: (url: string, options?: ScheduleOptions) => Promise<Response>;
+    getStats: () => RequestStats;
+    subscribe: (listener: (stats: RequestStats) => void) => () => void;
+}
+
+/**
+ * An exchange adapter. Each adapter maps its own REST and WebSocket formats onto the normalized types.
+ */
+export interface MarketDataProvider {
+    id: ProviderId;
+    label: string;
+    fetchKlines: (symbol: string, timeframe: Timeframe, limit: number, options?: KlineRequestOptions) => Promise<Kline[]>;
+    fetchSymbols: () => Promise<string[]>;
+    fetchTickers: () => Promise<Record<string, Ticker>>;
+    stream: KlineStreamSpec;
+    /** Queues every REST call to the exchange within its rate limits. */
+    scheduler: RequestScheduler;
+}